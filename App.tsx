@@ -1,9 +1,24 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import ImageUploader from './components/ImageUploader';
+import QualityReport from './components/QualityReport';
+import FrameInspector from './components/FrameInspector';
+import TurntableExport from './components/TurntableExport';
+import StagePanel from './components/StagePanel';
 import OrbitalMode from './ui/orbital/OrbitalMode';
-import { generateOrbitalAssets } from './services/OrbitalGenService';
-import { ImageState, BatchItem } from './types';
+import { createOrbitalProvider, generateOrbitalAssets, regenerateFrames, OrbitalGenResult } from './services/OrbitalGenService';
+import { BatchQueue, BatchQueueEvent } from './services/BatchQueue';
+import { pairReferenceFiles } from './services/BatchIntake';
+import { OrbitalProviderId } from './services/providers/OrbitalProvider';
+import { computeSourceChecksum } from './core/checksum';
+import { DEFAULT_RING_PITCHES, ORBITAL_PITCH_PRESETS } from './core/orbitalRings';
+import { DEFAULT_GRID_LAYOUT, GRID_LAYOUTS } from './core/gridLayout';
+import { clearBatchItems, deleteBatchItem, isProgressOnlyChange, loadBatchItems, saveBatchItem } from './services/BatchStorage';
+import { createManifest, manifestToBatchItem, parseManifest, serializeManifest } from './services/ManifestService';
+import { createStandaloneHtml } from './services/HtmlExportService';
+import { exportTurntable } from './services/TurntableExportService';
+import { TurntableOptions } from './core/turntable';
+import { ImageState, BatchItem, GridLayout, OrbitalStage, TurntableArtifact, TurntableFormat } from './types';
 
 const KINETIC_LOGS = [
   "INITIALIZING_CORE_V3",
@@ -15,22 +30,157 @@ const KINETIC_LOGS = [
   "DKG_STABILIZED_READY"
 ];
 
+const createBatchId = () => Math.random().toString(36).substring(7).toUpperCase();
+
+const MAX_RETRIES = 3;
+
+const exportFileName = (item: BatchItem, extension: string) =>
+  `${item.productName.replace(/[^a-z0-9_-]+/gi, '_')}.${extension}`;
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+type SynthesisJob = {
+  name: string;
+  images: ImageState;
+  pitches: number[];
+  layout: GridLayout;
+};
+
+const resolveInitialProvider = (): OrbitalProviderId => {
+  const requested = new URLSearchParams(window.location.search).get('provider')
+    || sessionStorage.getItem("ORBITAL_PROVIDER")
+    || import.meta.env.VITE_ORBITAL_PROVIDER;
+  return requested === 'procedural' ? 'procedural' : 'gemini';
+};
+
 const App: React.FC = () => {
   const [hasKey, setHasKey] = useState<boolean | null>(null);
+  const [providerId, setProviderId] = useState<OrbitalProviderId>(resolveInitialProvider);
   const [productName, setProductName] = useState("");
   const [images, setImages] = useState<ImageState>({ front: null, back: null });
+  const [ringPitches, setRingPitches] = useState<number[]>(DEFAULT_RING_PITCHES);
+  const [gridLayout, setGridLayout] = useState<GridLayout>(DEFAULT_GRID_LAYOUT);
   const [batch, setBatch] = useState<BatchItem[]>([]);
   const [activeGolemId, setActiveGolemId] = useState<string | null>(null);
   const [logIdx, setLogIdx] = useState(0);
   const [sidebarOpen, setSidebarOpen] = useState(false); // Collapsed by default
   const [manualKey, setManualKey] = useState("");
   const [keyError, setKeyError] = useState("");
+  const [importError, setImportError] = useState("");
+  const [duplicateGolem, setDuplicateGolem] = useState<BatchItem | null>(null);
+  const [inspectorOpen, setInspectorOpen] = useState(false);
+  const [regenPitch, setRegenPitch] = useState<number | null>(null);
+  const regenRef = useRef<{ id: string; controller: AbortController } | null>(null);
+  const [turntableJob, setTurntableJob] = useState<{ itemId: string; format: TurntableFormat; progress: number } | null>(null);
+  const [turntableError, setTurntableError] = useState('');
+  const turntableAbortRef = useRef<AbortController | null>(null);
+  const [frameError, setFrameError] = useState('');
+  const manifestInputRef = useRef<HTMLInputElement>(null);
+  const [historyLoaded, setHistoryLoaded] = useState(false);
+  const persistedRef = useRef(new Map<string, BatchItem>());
+  const [concurrency, setConcurrency] = useState(2);
+  const [intakeNote, setIntakeNote] = useState('');
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const filesInputRef = useRef<HTMLInputElement>(null);
+  const providerIdRef = useRef(providerId);
+  providerIdRef.current = providerId;
+  const jobsRef = useRef(new Map<string, SynthesisJob>());
+
+  const patchItem = (id: string, patch: Partial<BatchItem>) => {
+    setBatch(prev => prev.map(item => item.id === id ? { ...item, ...patch } : item));
+  };
+
+  const handleQueueEvent = (event: BatchQueueEvent<OrbitalGenResult>) => {
+    switch (event.type) {
+      case 'queued':
+        patchItem(event.id, { status: 'PENDING' });
+        break;
+      case 'started':
+        patchItem(event.id, { status: 'SYNTHESIZING', error: undefined, resumable: undefined });
+        break;
+      case 'progress':
+        patchItem(event.id, { progress: Math.round(event.progress * 100) });
+        break;
+      case 'retrying':
+        patchItem(event.id, {
+          status: 'PENDING',
+          progress: 0,
+          error: `RETRY_${event.attempt}/${MAX_RETRIES}_IN_${Math.round(event.delayMs / 1000)}S: ${event.error}`
+        });
+        break;
+      case 'paused':
+        patchItem(event.id, { status: 'PAUSED', progress: 0 });
+        break;
+      case 'cancelled':
+        jobsRef.current.delete(event.id);
+        patchItem(event.id, { status: 'CANCELLED', progress: 0, error: undefined });
+        break;
+      case 'completed':
+        jobsRef.current.delete(event.id);
+        patchItem(event.id, {
+          status: 'COMPLETE',
+          progress: 100,
+          error: undefined,
+          orbitalAssets: event.result.assets,
+          quality: event.result.quality
+        });
+        break;
+      case 'failed':
+        jobsRef.current.delete(event.id);
+        if (event.kind === 'AUTH') {
+          patchItem(event.id, { status: 'FAILED', error: "RE_AUTH_REQUIRED", resumable: true });
+          setHasKey(false);
+        } else {
+          patchItem(event.id, { status: 'FAILED', error: event.error });
+        }
+        break;
+    }
+  };
+
+  const [queue] = useState(() => new BatchQueue<OrbitalGenResult>({
+    concurrency,
+    maxRetries: MAX_RETRIES,
+    baseDelayMs: 2000,
+    maxDelayMs: 30000,
+    execute: async (id, onProgress, signal) => {
+      const job = jobsRef.current.get(id);
+      if (!job) {
+        throw new Error("SYNTHESIS_JOB_MISSING");
+      }
+      if (!job.images.front || !job.images.back) {
+        throw new Error("BACK_REFERENCE_REQUIRED");
+      }
+      const activeProvider = providerIdRef.current;
+      const apiKey = activeProvider === 'gemini' ? await resolveApiKey() : '';
+      return generateOrbitalAssets(
+        job.name,
+        job.images.front,
+        job.images.back,
+        createOrbitalProvider(activeProvider, apiKey),
+        job.pitches,
+        job.layout,
+        { onProgress, signal }
+      );
+    },
+    onEvent: event => handleQueueEvent(event)
+  }));
 
   const activeGolem = batch.find(item => item.id === activeGolemId) || null;
 
   useEffect(() => {
     const checkAuth = async () => {
       try {
+        if (providerId === 'procedural') {
+          setHasKey(true);
+          return;
+        }
         const storedKey = sessionStorage.getItem("GEMINI_API_KEY");
         if (storedKey) {
           setHasKey(true);
@@ -49,6 +199,64 @@ const App: React.FC = () => {
     checkAuth();
   }, []);
 
+  useEffect(() => {
+    loadBatchItems()
+      .then(items => {
+        items.forEach(item => persistedRef.current.set(item.id, item));
+        setBatch(prev => [...prev, ...items.filter(item => !prev.some(p => p.id === item.id))]);
+      })
+      .catch(err => console.error("History restore failed", err))
+      .finally(() => setHistoryLoaded(true));
+  }, []);
+
+  useEffect(() => {
+    if (!historyLoaded) return;
+    const persisted = persistedRef.current;
+
+    if (batch.length === 0 && persisted.size > 0) {
+      persisted.clear();
+      clearBatchItems().catch(err => console.error("History persistence failed", err));
+      return;
+    }
+
+    const liveIds = new Set(batch.map(item => item.id));
+    persisted.forEach((_, id) => {
+      if (!liveIds.has(id)) {
+        persisted.delete(id);
+        deleteBatchItem(id).catch(err => console.error("History persistence failed", err));
+      }
+    });
+    for (const item of batch) {
+      const previous = persisted.get(item.id);
+      if (previous !== item && !(previous && isProgressOnlyChange(previous, item))) {
+        persisted.set(item.id, item);
+        saveBatchItem(item).catch(err => console.error("History persistence failed", err));
+      }
+    }
+  }, [batch, historyLoaded]);
+
+  useEffect(() => {
+    queue.setConcurrency(concurrency);
+  }, [queue, concurrency]);
+
+  useEffect(() => {
+    if (hasKey) {
+      queue.release();
+    }
+  }, [queue, hasKey]);
+
+  const isSynthesizing = batch.some(item => item.status === 'SYNTHESIZING');
+  useEffect(() => {
+    if (!isSynthesizing) {
+      setLogIdx(0);
+      return;
+    }
+    const logInterval = setInterval(() => {
+      setLogIdx(prev => (prev + 1) % KINETIC_LOGS.length);
+    }, 1200);
+    return () => clearInterval(logInterval);
+  }, [isSynthesizing]);
+
   const resolveApiKey = async () => {
     const storedKey = sessionStorage.getItem("GEMINI_API_KEY");
     if (storedKey) return storedKey;
@@ -77,6 +285,14 @@ const App: React.FC = () => {
     }
   };
 
+  const handleSelectProvider = (id: OrbitalProviderId) => {
+    sessionStorage.setItem("ORBITAL_PROVIDER", id);
+    setProviderId(id);
+    if (id === 'procedural') {
+      setHasKey(true);
+    }
+  };
+
   const handleManualKeySave = () => {
     if (!manualKey.trim()) {
       setKeyError("API key required");
@@ -87,60 +303,222 @@ const App: React.FC = () => {
     setHasKey(true);
   };
 
-  const handleGenerate = async () => {
+  const handleGenerate = async (force = false) => {
     if (!images.front) return;
+
+    const sourceChecksum = images.back ? await computeSourceChecksum(images) : undefined;
+    const pitchKey = ringPitches.join(',');
+    const existing = sourceChecksum && batch.find(item =>
+      item.sourceChecksum === sourceChecksum && item.status === 'COMPLETE' && item.orbitalAssets
+        && item.orbitalAssets.rings.map(ring => ring.pitch).join(',') === pitchKey
+        && item.orbitalAssets.layout.id === gridLayout.id
+    );
+    if (existing && !force) {
+      setDuplicateGolem(existing);
+      return;
+    }
+    setDuplicateGolem(null);
     
     // Auto-generate name if empty
     const timestamp = new Date().toLocaleTimeString([], { hour12: false, hour: '2-digit', minute: '2-digit', second: '2-digit' });
     const finalName = productName.trim() || `SYNTH_GOLEM_${timestamp.replace(/:/g, '')}`;
     
-    const id = Math.random().toString(36).substring(7).toUpperCase();
-    const newItem: BatchItem = {
-      id,
-      productName: finalName,
-      status: 'SYNTHESIZING',
-      progress: 0,
-      images: { ...images }
-    };
-
+    const newItem = createQueuedItem(finalName, { ...images }, sourceChecksum);
     setBatch(prev => [newItem, ...prev]);
-    setActiveGolemId(id);
+    setActiveGolemId(newItem.id);
+    enqueueItem(newItem);
+  };
 
-    const logInterval = setInterval(() => {
-      setLogIdx(prev => (prev + 1) % KINETIC_LOGS.length);
-    }, 1200);
+  const createQueuedItem = (name: string, source: ImageState, sourceChecksum?: string): BatchItem => ({
+    id: createBatchId(),
+    productName: name,
+    status: 'PENDING',
+    progress: 0,
+    images: source,
+    sourceChecksum,
+    ringPitches,
+    gridLayout,
+    createdAt: Date.now()
+  });
+
+  const enqueueItem = (item: BatchItem) => {
+    jobsRef.current.set(item.id, {
+      name: item.productName,
+      images: item.images,
+      pitches: item.ringPitches ?? DEFAULT_RING_PITCHES,
+      layout: item.gridLayout ?? DEFAULT_GRID_LAYOUT
+    });
+    queue.enqueue(item.id);
+  };
+
+  const handleReprocess = (target: BatchItem) => {
+    patchItem(target.id, { status: 'PENDING', progress: 0, error: undefined, resumable: undefined });
+    setActiveGolemId(target.id);
+    enqueueItem(target);
+  };
+
+  const handlePauseItem = (id: string) => queue.pause(id);
+
+  const handleResumeItem = (item: BatchItem) => {
+    if (queue.has(item.id)) {
+      queue.resume(item.id);
+    } else {
+      enqueueItem(item);
+    }
+  };
+
+  const handleCancelItem = (id: string) => {
+    if (queue.has(id)) {
+      queue.cancel(id);
+    } else {
+      patchItem(id, { status: 'CANCELLED', progress: 0, error: undefined });
+    }
+  };
+
+  const abortRegeneration = (id?: string) => {
+    if (regenRef.current && (!id || regenRef.current.id === id)) {
+      regenRef.current.controller.abort();
+      regenRef.current = null;
+    }
+  };
+
+  const handleDeleteItem = (id: string) => {
+    queue.cancel(id);
+    abortRegeneration(id);
+    setBatch(prev => prev.filter(item => item.id !== id));
+    if (activeGolemId === id) {
+      setActiveGolemId(null);
+    }
+  };
+
+  const handleWipe = () => {
+    queue.cancelAll();
+    abortRegeneration();
+    setBatch([]);
+  };
+
+  const handleBulkIntake = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+    e.target.value = '';
+    if (files.length === 0) return;
 
     try {
-      if (!images.back) {
-        throw new Error("BACK_REFERENCE_REQUIRED");
+      const { pairs, unmatched } = await pairReferenceFiles(files);
+      const items = await Promise.all(pairs.map(async pair => {
+        const source = { front: pair.front, back: pair.back };
+        return createQueuedItem(pair.productName, source, await computeSourceChecksum(source));
+      }));
+      setBatch(prev => [...items.slice().reverse(), ...prev]);
+      items.forEach(enqueueItem);
+      setSidebarOpen(true);
+      setIntakeNote(
+        `${items.length} queued` + (unmatched.length ? ` · ${unmatched.length} unmatched: ${unmatched.slice(0, 4).join(', ')}` : '')
+      );
+    } catch (err: any) {
+      setIntakeNote(`INTAKE_FAILED: ${err.message}`);
+    }
+  };
+
+  const handleTogglePitch = (pitch: number) => {
+    setRingPitches(prev => {
+      if (prev.includes(pitch)) {
+        return prev.length > 1 ? prev.filter(p => p !== pitch) : prev;
       }
-      const apiKey = await resolveApiKey();
-      const result = await generateOrbitalAssets(
-        finalName,
-        images.front!,
-        images.back,
-        apiKey
+      return [...prev, pitch].sort((a, b) => a - b);
+    });
+    setDuplicateGolem(null);
+  };
+
+  const handleRegenerateFrames = async (target: BatchItem, pitch: number, frames: number[]) => {
+    if (!target.orbitalAssets || !target.images.front || !target.images.back) return;
+
+    const controller = new AbortController();
+    regenRef.current = { id: target.id, controller };
+    setRegenPitch(pitch);
+    setFrameError('');
+    try {
+      const apiKey = providerId === 'gemini' ? await resolveApiKey() : '';
+      const result = await regenerateFrames(
+        target.productName,
+        target.images.front,
+        target.images.back,
+        target.orbitalAssets,
+        target.quality,
+        pitch,
+        frames,
+        createOrbitalProvider(providerId, apiKey),
+        controller.signal
       );
-      setBatch(prev => prev.map(item => 
-        item.id === id 
-          ? { ...item, status: 'COMPLETE' as const, orbitalAssets: result } 
-          : item
+      setBatch(prev => prev.map(item =>
+        item.id === target.id ? { ...item, orbitalAssets: result.assets, quality: result.quality } : item
       ));
     } catch (err: any) {
+      if (controller.signal.aborted) return;
       const errorMsg = err.message;
       if (errorMsg.includes("Requested entity was not found") || errorMsg === "AUTH_PROTOCOL_EXPIRED") {
-        setBatch(prev => prev.map(item => 
-          item.id === id ? { ...item, status: 'FAILED' as const, error: "RE_AUTH_REQUIRED" } : item
-        ));
         setHasKey(false);
-      } else {
-        setBatch(prev => prev.map(item => 
-          item.id === id ? { ...item, status: 'FAILED' as const, error: errorMsg } : item
-        ));
       }
+      setFrameError(errorMsg);
     } finally {
-      clearInterval(logInterval);
-      setLogIdx(0);
+      if (regenRef.current?.controller === controller) {
+        regenRef.current = null;
+      }
+      setRegenPitch(null);
+    }
+  };
+
+  const handleExportManifest = (item: BatchItem) => {
+    const manifest = createManifest(item);
+    downloadBlob(new Blob([serializeManifest(manifest)], { type: 'application/json' }), exportFileName(item, 'dkg.json'));
+  };
+
+  const handleExportHtml = (item: BatchItem) => {
+    downloadBlob(new Blob([createStandaloneHtml(item)], { type: 'text/html' }), exportFileName(item, 'orbit.html'));
+  };
+
+  const handleExportTurntable = async (item: BatchItem, format: TurntableFormat, options: TurntableOptions) => {
+    if (!item.orbitalAssets || turntableJob) return;
+
+    const controller = new AbortController();
+    turntableAbortRef.current = controller;
+    setTurntableError('');
+    setTurntableJob({ itemId: item.id, format, progress: 0 });
+    try {
+      const artifact = await exportTurntable(item.orbitalAssets, format, options, {
+        stage: item.stage,
+        signal: controller.signal,
+        onProgress: (progress) => setTurntableJob(job => job && { ...job, progress })
+      });
+      setBatch(prev => prev.map(candidate =>
+        candidate.id === item.id ? { ...candidate, artifacts: [artifact, ...(candidate.artifacts ?? [])] } : candidate
+      ));
+    } catch (err: any) {
+      if (!controller.signal.aborted) {
+        setTurntableError(err.message);
+      }
+    } finally {
+      turntableAbortRef.current = null;
+      setTurntableJob(null);
+    }
+  };
+
+  const handleDeleteArtifact = (item: BatchItem, artifact: TurntableArtifact) => {
+    patchItem(item.id, { artifacts: (item.artifacts ?? []).filter(candidate => candidate.id !== artifact.id) });
+  };
+
+  const handleImportManifest = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const manifest = parseManifest(await file.text());
+      const item = manifestToBatchItem(manifest, createBatchId());
+      setBatch(prev => [item, ...prev]);
+      setActiveGolemId(item.id);
+      setImportError('');
+    } catch (err: any) {
+      setImportError(err.message);
     }
   };
 
@@ -177,6 +555,12 @@ const App: React.FC = () => {
             </button>
             <p className="text-[9px] text-white/40 leading-relaxed">Key is stored in sessionStorage only for this browser session and never baked into the deployed bundle.</p>
           </div>
+          <button
+            onClick={() => handleSelectProvider('procedural')}
+            className="w-full px-4 py-3 bg-transparent border border-white/10 hover:border-white/30 text-white/60 hover:text-white text-[10px] font-bold uppercase tracking-[0.2em] rounded-xl active:scale-95 transition-all"
+          >
+            Run Offline (Procedural Backend)
+          </button>
         </div>
       </div>
     );
@@ -214,7 +598,7 @@ const App: React.FC = () => {
             <div className="flex justify-between items-center mb-6">
               <span className="text-[9px] font-black text-white/30 uppercase tracking-widest">Buffer_Queue ({batch.length})</span>
               {batch.length > 0 && (
-                <button onClick={() => setBatch([])} className="text-[9px] text-red-400 font-bold uppercase hover:text-red-300 transition-colors">Wipe</button>
+                <button onClick={handleWipe} className="text-[9px] text-red-400 font-bold uppercase hover:text-red-300 transition-colors">Wipe</button>
               )}
             </div>
             <div className="flex-1 overflow-y-auto space-y-2.5 custom-scrollbar pr-1">
@@ -232,9 +616,50 @@ const App: React.FC = () => {
                 >
                   <div className="flex justify-between items-center">
                      <span className={`text-[11px] font-bold uppercase truncate pr-3 ${activeGolemId === item.id ? 'text-white' : 'text-white/70'}`}>{item.productName}</span>
-                     <div className={`w-1.5 h-1.5 rounded-full shrink-0 ${item.status === 'COMPLETE' ? 'bg-green-400' : item.status === 'FAILED' ? 'bg-red-500' : 'bg-white animate-pulse'}`} />
+                     <div className="flex items-center space-x-2 shrink-0">
+                       {(item.status === 'PENDING' || item.status === 'SYNTHESIZING' || item.status === 'PAUSED') && (
+                         <button
+                           onClick={(e) => { e.stopPropagation(); handleCancelItem(item.id); }}
+                           className="text-[8px] font-bold uppercase tracking-widest text-white/30 hover:text-red-300 opacity-0 group-hover:opacity-100 transition-all"
+                           title="Cancel"
+                         >
+                           ■
+                         </button>
+                       )}
+                       {(item.status === 'PENDING' || item.status === 'SYNTHESIZING') && (
+                         <button
+                           onClick={(e) => { e.stopPropagation(); handlePauseItem(item.id); }}
+                           className="text-[8px] font-bold uppercase tracking-widest text-white/30 hover:text-amber-300 opacity-0 group-hover:opacity-100 transition-all"
+                           title="Pause"
+                         >
+                           ❚❚
+                         </button>
+                       )}
+                       {item.status === 'PAUSED' && (
+                         <button
+                           onClick={(e) => { e.stopPropagation(); handleResumeItem(item); }}
+                           className="text-[8px] font-bold uppercase tracking-widest text-white/30 hover:text-green-300 opacity-0 group-hover:opacity-100 transition-all"
+                           title="Resume"
+                         >
+                           ▶
+                         </button>
+                       )}
+                       <div className={`w-1.5 h-1.5 rounded-full shrink-0 ${item.status === 'COMPLETE' ? 'bg-green-400' : item.status === 'FAILED' ? 'bg-red-500' : item.status === 'CANCELLED' ? 'bg-white/20' : item.status === 'PAUSED' ? 'bg-amber-400' : item.status === 'PENDING' ? 'bg-white/40' : 'bg-white animate-pulse'}`} />
+                       <button
+                         onClick={(e) => { e.stopPropagation(); handleDeleteItem(item.id); }}
+                         className="text-[10px] leading-none text-white/20 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-all"
+                         title="Delete"
+                       >
+                         ✕
+                       </button>
+                     </div>
                   </div>
-                  <div className={`text-[7px] font-bold uppercase tracking-widest mt-1 ${activeGolemId === item.id ? 'text-indigo-200' : 'text-white/10'}`}>REF: {item.id}</div>
+                  <div className={`text-[7px] font-bold uppercase tracking-widest mt-1 ${activeGolemId === item.id ? 'text-indigo-200' : 'text-white/10'}`}>REF: {item.id} · {item.status}</div>
+                  {(item.status === 'PENDING' || item.status === 'SYNTHESIZING' || item.status === 'PAUSED') && (
+                    <div className="w-full h-0.5 bg-white/5 rounded-full overflow-hidden mt-2">
+                      <div className={`h-full transition-all duration-500 ${item.status === 'PAUSED' ? 'bg-amber-400' : 'bg-indigo-400'}`} style={{ width: `${item.progress}%` }} />
+                    </div>
+                  )}
                 </div>
               ))}
             </div>
@@ -264,23 +689,153 @@ const App: React.FC = () => {
                       />
                     </div>
 
+                    <div className="space-y-2.5">
+                      <label className="text-[9px] font-black text-white/40 uppercase tracking-widest ml-1">Pitch Rings</label>
+                      <div className="flex flex-wrap gap-1.5">
+                        {ORBITAL_PITCH_PRESETS.map(pitch => (
+                          <button
+                            key={pitch}
+                            onClick={() => handleTogglePitch(pitch)}
+                            className={`px-2.5 py-1.5 rounded-lg border text-[9px] font-bold tracking-widest transition-all ${ringPitches.includes(pitch) ? 'bg-indigo-600 border-indigo-400 text-white' : 'bg-white/[0.02] border-white/10 text-white/40 hover:text-white/70'}`}
+                          >
+                            {pitch}°
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+
+                    <div className="space-y-2.5">
+                      <label className="text-[9px] font-black text-white/40 uppercase tracking-widest ml-1">Grid Layout</label>
+                      <div className="flex gap-1.5">
+                        {Object.values(GRID_LAYOUTS).map(layout => (
+                          <button
+                            key={layout.id}
+                            onClick={() => { setGridLayout(layout); setDuplicateGolem(null); }}
+                            className={`flex-1 px-2.5 py-1.5 rounded-lg border text-[9px] font-bold tracking-widest transition-all ${gridLayout.id === layout.id ? 'bg-indigo-600 border-indigo-400 text-white' : 'bg-white/[0.02] border-white/10 text-white/40 hover:text-white/70'}`}
+                          >
+                            {layout.id}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+
                     <button 
-                      onClick={handleGenerate}
+                      onClick={() => handleGenerate()}
                       disabled={!images.front || !images.back}
                       className="w-full py-5 bg-indigo-600 hover:bg-indigo-500 text-white font-black uppercase tracking-[0.2em] text-[11px] rounded-xl transition-all disabled:opacity-10 shadow-lg active:scale-95 border-b-4 border-indigo-800"
                     >
                       Process Grid
                     </button>
 
+                    {duplicateGolem && (
+                      <div className="p-4 bg-amber-500/10 border border-amber-400/30 rounded-xl space-y-3">
+                        <p className="text-[9px] text-amber-200/80 font-bold uppercase tracking-widest leading-relaxed">
+                          Identical reference pair already synthesized as {duplicateGolem.productName}
+                        </p>
+                        <div className="flex space-x-2">
+                          <button
+                            onClick={() => { setActiveGolemId(duplicateGolem.id); setDuplicateGolem(null); }}
+                            className="flex-1 py-2 bg-amber-400 hover:bg-amber-300 text-black text-[9px] font-black uppercase tracking-widest rounded-lg transition-all active:scale-95"
+                          >
+                            Reuse_Rings
+                          </button>
+                          <button
+                            onClick={() => handleGenerate(true)}
+                            className="flex-1 py-2 bg-white/5 hover:bg-white/10 border border-white/10 text-white/70 text-[9px] font-bold uppercase tracking-widest rounded-lg transition-all active:scale-95"
+                          >
+                            Synth_Anyway
+                          </button>
+                        </div>
+                      </div>
+                    )}
+
+                    <div className="space-y-2.5">
+                      <label className="text-[9px] font-black text-white/40 uppercase tracking-widest ml-1">Bulk Intake</label>
+                      <div className="flex gap-1.5">
+                        <button
+                          onClick={() => folderInputRef.current?.click()}
+                          className="flex-1 py-3 bg-white/5 hover:bg-white/10 border border-white/10 text-white/70 font-bold uppercase tracking-[0.2em] text-[9px] rounded-xl transition-all active:scale-95"
+                        >
+                          Folder
+                        </button>
+                        <button
+                          onClick={() => filesInputRef.current?.click()}
+                          className="flex-1 py-3 bg-white/5 hover:bg-white/10 border border-white/10 text-white/70 font-bold uppercase tracking-[0.2em] text-[9px] rounded-xl transition-all active:scale-95"
+                        >
+                          Files / CSV
+                        </button>
+                      </div>
+                      <input
+                        ref={folderInputRef}
+                        type="file"
+                        className="hidden"
+                        multiple
+                        {...{ webkitdirectory: '' }}
+                        onChange={handleBulkIntake}
+                      />
+                      <input
+                        ref={filesInputRef}
+                        type="file"
+                        className="hidden"
+                        multiple
+                        accept="image/*,.csv,text/csv"
+                        onChange={handleBulkIntake}
+                      />
+                      {intakeNote && <div className="text-white/40 text-[9px] font-bold uppercase tracking-[0.18em] break-all">{intakeNote}</div>}
+                      <div className="flex items-center justify-between pt-1">
+                        <span className="text-[8px] font-bold text-white/30 uppercase tracking-widest ml-1">Parallel Jobs</span>
+                        <div className="flex gap-1">
+                          {[1, 2, 3, 4].map(value => (
+                            <button
+                              key={value}
+                              onClick={() => setConcurrency(value)}
+                              className={`w-7 py-1 rounded-md border text-[9px] font-bold transition-all ${concurrency === value ? 'bg-indigo-600 border-indigo-400 text-white' : 'bg-white/[0.02] border-white/10 text-white/40 hover:text-white/70'}`}
+                            >
+                              {value}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                    </div>
+
+                    <div className="space-y-2">
+                      <button
+                        onClick={() => manifestInputRef.current?.click()}
+                        className="w-full py-3 bg-white/5 hover:bg-white/10 border border-white/10 text-white/70 font-bold uppercase tracking-[0.2em] text-[9px] rounded-xl transition-all active:scale-95"
+                      >
+                        Import Manifest
+                      </button>
+                      <input
+                        ref={manifestInputRef}
+                        type="file"
+                        className="hidden"
+                        accept=".json,application/json"
+                        onChange={handleImportManifest}
+                      />
+                      {importError && <div className="text-red-400 text-[9px] font-bold uppercase tracking-[0.18em] break-all">{importError}</div>}
+                    </div>
+
                     <div className="pt-4 border-t border-white/5">
                        <div className="flex items-center justify-between mb-2">
                          <span className="text-[8px] font-bold text-white/20 uppercase tracking-widest">Config_Status</span>
                          <span className="text-[8px] font-bold text-green-500 uppercase tracking-widest">Optimized</span>
                        </div>
+                       <div className="flex bg-black/40 border border-white/10 rounded-lg p-1 mb-3">
+                         {(['gemini', 'procedural'] as const).map(id => (
+                           <button
+                             key={id}
+                             onClick={() => handleSelectProvider(id)}
+                             className={`flex-1 py-1.5 rounded-md text-[8px] font-black uppercase tracking-widest transition-all ${providerId === id ? 'bg-indigo-600 text-white' : 'text-white/30 hover:text-white/60'}`}
+                           >
+                             {id}
+                           </button>
+                         ))}
+                       </div>
                        <p className="text-[8px] text-white/20 leading-relaxed uppercase tracking-widest">
                          Mode: Kinetic_Manifold<br/>
                          Rotation: 360_Orbital<br/>
-                         Grid: 4x2_Sprite_Map
+                         Grid: {gridLayout.id}_Sprite_Map ({gridLayout.frames}_Frames)<br/>
+                         Rings: {ringPitches.map(p => `${p}°`).join(' / ')}
                        </p>
                     </div>
                   </div>
@@ -298,15 +853,15 @@ const App: React.FC = () => {
                      label="Source_01" 
                      description="FRONTAL_TOPOLOGY" 
                      image={images.front} 
-                     onUpload={(img) => setImages(p => ({...p, front: img}))} 
-                     onClear={() => setImages(p => ({...p, front: null}))} 
+                     onUpload={(img) => { setImages(p => ({...p, front: img})); setDuplicateGolem(null); }} 
+                     onClear={() => { setImages(p => ({...p, front: null})); setDuplicateGolem(null); }} 
                    />
                    <ImageUploader 
                      label="Source_02" 
                      description="DEPTH_REF_SYNC" 
                      image={images.back} 
-                     onUpload={(img) => setImages(p => ({...p, back: img}))} 
-                     onClear={() => setImages(p => ({...p, back: null}))} 
+                     onUpload={(img) => { setImages(p => ({...p, back: img})); setDuplicateGolem(null); }} 
+                     onClear={() => { setImages(p => ({...p, back: null})); setDuplicateGolem(null); }} 
                    />
                 </div>
               </div>
@@ -321,12 +876,38 @@ const App: React.FC = () => {
                       <span className="text-white text-[9px] font-bold uppercase tracking-widest">Render_Locked</span>
                     </div>
                   </div>
-                  <button 
-                    onClick={() => setActiveGolemId(null)} 
-                    className="px-6 py-3 bg-white hover:bg-gray-100 text-black text-[10px] font-black uppercase tracking-widest rounded-lg transition-all active:scale-95 shadow-xl"
-                  >
-                    Back_To_OS
-                  </button>
+                  <div className="flex items-center space-x-3">
+                    {activeGolem.status === 'COMPLETE' && activeGolem.orbitalAssets && (
+                      <button
+                        onClick={() => setInspectorOpen(!inspectorOpen)}
+                        className={`px-6 py-3 text-[10px] font-black uppercase tracking-widest rounded-lg transition-all active:scale-95 shadow-xl border ${inspectorOpen ? 'bg-indigo-600 border-indigo-400 text-white' : 'bg-white/5 hover:bg-white/10 border-white/10 text-white/70'}`}
+                      >
+                        {inspectorOpen ? 'Orbit_View' : 'Inspect_Frames'}
+                      </button>
+                    )}
+                    {activeGolem.status === 'COMPLETE' && activeGolem.orbitalAssets && (
+                      <button
+                        onClick={() => handleExportManifest(activeGolem)}
+                        className="px-6 py-3 bg-indigo-600 hover:bg-indigo-500 text-white text-[10px] font-black uppercase tracking-widest rounded-lg transition-all active:scale-95 shadow-xl"
+                      >
+                        Export_Manifest
+                      </button>
+                    )}
+                    {activeGolem.status === 'COMPLETE' && activeGolem.orbitalAssets && (
+                      <button
+                        onClick={() => handleExportHtml(activeGolem)}
+                        className="px-6 py-3 bg-white/5 hover:bg-white/10 border border-white/10 text-white/70 text-[10px] font-black uppercase tracking-widest rounded-lg transition-all active:scale-95 shadow-xl"
+                      >
+                        Export_HTML
+                      </button>
+                    )}
+                    <button 
+                      onClick={() => { abortRegeneration(); setActiveGolemId(null); }} 
+                      className="px-6 py-3 bg-white hover:bg-gray-100 text-black text-[10px] font-black uppercase tracking-widest rounded-lg transition-all active:scale-95 shadow-xl"
+                    >
+                      Back_To_OS
+                    </button>
+                  </div>
                </div>
 
                <div className="flex-1 flex items-center justify-center min-h-0 relative">
@@ -338,29 +919,103 @@ const App: React.FC = () => {
                       </div>
                       <span className="text-[12px] font-black text-white uppercase tracking-[0.3em] mb-4">{KINETIC_LOGS[logIdx]}</span>
                       <div className="w-full h-1 bg-white/5 rounded-full overflow-hidden">
-                         <div className="h-full bg-indigo-500 transition-all duration-1000" style={{ width: `${((logIdx + 1) / KINETIC_LOGS.length) * 100}%` }} />
+                         <div className="h-full bg-indigo-500 transition-all duration-1000" style={{ width: `${activeGolem.progress}%` }} />
+                      </div>
+                      <div className="flex space-x-2 mt-6">
+                        <button
+                          onClick={() => handlePauseItem(activeGolem.id)}
+                          className="px-4 py-2 bg-white/5 hover:bg-white/10 border border-white/10 text-white/70 text-[9px] font-bold uppercase tracking-widest rounded-lg transition-all active:scale-95"
+                        >
+                          Pause_After_Attempt
+                        </button>
+                        <button
+                          onClick={() => handleCancelItem(activeGolem.id)}
+                          className="px-4 py-2 bg-red-500/10 hover:bg-red-500/20 border border-red-500/30 text-red-300 text-[9px] font-bold uppercase tracking-widest rounded-lg transition-all active:scale-95"
+                        >
+                          Cancel
+                        </button>
                       </div>
                    </div>
+                 ) : activeGolem.status === 'PENDING' || activeGolem.status === 'PAUSED' ? (
+                   <div className="max-w-xs w-full aspect-square bg-white/[0.02] border-2 border-white/5 rounded-3xl flex flex-col items-center justify-center p-8 text-center shadow-2xl">
+                      <span className={`text-[12px] font-black uppercase tracking-[0.3em] mb-3 ${activeGolem.status === 'PAUSED' ? 'text-amber-300' : 'text-white'}`}>
+                        {activeGolem.status === 'PAUSED' ? 'Queue_Paused' : 'Queued'}
+                      </span>
+                      {activeGolem.error && (
+                        <p className="text-[9px] text-white/30 uppercase tracking-widest leading-relaxed mb-4 break-all">{activeGolem.error}</p>
+                      )}
+                      <div className="flex space-x-2 mt-2">
+                        <button
+                          onClick={() => activeGolem.status === 'PAUSED' ? handleResumeItem(activeGolem) : handlePauseItem(activeGolem.id)}
+                          className="px-4 py-2 bg-white text-black text-[9px] font-bold uppercase tracking-widest rounded-lg hover:bg-gray-100 transition-all active:scale-95"
+                        >
+                          {activeGolem.status === 'PAUSED' ? 'Resume' : 'Pause'}
+                        </button>
+                        <button
+                          onClick={() => handleCancelItem(activeGolem.id)}
+                          className="px-4 py-2 bg-red-500/10 hover:bg-red-500/20 border border-red-500/30 text-red-300 text-[9px] font-bold uppercase tracking-widest rounded-lg transition-all active:scale-95"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                   </div>
+                 ) : activeGolem.orbitalAssets && inspectorOpen ? (
+                   <div className="w-full h-full max-w-4xl">
+                      <FrameInspector
+                        assets={activeGolem.orbitalAssets}
+                        quality={activeGolem.quality}
+                        busyPitch={regenPitch}
+                        canRegenerate={!!activeGolem.images.front && !!activeGolem.images.back}
+                        error={frameError}
+                        onRegenerate={(pitch: number, frames: number[]) => handleRegenerateFrames(activeGolem, pitch, frames)}
+                      />
+                   </div>
                  ) : activeGolem.orbitalAssets ? (
                    <div className="w-full h-full max-w-4xl flex items-center justify-center">
                       <OrbitalMode
-                        ring0Url={activeGolem.orbitalAssets.pitch0Url}
-                        ring1Url={activeGolem.orbitalAssets.pitch30Url}
+                        rings={activeGolem.orbitalAssets.rings}
+                        layout={activeGolem.orbitalAssets.layout}
                         productName={activeGolem.productName}
+                        physics={activeGolem.physics}
+                        stage={activeGolem.stage}
                       />
+                      {activeGolem.quality && (
+                        <div className="absolute bottom-6 left-6 z-20">
+                          <QualityReport report={activeGolem.quality} />
+                        </div>
+                      )}
+                      <div className="absolute top-6 right-6 z-20 flex flex-col items-end space-y-2">
+                        <TurntableExport
+                          artifacts={activeGolem.artifacts ?? []}
+                          busy={turntableJob?.itemId === activeGolem.id ? turntableJob : null}
+                          error={turntableError}
+                          onExport={(format: TurntableFormat, options: TurntableOptions) => handleExportTurntable(activeGolem, format, options)}
+                          onCancel={() => turntableAbortRef.current?.abort()}
+                          onDownload={(artifact: TurntableArtifact) => downloadBlob(artifact.blob, exportFileName(activeGolem, `turntable.${artifact.format}`))}
+                          onDelete={(artifact: TurntableArtifact) => handleDeleteArtifact(activeGolem, artifact)}
+                        />
+                        <StagePanel
+                          stage={activeGolem.stage}
+                          onChange={(stage: OrbitalStage) => patchItem(activeGolem.id, { stage })}
+                        />
+                      </div>
                    </div>
                  ) : (
                    <div className="max-w-xs w-full aspect-square bg-red-500/5 border-2 border-red-500/10 rounded-3xl flex flex-col items-center justify-center p-8 text-center">
                       <div className="w-14 h-14 bg-red-600 rounded-xl flex items-center justify-center mb-6 shadow-xl">
                         <span className="text-white text-3xl font-black italic">!</span>
                       </div>
-                      <span className="text-red-500 text-[12px] font-black uppercase mb-3 tracking-[0.2em]">Synth_Failed</span>
-                      <p className="text-[9px] text-white/30 uppercase tracking-widest leading-relaxed mb-6">{activeGolem.error}</p>
+                      <span className="text-red-500 text-[12px] font-black uppercase mb-3 tracking-[0.2em]">
+                        {activeGolem.status === 'CANCELLED' ? 'Synth_Cancelled' : 'Synth_Failed'}
+                      </span>
+                      <p className="text-[9px] text-white/30 uppercase tracking-widest leading-relaxed mb-6">
+                        {activeGolem.status === 'CANCELLED' ? 'Generation aborted by operator' : activeGolem.error}
+                      </p>
                       <button 
-                        onClick={handleGenerate} 
+                        onClick={() => handleReprocess(activeGolem)} 
                         className="px-8 py-3 bg-white text-black text-[10px] font-bold uppercase rounded-lg hover:bg-gray-100 transition-all active:scale-95 shadow-xl"
                       >
-                        Re-Process
+                        {activeGolem.resumable ? 'Resume' : 'Re-Process'}
                       </button>
                    </div>
                  )}
@@ -1,68 +1,87 @@
 
 import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { GridLayout, OrbitalPhysics } from '../types';
+import { DEFAULT_GRID_LAYOUT, cellBackgroundPosition, resolveFrame } from '../core/gridLayout';
+import { resolveOrbitalPhysics, stepOrbitalMotion, velocityBlur } from '../core/orbitalPhysics';
+
+// Longest time one animation frame advances the physics.
+const MAX_FRAME_MS = 100;
 
 interface DKGPlayerProps {
   imageUrl: string;
   productName: string;
+  layout?: GridLayout;
+  physics?: Partial<OrbitalPhysics>;
 }
 
-const DKGPlayer: React.FC<DKGPlayerProps> = ({ imageUrl, productName }) => {
+const DKGPlayer: React.FC<DKGPlayerProps> = ({ imageUrl, productName, layout = DEFAULT_GRID_LAYOUT, physics }) => {
   const [angle, setAngle] = useState(0);
   const [zoom, setZoom] = useState(1);
   const [showGuide, setShowGuide] = useState(false);
+  // Degrees and degrees/second, as used by the shared orbital physics.
+  const angleRef = useRef(0);
   const velocityRef = useRef(0);
+  const settledRef = useRef(true);
   const isDraggingRef = useRef(false);
   const lastMouseXRef = useRef(0);
+  const lastMoveTimeRef = useRef(0);
   const requestRef = useRef<number>(0);
-  
-  const update = useCallback(() => {
-    if (!isDraggingRef.current) {
-      velocityRef.current *= 0.96;
-      if (Math.abs(velocityRef.current) < 0.005) velocityRef.current = 0;
-      setAngle(prev => (prev + velocityRef.current + 360) % 360);
+  const physicsRef = useRef(resolveOrbitalPhysics(physics));
+  physicsRef.current = resolveOrbitalPhysics(physics);
+
+  const update = useCallback((time: number, lastTime: number) => {
+    if (!isDraggingRef.current && !settledRef.current) {
+      const step = stepOrbitalMotion(
+        { yaw: angleRef.current, pitch: 0, velocity: velocityRef.current },
+        physicsRef.current,
+        Math.min(MAX_FRAME_MS, time - lastTime) / 1000,
+        { layout, pitchRange: [0, 0] }
+      );
+      angleRef.current = ((step.yaw % 360) + 360) % 360;
+      velocityRef.current = step.velocity;
+      settledRef.current = step.settled;
+      setAngle(angleRef.current);
     }
-    requestRef.current = requestAnimationFrame(update);
-  }, []);
+    requestRef.current = requestAnimationFrame((next) => update(next, time));
+  }, [layout]);
 
   useEffect(() => {
-    requestRef.current = requestAnimationFrame(update);
+    requestRef.current = requestAnimationFrame((time) => update(time, time));
     return () => cancelAnimationFrame(requestRef.current);
   }, [update]);
 
   const onStart = (clientX: number) => {
     isDraggingRef.current = true;
     lastMouseXRef.current = clientX;
+    lastMoveTimeRef.current = performance.now();
     velocityRef.current = 0;
   };
 
   const onMove = (clientX: number) => {
     if (!isDraggingRef.current) return;
-    const delta = clientX - lastMouseXRef.current;
+    const now = performance.now();
+    const delta = (clientX - lastMouseXRef.current) * physicsRef.current.yawSensitivity;
+    velocityRef.current = delta / (Math.max(16, now - lastMoveTimeRef.current) / 1000);
     lastMouseXRef.current = clientX;
-    const sensitivity = 0.55;
-    velocityRef.current = delta * sensitivity;
-    setAngle(prev => (prev + delta * sensitivity + 360) % 360);
+    lastMoveTimeRef.current = now;
+    angleRef.current = (angleRef.current + delta + 360) % 360;
+    setAngle(angleRef.current);
   };
 
-  const onEnd = () => { isDraggingRef.current = false; };
+  const onEnd = () => {
+    if (!isDraggingRef.current) return;
+    isDraggingRef.current = false;
+    settledRef.current = false;
+  };
 
   const calculateInterpolation = (currentAngle: number) => {
-    const totalFrames = 8;
-    const rawFrame = ((currentAngle % 360) / 360) * totalFrames;
-    const f1Index = Math.floor(rawFrame);
-    const f2Index = (f1Index + 1) % totalFrames;
-    const progress = rawFrame - f1Index; 
-
-    const getPos = (idx: number) => {
-      const col = idx % 4;
-      const row = Math.floor(idx / 4);
-      return { 
-        x: (col / 3) * 100, 
-        y: (row / 1) * 100 
-      };
+    const { index: f1Index, next: f2Index, progress } = resolveFrame(layout, currentAngle);
+    const blur = velocityBlur((velocityRef.current * Math.PI) / 180, physicsRef.current.blurThreshold);
+    return {
+      p1: cellBackgroundPosition(layout, f1Index),
+      p2: cellBackgroundPosition(layout, f2Index),
+      progress: Math.min(1, progress + blur)
     };
-
-    return { p1: getPos(f1Index), p2: getPos(f2Index), progress };
   };
 
   const { p1, p2, progress } = calculateInterpolation(angle);
@@ -85,7 +104,7 @@ const DKGPlayer: React.FC<DKGPlayerProps> = ({ imageUrl, productName }) => {
           className="absolute inset-0 bg-no-repeat pointer-events-none"
           style={{
             backgroundImage: `url(${imageUrl})`,
-            backgroundSize: '400% 200%',
+            backgroundSize: `${layout.columns * 100}% ${layout.rows * 100}%`,
             backgroundPosition: `${p1.x}% ${p1.y}%`,
             transform: `scale(${zoom})`,
             opacity: 1 - progress,
@@ -97,7 +116,7 @@ const DKGPlayer: React.FC<DKGPlayerProps> = ({ imageUrl, productName }) => {
           className="absolute inset-0 bg-no-repeat pointer-events-none"
           style={{
             backgroundImage: `url(${imageUrl})`,
-            backgroundSize: '400% 200%',
+            backgroundSize: `${layout.columns * 100}% ${layout.rows * 100}%`,
             backgroundPosition: `${p2.x}% ${p2.y}%`,
             transform: `scale(${zoom})`,
             opacity: progress,
@@ -122,7 +141,7 @@ const DKGPlayer: React.FC<DKGPlayerProps> = ({ imageUrl, productName }) => {
             HUD_{showGuide ? 'ON' : 'OFF'}
           </button>
           <div className="flex items-center space-x-3 bg-black/90 px-4 py-2 rounded-lg border border-white/10 backdrop-blur-md shadow-xl">
-            <div className={`w-2 h-2 rounded-full ${currentVel > 0.05 ? 'bg-indigo-500 animate-pulse' : 'bg-green-500 shadow-[0_0_10px_rgba(34,197,94,1)]'}`} />
+            <div className={`w-2 h-2 rounded-full ${currentVel > 3 ? 'bg-indigo-500 animate-pulse' : 'bg-green-500 shadow-[0_0_10px_rgba(34,197,94,1)]'}`} />
             <span className="text-[9px] text-white font-bold tracking-widest uppercase">Orbital_Sync</span>
           </div>
         </div>
@@ -0,0 +1,94 @@
+import React, { useEffect, useState } from 'react';
+import { OrbitalAssets, SpriteQualityReport } from '../types';
+import { cellBackgroundPosition, describeViewAngle, frameAngle } from '../core/gridLayout';
+
+interface FrameInspectorProps {
+  assets: OrbitalAssets;
+  quality?: SpriteQualityReport;
+  busyPitch: number | null;
+  canRegenerate: boolean;
+  error?: string;
+  onRegenerate: (pitch: number, frames: number[]) => void;
+}
+
+const FrameInspector: React.FC<FrameInspectorProps> = ({ assets, quality, busyPitch, canRegenerate, error, onRegenerate }) => {
+  const [flagged, setFlagged] = useState<Record<number, number[]>>({});
+  const { layout } = assets;
+
+  useEffect(() => {
+    setFlagged({});
+  }, [assets]);
+
+  const toggleFrame = (pitch: number, frame: number) => {
+    setFlagged(prev => {
+      const current = prev[pitch] ?? [];
+      const next = current.includes(frame) ? current.filter(f => f !== frame) : [...current, frame].sort((a, b) => a - b);
+      return { ...prev, [pitch]: next };
+    });
+  };
+
+  const cellStyle = (url: string, frame: number): React.CSSProperties => {
+    const { x, y } = cellBackgroundPosition(layout, frame);
+    return {
+      backgroundImage: `url(${url})`,
+      backgroundSize: `${layout.columns * 100}% ${layout.rows * 100}%`,
+      backgroundPosition: `${x}% ${y}%`
+    };
+  };
+
+  return (
+    <div className="w-full h-full overflow-y-auto custom-scrollbar space-y-8 pr-1">
+      {!canRegenerate && (
+        <p className="text-[9px] text-amber-300/70 font-bold uppercase tracking-widest">
+          Reference images unavailable for this item: frame regeneration disabled.
+        </p>
+      )}
+      {error && <p className="text-[9px] text-red-400 font-bold uppercase tracking-widest break-all">{error}</p>}
+      {assets.rings.map(ring => {
+        const ringFlags = flagged[ring.pitch] ?? [];
+        const warnings = quality?.rings.find(report => report.pitch === ring.pitch)?.warnings ?? [];
+        const busy = busyPitch === ring.pitch;
+
+        return (
+          <div key={ring.pitch} className="space-y-3">
+            <div className="flex items-center justify-between">
+              <span className="text-[10px] font-black uppercase tracking-[0.3em] text-white/60">Ring {ring.pitch}°</span>
+              <button
+                onClick={() => onRegenerate(ring.pitch, ringFlags)}
+                disabled={!canRegenerate || busyPitch !== null || ringFlags.length === 0 || ringFlags.length >= layout.frames}
+                className="px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white text-[9px] font-black uppercase tracking-widest rounded-lg transition-all active:scale-95 disabled:opacity-20"
+              >
+                {busy ? 'Regenerating...' : `Regenerate ${ringFlags.length} Frame${ringFlags.length === 1 ? '' : 's'}`}
+              </button>
+            </div>
+            <div
+              className="grid gap-2"
+              style={{ gridTemplateColumns: `repeat(${layout.columns}, minmax(0, 1fr))` }}
+            >
+              {Array.from({ length: layout.frames }, (_, frame) => {
+                const isFlagged = ringFlags.includes(frame);
+                const hasWarning = warnings.some(w => w.frame === frame);
+                const angle = frameAngle(layout, frame);
+                return (
+                  <button
+                    key={frame}
+                    onClick={() => toggleFrame(ring.pitch, frame)}
+                    title={warnings.filter(w => w.frame === frame).map(w => w.message).join('\n') || describeViewAngle(angle)}
+                    className={`relative aspect-square rounded-xl overflow-hidden border-2 bg-white bg-no-repeat transition-all ${isFlagged ? 'border-red-500 shadow-[0_0_12px_rgba(239,68,68,0.6)]' : hasWarning ? 'border-amber-400/70' : 'border-white/10 hover:border-white/30'} ${busy && isFlagged ? 'animate-pulse' : ''}`}
+                    style={cellStyle(ring.url, frame)}
+                  >
+                    <span className="absolute bottom-1 left-1 px-1.5 py-0.5 rounded bg-black/70 text-[7px] font-bold text-white/80 tracking-widest">
+                      {Number(angle.toFixed(1))}°
+                    </span>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default FrameInspector;
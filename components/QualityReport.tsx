@@ -0,0 +1,46 @@
+import React, { useState } from 'react';
+import { SpriteQualityReport } from '../types';
+
+interface QualityReportProps {
+  report: SpriteQualityReport;
+}
+
+const scoreTone = (score: number) =>
+  score >= 85 ? 'text-green-400' : score >= 60 ? 'text-amber-300' : 'text-red-400';
+
+const QualityReport: React.FC<QualityReportProps> = ({ report }) => {
+  const [expanded, setExpanded] = useState(false);
+  const warningCount = report.rings.reduce((sum, ring) => sum + ring.warnings.length, 0);
+
+  return (
+    <div className="bg-black/80 border border-white/10 rounded-xl backdrop-blur-md shadow-2xl max-w-xs">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full px-4 py-2 flex items-center justify-between space-x-4"
+      >
+        <span className="text-[9px] font-bold uppercase tracking-[0.3em] text-white/60">Grid_QC</span>
+        <span className={`text-[11px] font-black tabular-nums ${scoreTone(report.score)}`}>{report.score}%</span>
+        <span className="text-[8px] font-bold uppercase tracking-widest text-white/30">{warningCount} Warn</span>
+      </button>
+      {expanded && (
+        <div className="px-4 pb-3 space-y-3 max-h-64 overflow-y-auto custom-scrollbar">
+          {report.rings.map(ring => (
+            <div key={ring.pitch} className="space-y-1">
+              <div className="flex justify-between text-[8px] font-bold uppercase tracking-widest text-white/50">
+                <span>Ring {ring.pitch}° · {ring.sourceWidth}x{ring.sourceHeight}</span>
+                <span className={scoreTone(ring.score)}>{ring.score}%</span>
+              </div>
+              {ring.warnings.map((warning, i) => (
+                <div key={i} className="text-[8px] text-white/40 uppercase tracking-wider leading-relaxed">
+                  F{warning.frame.toString().padStart(2, '0')} · {warning.code} · {warning.message}
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QualityReport;
@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { OrbitalBackdrop, OrbitalLightingPreset, OrbitalStage } from '../types';
+import { LIGHTING_PRESETS, resolveStage } from '../core/orbitalStage';
+
+interface StagePanelProps {
+  stage?: OrbitalStage;
+  onChange: (stage: OrbitalStage) => void;
+}
+
+const BACKDROPS: { label: string; backdrop: OrbitalBackdrop }[] = [
+  { label: 'White', backdrop: { kind: 'solid', color: '#ffffff' } },
+  { label: 'Gray', backdrop: { kind: 'solid', color: '#d4d4d8' } },
+  { label: 'Black', backdrop: { kind: 'solid', color: '#0a0a0a' } },
+  { label: 'Studio', backdrop: { kind: 'gradient', from: '#ffffff', to: '#c7c7cc' } },
+  { label: 'Dusk', backdrop: { kind: 'gradient', from: '#312e81', to: '#0f0f1a' } }
+];
+
+const LIGHTING = Object.keys(LIGHTING_PRESETS) as OrbitalLightingPreset[];
+
+const swatch = (backdrop: OrbitalBackdrop) =>
+  backdrop.kind === 'solid' ? backdrop.color : backdrop.kind === 'gradient' ? `linear-gradient(${backdrop.from}, ${backdrop.to})` : undefined;
+
+const sameBackdrop = (a: OrbitalBackdrop, b: OrbitalBackdrop) => JSON.stringify(a) === JSON.stringify(b);
+
+const chip = (active: boolean) =>
+  `flex-1 px-2 py-1 rounded-md border text-[8px] font-bold uppercase tracking-widest transition-all ${active ? 'bg-indigo-600 border-indigo-400 text-white' : 'bg-white/[0.02] border-white/10 text-white/40 hover:text-white/70'}`;
+
+const StagePanel: React.FC<StagePanelProps> = ({ stage, onChange }) => {
+  const [expanded, setExpanded] = useState(false);
+  const current = resolveStage(stage);
+
+  const update = (patch: Partial<OrbitalStage>) => onChange({ ...current, ...patch });
+
+  const handleUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => update({ backdrop: { kind: 'image', url: reader.result as string } });
+    reader.readAsDataURL(file);
+  };
+
+  const row = (label: string, content: React.ReactNode) => (
+    <div className="space-y-1">
+      <span className="text-[8px] font-bold uppercase tracking-widest text-white/30">{label}</span>
+      <div className="flex gap-1">{content}</div>
+    </div>
+  );
+
+  return (
+    <div className="bg-black/80 border border-white/10 rounded-xl backdrop-blur-md shadow-2xl w-72">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full px-4 py-2 flex items-center justify-between space-x-4"
+      >
+        <span className="text-[9px] font-bold uppercase tracking-[0.3em] text-white/60">Stage</span>
+        <span className="text-[8px] font-bold uppercase tracking-widest text-white/30">{current.lighting}</span>
+      </button>
+      {expanded && (
+        <div className="px-4 pb-4 space-y-3">
+          {row('Backdrop', (
+            <>
+              {BACKDROPS.map(({ label, backdrop }) => (
+                <button
+                  key={label}
+                  onClick={() => update({ backdrop })}
+                  title={label}
+                  aria-label={label}
+                  aria-pressed={sameBackdrop(current.backdrop, backdrop)}
+                  style={{ background: swatch(backdrop) }}
+                  className={`flex-1 h-6 rounded-md border transition-all ${sameBackdrop(current.backdrop, backdrop) ? 'border-indigo-400 ring-1 ring-indigo-400' : 'border-white/10 hover:border-white/40'}`}
+                />
+              ))}
+              <label className={`${chip(current.backdrop.kind === 'image')} flex items-center justify-center cursor-pointer`}>
+                Image
+                <input type="file" accept="image/*" className="hidden" onChange={handleUpload} />
+              </label>
+            </>
+          ))}
+          {row('Floor', (
+            <>
+              <button onClick={() => update({ shadow: !current.shadow })} aria-pressed={current.shadow} className={chip(current.shadow)}>Shadow</button>
+              <button onClick={() => update({ reflection: !current.reflection })} aria-pressed={current.reflection} className={chip(current.reflection)}>Reflection</button>
+            </>
+          ))}
+          {row('Lighting', LIGHTING.map(preset => (
+            <button key={preset} onClick={() => update({ lighting: preset })} className={chip(current.lighting === preset)}>{preset}</button>
+          )))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StagePanel;
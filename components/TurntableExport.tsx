@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { TurntableArtifact, TurntableFormat } from '../types';
+import { DEFAULT_TURNTABLE_OPTIONS, TURNTABLE_PITCH_PATHS, TurntableEasing, TurntableOptions } from '../core/turntable';
+import { isTurntableFormatSupported } from '../services/TurntableExportService';
+
+interface TurntableExportProps {
+  artifacts: TurntableArtifact[];
+  busy: { format: TurntableFormat; progress: number } | null;
+  error?: string;
+  onExport: (format: TurntableFormat, options: TurntableOptions) => void;
+  onCancel: () => void;
+  onDownload: (artifact: TurntableArtifact) => void;
+  onDelete: (artifact: TurntableArtifact) => void;
+}
+
+const FORMATS: TurntableFormat[] = ['gif', 'webp', 'webm'];
+const DURATIONS = [2000, 4000, 6000];
+const FRAME_RATES = [12, 24, 30];
+const SIZES = [256, 512];
+const EASINGS: TurntableEasing[] = ['linear', 'ease-in-out'];
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)}MB` : `${Math.round(bytes / 1024)}KB`;
+
+const chip = (active: boolean) =>
+  `flex-1 px-2 py-1 rounded-md border text-[8px] font-bold uppercase tracking-widest transition-all ${active ? 'bg-indigo-600 border-indigo-400 text-white' : 'bg-white/[0.02] border-white/10 text-white/40 hover:text-white/70'}`;
+
+const TurntableExport: React.FC<TurntableExportProps> = ({ artifacts, busy, error, onExport, onCancel, onDownload, onDelete }) => {
+  const [expanded, setExpanded] = useState(false);
+  const [options, setOptions] = useState<TurntableOptions>(DEFAULT_TURNTABLE_OPTIONS);
+  const pathName = Object.keys(TURNTABLE_PITCH_PATHS).find(name => TURNTABLE_PITCH_PATHS[name] === options.pitchPath);
+
+  const update = (patch: Partial<TurntableOptions>) => setOptions(prev => ({ ...prev, ...patch }));
+
+  const row = (label: string, content: React.ReactNode) => (
+    <div className="space-y-1">
+      <span className="text-[8px] font-bold uppercase tracking-widest text-white/30">{label}</span>
+      <div className="flex gap-1">{content}</div>
+    </div>
+  );
+
+  return (
+    <div className="bg-black/80 border border-white/10 rounded-xl backdrop-blur-md shadow-2xl w-72">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full px-4 py-2 flex items-center justify-between space-x-4"
+      >
+        <span className="text-[9px] font-bold uppercase tracking-[0.3em] text-white/60">Turntable</span>
+        <span className="text-[8px] font-bold uppercase tracking-widest text-white/30">
+          {busy ? `${busy.format} ${Math.round(busy.progress * 100)}%` : `${artifacts.length} Clip${artifacts.length === 1 ? '' : 's'}`}
+        </span>
+      </button>
+      {expanded && (
+        <div className="px-4 pb-4 space-y-3 max-h-[60vh] overflow-y-auto custom-scrollbar">
+          {row('Duration', DURATIONS.map(value => (
+            <button key={value} onClick={() => update({ durationMs: value })} className={chip(options.durationMs === value)}>{value / 1000}s</button>
+          )))}
+          {row('Frame Rate', FRAME_RATES.map(value => (
+            <button key={value} onClick={() => update({ fps: value })} className={chip(options.fps === value)}>{value}fps</button>
+          )))}
+          {row('Size', SIZES.map(value => (
+            <button key={value} onClick={() => update({ size: value })} className={chip(options.size === value)}>{value}px</button>
+          )))}
+          {row('Pitch Path', Object.keys(TURNTABLE_PITCH_PATHS).map(name => (
+            <button key={name} onClick={() => update({ pitchPath: TURNTABLE_PITCH_PATHS[name] })} className={chip(pathName === name)}>{name}</button>
+          )))}
+          {row('Easing', EASINGS.map(value => (
+            <button key={value} onClick={() => update({ easing: value })} className={chip(options.easing === value)}>{value}</button>
+          )))}
+
+          <div className="flex gap-1 pt-1">
+            {busy ? (
+              <button
+                onClick={onCancel}
+                className="flex-1 py-2 bg-red-500/10 hover:bg-red-500/20 border border-red-500/30 text-red-300 text-[9px] font-black uppercase tracking-widest rounded-lg transition-all active:scale-95"
+              >
+                Cancel {busy.format}
+              </button>
+            ) : FORMATS.map(format => (
+              <button
+                key={format}
+                onClick={() => onExport(format, options)}
+                disabled={!isTurntableFormatSupported(format)}
+                className="flex-1 py-2 bg-indigo-600 hover:bg-indigo-500 text-white text-[9px] font-black uppercase tracking-widest rounded-lg transition-all active:scale-95 disabled:opacity-20"
+              >
+                {format}
+              </button>
+            ))}
+          </div>
+          {busy && (
+            <div className="w-full h-0.5 bg-white/5 rounded-full overflow-hidden">
+              <div className="h-full bg-indigo-400 transition-all" style={{ width: `${busy.progress * 100}%` }} />
+            </div>
+          )}
+          {error && <p className="text-[8px] text-red-400 font-bold uppercase tracking-widest break-all">{error}</p>}
+
+          {artifacts.length > 0 && (
+            <div className="pt-2 border-t border-white/5 space-y-1.5">
+              {artifacts.map(artifact => (
+                <div key={artifact.id} className="flex items-center justify-between text-[8px] font-bold uppercase tracking-widest text-white/50">
+                  <span>{artifact.format} · {artifact.width}px · {artifact.frames}f · {formatSize(artifact.blob.size)}</span>
+                  <span className="flex space-x-2">
+                    <button onClick={() => onDownload(artifact)} className="text-indigo-300 hover:text-white transition-colors">Save</button>
+                    <button onClick={() => onDelete(artifact)} className="text-white/20 hover:text-red-400 transition-colors">✕</button>
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TurntableExport;
@@ -0,0 +1,242 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createGridLayout } from "./gridLayout";
+import { OrbitalCanvasRenderer, createOrbitalRenderer } from "./OrbitalCanvasRenderer";
+import { FLOOR_V, LIGHTING_PRESETS, gradeFilter } from "./orbitalStage";
+
+type DrawCall = { args: unknown[]; alpha: number; operation: string; filter: string; transform: number[] };
+
+// Minimal 2D context that records draws. Every read-back returns `pixels`
+// repeated over the requested area.
+const fakeContext = (canvas: HTMLCanvasElement, pixels: number[]) => {
+  const draws: DrawCall[] = [];
+  const puts: Uint8ClampedArray[] = [];
+  const fills: unknown[] = [];
+  const saved: { alpha: number; filter: string; transform: number[] }[] = [];
+  const ctx = {
+    canvas,
+    globalAlpha: 1,
+    globalCompositeOperation: "source-over",
+    imageSmoothingEnabled: true,
+    imageSmoothingQuality: "low",
+    filter: "none",
+    fillStyle: "#000000" as unknown,
+    // Vertical scale and offset only; the renderer never transforms x.
+    transform: [1, 0],
+    clearRect: () => undefined,
+    fillRect: () => fills.push(ctx.fillStyle),
+    createLinearGradient: (...line: number[]) => {
+      const stops: [number, string][] = [];
+      return { line, stops, addColorStop: (offset: number, color: string) => stops.push([offset, color]) };
+    },
+    save: () => saved.push({ alpha: ctx.globalAlpha, filter: ctx.filter, transform: ctx.transform }),
+    restore: () => {
+      const state = saved.pop()!;
+      ctx.globalAlpha = state.alpha;
+      ctx.filter = state.filter;
+      ctx.transform = state.transform;
+    },
+    beginPath: () => undefined,
+    rect: () => undefined,
+    clip: () => undefined,
+    translate: (_x: number, y: number) => {
+      ctx.transform = [ctx.transform[0], ctx.transform[1] + ctx.transform[0] * y];
+    },
+    scale: (_x: number, y: number) => {
+      ctx.transform = [ctx.transform[0] * y, ctx.transform[1]];
+    },
+    drawImage(...args: unknown[]) {
+      draws.push({
+        args,
+        alpha: ctx.globalAlpha,
+        operation: ctx.globalCompositeOperation,
+        filter: ctx.filter,
+        transform: ctx.transform
+      });
+    },
+    getImageData: (_x: number, _y: number, width: number, height: number) => ({
+      width,
+      height,
+      data: Uint8ClampedArray.from({ length: width * height * 4 }, (_, i) => pixels[i % pixels.length])
+    }),
+    createImageData: (width: number, height: number) => ({ width, height, data: new Uint8ClampedArray(width * height * 4) }),
+    putImageData: (image: { data: Uint8ClampedArray }) => puts.push(image.data)
+  };
+  return { ctx, draws, puts, fills };
+};
+
+const sheet = (width: number, height: number) => {
+  const image = document.createElement("img");
+  image.width = width;
+  image.height = height;
+  return image;
+};
+
+describe("OrbitalCanvasRenderer", () => {
+  const layout = createGridLayout(4, 2);
+  const contexts = new Map<HTMLCanvasElement, ReturnType<typeof fakeContext>>();
+  let pixels: number[];
+
+  beforeEach(() => {
+    pixels = [10, 20, 30, 255];
+    vi.spyOn(HTMLCanvasElement.prototype, "getContext").mockImplementation(function (
+      this: HTMLCanvasElement,
+      type: string
+    ) {
+      if (type !== "2d") {
+        return null;
+      }
+      if (!contexts.has(this)) {
+        contexts.set(this, fakeContext(this, pixels));
+      }
+      return contexts.get(this)!.ctx as unknown as CanvasRenderingContext2D;
+    } as typeof HTMLCanvasElement.prototype.getContext);
+  });
+
+  afterEach(() => {
+    contexts.clear();
+    vi.restoreAllMocks();
+  });
+
+  // The blending canvas is the one that receives cell-to-cell draws.
+  const cellContext = () => [...contexts.values()].find(({ draws }) => draws.some((draw) => draw.args.length === 9))!;
+  const cellDraws = () => cellContext().draws;
+
+  it("is what the factory returns when WebGL is unavailable", () => {
+    const canvas = document.createElement("canvas");
+    const renderer = createOrbitalRenderer(canvas, { rings: [{ pitch: 0, image: sheet(400, 200) }], layout });
+    expect(renderer).toBeInstanceOf(OrbitalCanvasRenderer);
+    expect(renderer.backend).toBe("canvas2d");
+    expect(renderer.isSupported()).toBe(true);
+  });
+
+  it("is unsupported without a 2D context", () => {
+    vi.mocked(HTMLCanvasElement.prototype.getContext).mockReturnValue(null);
+    const renderer = new OrbitalCanvasRenderer(document.createElement("canvas"), {
+      rings: [{ pitch: 0, image: sheet(400, 200) }],
+      layout
+    });
+    expect(renderer.isSupported()).toBe(false);
+    expect(() => renderer.renderToPixels()).toThrow("CANVAS_UNAVAILABLE");
+  });
+
+  it("draws the posed frame's cell at full weight", () => {
+    const canvas = document.createElement("canvas");
+    const renderer = new OrbitalCanvasRenderer(canvas, { rings: [{ pitch: 0, image: sheet(400, 200) }], layout });
+    renderer.setPose(90, 0);
+    renderer.render();
+
+    const draws = cellDraws();
+    expect(draws).toHaveLength(1);
+    expect(draws[0].args.slice(1)).toEqual([200, 0, 100, 100, 0, 0, 100, 100]);
+    expect(draws[0].alpha).toBe(1);
+  });
+
+  it("cross-fades neighbouring frames and rings additively", () => {
+    const canvas = document.createElement("canvas");
+    const low = sheet(400, 200);
+    const high = sheet(800, 400);
+    const renderer = new OrbitalCanvasRenderer(canvas, {
+      rings: [
+        { pitch: 30, image: high },
+        { pitch: 0, image: low }
+      ],
+      layout
+    });
+    renderer.setPose(45 * 4.5, 15);
+    renderer.render();
+
+    // The rings are told apart by their cell size.
+    const draws = cellDraws();
+    expect(draws.map((draw) => draw.args.slice(1, 4))).toEqual([
+      [0, 100, 100],
+      [100, 100, 100],
+      [0, 200, 200],
+      [200, 200, 200]
+    ]);
+    expect(draws.every((draw) => draw.operation === "lighter")).toBe(true);
+    expect(draws.map((draw) => draw.alpha).reduce((sum, alpha) => sum + alpha)).toBeCloseTo(1);
+    expect(draws[0].alpha).toBeCloseTo(0.25);
+  });
+
+  it("widens the cross-fade with motion blur past the threshold", () => {
+    const canvas = document.createElement("canvas");
+    const renderer = new OrbitalCanvasRenderer(canvas, { rings: [{ pitch: 0, image: sheet(400, 200) }], layout });
+    renderer.setBlurThreshold(0.5);
+    renderer.setPose(0, 0, 3);
+    renderer.render();
+
+    expect(cellDraws().map((draw) => draw.alpha)).toEqual([expect.closeTo(0.7), expect.closeTo(0.3)]);
+  });
+
+  it("draws matted sheets rather than the raw images", () => {
+    const canvas = document.createElement("canvas");
+    const image = sheet(400, 200);
+    const renderer = new OrbitalCanvasRenderer(canvas, { rings: [{ pitch: 0, image }], layout });
+    renderer.render();
+
+    const [draw] = cellDraws();
+    expect(draw.args[0]).toBeInstanceOf(HTMLCanvasElement);
+    expect(draw.args[0]).not.toBe(image);
+  });
+
+  it("shows the matte as greyscale in QA mode", () => {
+    pixels = [10, 20, 30, 128];
+    const canvas = document.createElement("canvas");
+    const renderer = new OrbitalCanvasRenderer(canvas, { rings: [{ pitch: 0, image: sheet(400, 200) }], layout });
+    renderer.render();
+    expect(cellContext().puts).toHaveLength(0);
+
+    renderer.setShowMatte(true);
+    renderer.render();
+    expect([...cellContext().puts[0].subarray(0, 4)]).toEqual([128, 128, 128, 255]);
+  });
+
+  it("places the cell like the shader's zoomed and panned quad", () => {
+    const canvas = document.createElement("canvas");
+    const renderer = new OrbitalCanvasRenderer(canvas, { rings: [{ pitch: 0, image: sheet(400, 200) }], layout });
+    renderer.setSize(200, 100);
+    renderer.setView({ zoom: 2, panX: 0.5, panY: -0.5 });
+    renderer.render();
+
+    const [draw] = contexts.get(canvas)!.draws;
+    expect(draw.args.slice(1)).toEqual([-50, -25, 400, 200]);
+  });
+
+  it("fills the backdrop before the product", async () => {
+    const canvas = document.createElement("canvas");
+    const renderer = new OrbitalCanvasRenderer(canvas, { rings: [{ pitch: 0, image: sheet(400, 200) }], layout });
+    renderer.setSize(200, 100);
+    renderer.render();
+    expect(contexts.get(canvas)!.fills).toEqual(["#ffffff"]);
+
+    await renderer.setStage({ backdrop: { kind: "gradient", from: "#ffffff", to: "#cccccc" } });
+    renderer.render();
+    expect(contexts.get(canvas)!.fills[1]).toMatchObject({
+      line: [0, 0, 0, 100],
+      stops: [
+        [0, "#ffffff"],
+        [1, "#cccccc"]
+      ]
+    });
+  });
+
+  it("mirrors the shadow and reflection about the floor and grades the product", async () => {
+    const canvas = document.createElement("canvas");
+    const renderer = new OrbitalCanvasRenderer(canvas, { rings: [{ pitch: 0, image: sheet(400, 200) }], layout });
+    renderer.setSize(200, 100);
+    await renderer.setStage({ shadow: true, reflection: true, lighting: "studio" });
+    renderer.render();
+
+    const floor = 100 * (1 - FLOOR_V);
+    const squash = (1 - 2 * FLOOR_V) / FLOOR_V;
+    const [shadow, reflection, product] = contexts.get(canvas)!.draws;
+    expect(shadow.alpha).toBe(0.35);
+    expect(shadow.transform).toEqual([expect.closeTo(-1 / squash), expect.closeTo(floor * (1 + 1 / squash))]);
+    expect(shadow.args[0]).not.toBe(product.args[0]);
+    expect(reflection.alpha).toBe(0.25);
+    expect(reflection.transform).toEqual([-1, 2 * floor]);
+    expect(product.filter).toBe(gradeFilter(LIGHTING_PRESETS.studio));
+    expect(product.transform).toEqual([1, 0]);
+    expect(product.alpha).toBe(1);
+  });
+});
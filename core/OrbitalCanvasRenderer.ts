@@ -0,0 +1,267 @@
+import { matteImage } from "./alphaMatte";
+import { cellPosition } from "./gridLayout";
+import { createCanvas } from "./imageUtils";
+import { OrbitalPose, cellWeights, selectFrames } from "./orbitalSampler";
+import { OrbitalRenderer, OrbitalTextures } from "./orbitalRenderer";
+import { FLOOR_V, LIGHTING_PRESETS, REFLECTION_OPACITY, SHADOW_OPACITY, coverFit, gradeFilter } from "./orbitalStage";
+import { ProductOrbitVisualizer } from "./ProductOrbitVisualizer";
+import { PixelBuffer } from "./spriteAlignment";
+
+// Canvas2D stand-in for ProductOrbitVisualizer on browsers without WebGL. Frame
+// selection, the frame and ring cross-fades, motion blur, the alpha matte and
+// the stage match the shader; the tilt warp, flow interpolation (frames always
+// cross-fade), bicubic zoom sampling, the depth fade of the shadow and
+// reflection, and the grade's tint and key light are not reproduced.
+export class OrbitalCanvasRenderer extends OrbitalRenderer {
+  readonly backend = "canvas2d";
+  private ctx: CanvasRenderingContext2D | null;
+  // One grid cell, blended at sheet resolution before it is scaled onto the
+  // visible canvas.
+  private cell: HTMLCanvasElement;
+  private cellCtx: CanvasRenderingContext2D | null;
+  // Black silhouette of the cell for the floor shadow.
+  private silhouette: HTMLCanvasElement;
+  // Matted copies of the ring sheets, in ring order.
+  private sheets: HTMLCanvasElement[] = [];
+
+  constructor(canvas: HTMLCanvasElement, textures: OrbitalTextures) {
+    super(canvas, textures);
+    this.ctx = canvas.getContext("2d");
+    this.cell = createCanvas(1, 1);
+    this.silhouette = createCanvas(1, 1);
+    this.cellCtx = this.ctx ? this.cell.getContext("2d", { willReadFrequently: true }) : null;
+    this.prepareSheets();
+  }
+
+  isSupported() {
+    return !!this.ctx && !!this.cellCtx;
+  }
+
+  setTextures(textures: OrbitalTextures) {
+    super.setTextures(textures);
+    this.prepareSheets();
+  }
+
+  dispose() {
+    this.ctx = null;
+    this.cellCtx = null;
+    this.cell.width = 0;
+    this.cell.height = 0;
+    this.silhouette.width = 0;
+    this.silhouette.height = 0;
+    this.sheets = [];
+  }
+
+  private prepareSheets() {
+    const image = this.rings[0]?.image;
+    this.cell.width = Math.max(1, Math.floor((image?.naturalWidth || image?.width || 1) / this.layout.columns));
+    this.cell.height = Math.max(1, Math.floor((image?.naturalHeight || image?.height || 1) / this.layout.rows));
+    this.silhouette.width = this.cell.width;
+    this.silhouette.height = this.cell.height;
+    if (!this.cellCtx) {
+      return;
+    }
+    this.sheets = this.rings.map((ring) => {
+      const matte = matteImage(ring.image, this.layout);
+      const sheet = createCanvas(matte.width, matte.height);
+      const ctx = sheet.getContext("2d");
+      if (ctx) {
+        const pixels = ctx.createImageData(matte.width, matte.height);
+        pixels.data.set(matte.data);
+        ctx.putImageData(pixels, 0, 0);
+      }
+      return sheet;
+    });
+  }
+
+  setSize(width: number, height: number) {
+    this.canvas.width = width;
+    this.canvas.height = height;
+  }
+
+  renderToPixels(pose?: OrbitalPose): PixelBuffer {
+    if (!this.ctx || !this.cellCtx) {
+      throw new Error("CANVAS_UNAVAILABLE");
+    }
+    if (pose) {
+      this.setPose(pose.yaw, pose.pitch, pose.velocity);
+    }
+    this.render();
+    const { width, height, data } = this.ctx.getImageData(0, 0, this.canvas.width, this.canvas.height);
+    return { width, height, data };
+  }
+
+  toBlob(type = "image/png", quality?: number, pose?: OrbitalPose): Promise<Blob> {
+    if (!this.ctx || !this.cellCtx) {
+      return Promise.reject(new Error("CANVAS_UNAVAILABLE"));
+    }
+    if (pose) {
+      this.setPose(pose.yaw, pose.pitch, pose.velocity);
+    }
+    this.render();
+    return new Promise((resolve, reject) => {
+      this.canvas.toBlob(
+        (blob) => (blob ? resolve(blob) : reject(new Error("SNAPSHOT_ENCODE_FAILED"))),
+        type,
+        quality
+      );
+    });
+  }
+
+  render() {
+    if (!this.ctx || !this.cellCtx) {
+      return;
+    }
+    this.drawCell(this.cellCtx);
+
+    const { width, height } = this.canvas;
+    const { zoom, panX, panY } = this.view;
+    const ctx = this.ctx;
+    ctx.clearRect(0, 0, width, height);
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = zoom > 1 ? "high" : "medium";
+    // Same placement as the shader's clip-space quad: scaled by zoom about the
+    // centre, then moved by pan (y up).
+    const quad = {
+      x: (width * (1 - zoom + panX)) / 2,
+      y: (height * (1 - zoom - panY)) / 2,
+      width: width * zoom,
+      height: height * zoom
+    };
+    const drawQuad = (image: HTMLCanvasElement) => ctx.drawImage(image, quad.x, quad.y, quad.width, quad.height);
+
+    if (this.showMatte) {
+      drawQuad(this.cell);
+      return;
+    }
+
+    this.drawBackdrop(ctx);
+    const grade = gradeFilter(LIGHTING_PRESETS[this.stage.lighting]);
+    const floor = quad.y + quad.height * (1 - FLOOR_V);
+    // The shader's shadow squashes the product's height onto the floor band.
+    const squash = (1 - 2 * FLOOR_V) / FLOOR_V;
+    const belowFloor = (draw: () => void) => {
+      ctx.save();
+      ctx.beginPath();
+      ctx.rect(0, floor, width, Math.max(0, height - floor));
+      ctx.clip();
+      draw();
+      ctx.restore();
+    };
+
+    if (this.stage.shadow && this.silhouetteOfCell()) {
+      belowFloor(() => {
+        ctx.globalAlpha = SHADOW_OPACITY;
+        ctx.filter = `blur(${Math.max(1, quad.height * 0.01)}px)`;
+        ctx.translate(0, floor);
+        ctx.scale(1, -1 / squash);
+        ctx.translate(0, -floor);
+        drawQuad(this.silhouette);
+      });
+    }
+    if (this.stage.reflection) {
+      belowFloor(() => {
+        ctx.globalAlpha = REFLECTION_OPACITY;
+        ctx.filter = grade;
+        ctx.translate(0, 2 * floor);
+        ctx.scale(1, -1);
+        drawQuad(this.cell);
+      });
+    }
+
+    ctx.save();
+    ctx.filter = grade;
+    drawQuad(this.cell);
+    ctx.restore();
+  }
+
+  private drawBackdrop(ctx: CanvasRenderingContext2D) {
+    const { width, height } = this.canvas;
+    const { backdrop } = this.stage;
+    if (backdrop.kind === "image") {
+      const image = this.backdropImage;
+      if (image) {
+        const imageWidth = image.naturalWidth || image.width;
+        const imageHeight = image.naturalHeight || image.height;
+        const fit = coverFit(imageWidth, imageHeight, width, height);
+        const sourceWidth = imageWidth * fit.x;
+        const sourceHeight = imageHeight * fit.y;
+        ctx.drawImage(
+          image,
+          (imageWidth - sourceWidth) / 2,
+          (imageHeight - sourceHeight) / 2,
+          sourceWidth,
+          sourceHeight,
+          0,
+          0,
+          width,
+          height
+        );
+        return;
+      }
+    }
+
+    if (backdrop.kind === "gradient") {
+      const gradient = ctx.createLinearGradient(0, 0, 0, height);
+      gradient.addColorStop(0, backdrop.from);
+      gradient.addColorStop(1, backdrop.to);
+      ctx.fillStyle = gradient;
+    } else {
+      ctx.fillStyle = backdrop.kind === "solid" ? backdrop.color : "#ffffff";
+    }
+    ctx.fillRect(0, 0, width, height);
+  }
+
+  private silhouetteOfCell() {
+    const ctx = this.silhouette.getContext("2d");
+    if (!ctx) {
+      return false;
+    }
+    const { width, height } = this.silhouette;
+    ctx.globalCompositeOperation = "copy";
+    ctx.drawImage(this.cell, 0, 0);
+    ctx.globalCompositeOperation = "source-in";
+    ctx.fillStyle = "#000000";
+    ctx.fillRect(0, 0, width, height);
+    ctx.globalCompositeOperation = "source-over";
+    return true;
+  }
+
+  // Sums the weighted cells additively. Canvas keeps pixels premultiplied, so
+  // this reproduces the shader's mix() chain over the premultiplied matte.
+  private drawCell(ctx: CanvasRenderingContext2D) {
+    const { width, height } = this.cell;
+    const selection = selectFrames(this.layout, this.ringPitches, this.getPose(), this.blurThreshold);
+
+    ctx.globalCompositeOperation = "source-over";
+    ctx.globalAlpha = 1;
+    ctx.clearRect(0, 0, width, height);
+    ctx.globalCompositeOperation = "lighter";
+    for (const { ring, frame, weight } of cellWeights(selection)) {
+      const sheet = this.sheets[ring];
+      const cellWidth = sheet.width / this.layout.columns;
+      const cellHeight = sheet.height / this.layout.rows;
+      const { column, row } = cellPosition(this.layout, frame);
+      ctx.globalAlpha = weight;
+      ctx.drawImage(sheet, column * cellWidth, row * cellHeight, cellWidth, cellHeight, 0, 0, width, height);
+    }
+    ctx.globalCompositeOperation = "source-over";
+    ctx.globalAlpha = 1;
+
+    if (this.showMatte) {
+      const pixels = ctx.getImageData(0, 0, width, height);
+      for (let offset = 0; offset < pixels.data.length; offset += 4) {
+        pixels.data.fill(pixels.data[offset + 3], offset, offset + 3);
+        pixels.data[offset + 3] = 255;
+      }
+      ctx.putImageData(pixels, 0, 0);
+    }
+  }
+}
+
+// WebGL when the browser provides it, Canvas2D otherwise. A canvas that already
+// holds a WebGL context cannot switch to 2D, so check isSupported() on the result.
+export const createOrbitalRenderer = (canvas: HTMLCanvasElement, textures: OrbitalTextures): OrbitalRenderer => {
+  const visualizer = new ProductOrbitVisualizer(canvas, textures);
+  return visualizer.isSupported() ? visualizer : new OrbitalCanvasRenderer(canvas, textures);
+};
@@ -0,0 +1,217 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createGridLayout } from "./gridLayout";
+import { ProductOrbitVisualizer } from "./ProductOrbitVisualizer";
+
+// WebGL stand-in: every call is recorded and returns a fresh handle, and
+// compile/link always succeed.
+const fakeWebGL = () => {
+  const calls: { name: string; args: unknown[]; result: unknown }[] = [];
+  const loseContext = vi.fn();
+  let handles = 0;
+  const gl = new Proxy({} as Record<string, unknown>, {
+    get(_target, name: string) {
+      if (name === "getShaderParameter" || name === "getProgramParameter") {
+        return () => true;
+      }
+      if (name === "getExtension") {
+        return (extension: string) => (extension === "WEBGL_lose_context" ? { loseContext } : null);
+      }
+      if (/^[A-Z_0-9]+$/.test(name)) {
+        return name;
+      }
+      return (...args: unknown[]) => {
+        const result = { handle: ++handles };
+        calls.push({ name, args, result });
+        return result;
+      };
+    }
+  });
+  const count = (name: string) => calls.filter((call) => call.name === name).length;
+  return { gl, calls, count, loseContext };
+};
+
+const sheet = () => {
+  const image = document.createElement("img");
+  image.width = 400;
+  image.height = 200;
+  return image;
+};
+
+// Ring sheets are read back through a 2D canvas for matting: a white sheet with
+// one dark pixel in the first cell.
+const sheetContext = {
+  drawImage: () => undefined,
+  getImageData: (_x: number, _y: number, width: number, height: number) => {
+    const data = new Uint8ClampedArray(width * height * 4).fill(255);
+    data.fill(0, (50 * width + 50) * 4, (50 * width + 50) * 4 + 3);
+    return { width, height, data };
+  }
+};
+
+const contextEvent = (type: string) => new Event(type, { cancelable: true });
+
+describe("ProductOrbitVisualizer lifecycle", () => {
+  const layout = createGridLayout(4, 2);
+  let fake: ReturnType<typeof fakeWebGL>;
+  let canvas: HTMLCanvasElement;
+
+  beforeEach(() => {
+    fake = fakeWebGL();
+    vi.spyOn(HTMLCanvasElement.prototype, "getContext").mockReturnValue(
+      sheetContext as unknown as CanvasRenderingContext2D
+    );
+    canvas = document.createElement("canvas");
+    vi.spyOn(canvas, "getContext").mockImplementation(((type: string) =>
+      type === "webgl2" ? fake.gl : null) as unknown as typeof canvas.getContext);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const create = () =>
+    new ProductOrbitVisualizer(canvas, {
+      rings: [
+        { pitch: 0, image: sheet() },
+        { pitch: 30, image: sheet() }
+      ],
+      layout
+    });
+
+  it("frees its programs, shaders, buffer and textures on dispose", () => {
+    const visualizer = create();
+    expect(visualizer.isSupported()).toBe(true);
+    expect(fake.count("deleteShader")).toBe(4);
+
+    visualizer.dispose();
+    expect(fake.count("deleteTexture")).toBe(2);
+    expect(fake.count("deleteBuffer")).toBe(1);
+    expect(fake.count("deleteProgram")).toBe(2);
+    expect(fake.loseContext).not.toHaveBeenCalled();
+    expect(visualizer.isSupported()).toBe(false);
+
+    const drawsBefore = fake.count("drawArrays");
+    visualizer.render();
+    expect(fake.count("drawArrays")).toBe(drawsBefore);
+  });
+
+  it("uploads each ring as a premultiplied matte", () => {
+    create();
+    const uploads = fake.calls.filter((call) => call.name === "texImage2D");
+    expect(uploads).toHaveLength(2);
+    const data = uploads[0].args[8] as Uint8Array;
+    expect(uploads[0].args.slice(3, 5)).toEqual([400, 200]);
+    // Backdrop is transparent black; the dark pixel is opaque.
+    expect([...data.subarray(0, 4)]).toEqual([0, 0, 0, 0]);
+    expect([...data.subarray((50 * 400 + 50) * 4, (50 * 400 + 50) * 4 + 4)]).toEqual([0, 0, 0, 255]);
+  });
+
+  it("hands the context back when asked to", () => {
+    create().dispose(true);
+    expect(fake.loseContext).toHaveBeenCalledTimes(1);
+  });
+
+  it("stops listening for context events once disposed", () => {
+    create().dispose();
+    const lost = contextEvent("webglcontextlost");
+    canvas.dispatchEvent(lost);
+    expect(lost.defaultPrevented).toBe(false);
+  });
+
+  it("rebuilds shaders and textures after a context loss, keeping pose and view", () => {
+    const visualizer = create();
+    visualizer.setPose(135, 20, 1.5);
+    visualizer.setView({ zoom: 2, panX: 0.5, panY: 0 });
+
+    const lost = contextEvent("webglcontextlost");
+    canvas.dispatchEvent(lost);
+    expect(lost.defaultPrevented).toBe(true);
+    // Handles of a lost context are not deleted.
+    expect(fake.count("deleteTexture")).toBe(0);
+
+    const drawsBefore = fake.count("drawArrays");
+    visualizer.render();
+    expect(fake.count("drawArrays")).toBe(drawsBefore);
+
+    const programsBefore = fake.count("createProgram");
+    canvas.dispatchEvent(contextEvent("webglcontextrestored"));
+    expect(fake.count("createProgram")).toBe(programsBefore + 2);
+    expect(fake.count("texImage2D")).toBe(4);
+
+    visualizer.render();
+    expect(fake.count("drawArrays")).toBe(drawsBefore + 2);
+    expect(visualizer.getPose()).toEqual({ yaw: expect.closeTo(135), pitch: 20, velocity: 1.5 });
+    expect(visualizer.getView()).toEqual({ zoom: 2, panX: 0.5, panY: 0 });
+  });
+
+  it("fails snapshots while the context is lost instead of returning blank frames", async () => {
+    const visualizer = create();
+    canvas.dispatchEvent(contextEvent("webglcontextlost"));
+    expect(visualizer.isContextLost()).toBe(true);
+    expect(() => visualizer.renderToPixels()).toThrow("WEBGL_CONTEXT_LOST");
+    await expect(visualizer.toBlob()).rejects.toThrow("WEBGL_CONTEXT_LOST");
+
+    canvas.dispatchEvent(contextEvent("webglcontextrestored"));
+    expect(visualizer.isContextLost()).toBe(false);
+    expect(() => visualizer.renderToPixels()).not.toThrow();
+  });
+
+  it("swaps textures in place", () => {
+    const visualizer = create();
+    visualizer.setPose(90, 30);
+    const programsBefore = fake.count("createProgram");
+
+    visualizer.setTextures({ rings: [{ pitch: 0, image: sheet() }], layout });
+    expect(fake.count("deleteTexture")).toBe(2);
+    expect(fake.count("texImage2D")).toBe(3);
+    expect(fake.count("createProgram")).toBe(programsBefore);
+    expect(visualizer.getPose()).toEqual({ yaw: expect.closeTo(90), pitch: 0, velocity: 0 });
+  });
+
+  it("draws the backdrop, then blends the premultiplied product over it", async () => {
+    const visualizer = create();
+    await visualizer.setStage({ backdrop: { kind: "solid", color: "#336699" } });
+    const start = fake.calls.length;
+    visualizer.render();
+
+    const frame = fake.calls.slice(start);
+    const index = (name: string, from = 0) => frame.findIndex((call, i) => i >= from && call.name === name);
+    const backdropDraw = index("drawArrays");
+    const productDraw = index("drawArrays", backdropDraw + 1);
+    expect(productDraw).toBeGreaterThan(backdropDraw);
+    expect(index("enable")).toBeGreaterThan(backdropDraw);
+    expect(index("enable")).toBeLessThan(productDraw);
+    expect(frame.find((call) => call.name === "blendFunc")?.args).toEqual(["ONE", "ONE_MINUS_SRC_ALPHA"]);
+    expect(frame.slice(0, backdropDraw).some((call) => call.name === "uniform3f" && call.args[1] === 0.2)).toBe(true);
+  });
+
+  it("warps along the rings' flow fields unless cross-fade is chosen", () => {
+    const visualizer = new ProductOrbitVisualizer(canvas, {
+      rings: [
+        { pitch: 0, image: sheet(), flow: sheet() },
+        { pitch: 30, image: sheet(), flow: sheet() }
+      ],
+      layout
+    });
+    expect(fake.count("texImage2D")).toBe(4);
+
+    const location = fake.calls.find((call) => call.name === "getUniformLocation" && call.args[1] === "u_useFlow")!.result;
+    const useFlow = () => fake.calls.filter((call) => call.name === "uniform1f" && call.args[0] === location).at(-1)?.args[1];
+    visualizer.render();
+    expect(useFlow()).toBe(1);
+
+    visualizer.setInterpolation("crossfade");
+    visualizer.render();
+    expect(useFlow()).toBe(0);
+
+    visualizer.dispose();
+    expect(fake.count("deleteTexture")).toBe(4);
+  });
+
+  it("cross-fades rings without a flow field", () => {
+    const visualizer = create();
+    const location = fake.calls.find((call) => call.name === "getUniformLocation" && call.args[1] === "u_useFlow")!.result;
+    visualizer.render();
+    expect(fake.calls.filter((call) => call.name === "uniform1f" && call.args[0] === location).at(-1)?.args[1]).toBe(0);
+  });
+});
@@ -1,14 +1,19 @@
 import { OrbitalShaderManager } from "./shaders/OrbitalShaderModules";
-import { Quaternion, toAxisAngle } from "./quaternion";
-
-export type OrbitalTextures = {
-  ring0: HTMLImageElement;
-  ring1: HTMLImageElement;
-};
-
-export class ProductOrbitVisualizer {
-  private canvas: HTMLCanvasElement;
-  private textures: OrbitalTextures;
+import { matteImage, premultiply } from "./alphaMatte";
+import { resolveRingBlend } from "./orbitalRings";
+import { OrbitalPose } from "./orbitalSampler";
+import { OrbitalRenderer, OrbitalTextures } from "./orbitalRenderer";
+import { FLOOR_V, LIGHTING_PRESETS, REFLECTION_OPACITY, SHADOW_OPACITY, coverFit, parseColor } from "./orbitalStage";
+import { FLOW_GRID, FLOW_RANGE } from "./opticalFlow";
+import { PixelBuffer } from "./spriteAlignment";
+
+const MAX_TILT = 30;
+
+export class ProductOrbitVisualizer extends OrbitalRenderer {
+  readonly backend = "webgl";
+  private ringTextures: (WebGLTexture | null)[] = [];
+  // Per ring, null where the ring has no flow field.
+  private flowTextures: (WebGLTexture | null)[] = [];
   private gl: WebGLRenderingContext | WebGL2RenderingContext | null = null;
   private program: WebGLProgram | null = null;
   private shaderManager: OrbitalShaderManager | null = null;
@@ -16,20 +21,49 @@ export class ProductOrbitVisualizer {
   private supported = false;
   private uniforms: {
     yaw: WebGLUniformLocation | null;
-    pitch: WebGLUniformLocation | null;
+    tilt: WebGLUniformLocation | null;
+    ringBlend: WebGLUniformLocation | null;
     velocity: WebGLUniformLocation | null;
+    blurThreshold: WebGLUniformLocation | null;
     warp: WebGLUniformLocation | null;
     textureRing0: WebGLUniformLocation | null;
     textureRing1: WebGLUniformLocation | null;
+    flowRing0: WebGLUniformLocation | null;
+    flowRing1: WebGLUniformLocation | null;
+    useFlow: WebGLUniformLocation | null;
+    flowGrid: WebGLUniformLocation | null;
+    flowRange: WebGLUniformLocation | null;
+    gridSize: WebGLUniformLocation | null;
+    frameCount: WebGLUniformLocation | null;
+    startAngle: WebGLUniformLocation | null;
+    direction: WebGLUniformLocation | null;
+    view: WebGLUniformLocation | null;
+    textureSize: WebGLUniformLocation | null;
+    bicubic: WebGLUniformLocation | null;
+    showMatte: WebGLUniformLocation | null;
+    grade: WebGLUniformLocation | null;
+    tint: WebGLUniformLocation | null;
+    keyLight: WebGLUniformLocation | null;
+    shadow: WebGLUniformLocation | null;
+    reflection: WebGLUniformLocation | null;
+    floor: WebGLUniformLocation | null;
+  } | null = null;
+  private backdropProgram: WebGLProgram | null = null;
+  private backdropTexture: WebGLTexture | null = null;
+  private backdropUniforms: {
+    mode: WebGLUniformLocation | null;
+    colorA: WebGLUniformLocation | null;
+    colorB: WebGLUniformLocation | null;
+    image: WebGLUniformLocation | null;
+    imageScale: WebGLUniformLocation | null;
   } | null = null;
 
-  private currentYaw = 0;
-  private currentPitch = 0;
-  private velocity = 0;
+  private contextLost = false;
 
   constructor(canvas: HTMLCanvasElement, textures: OrbitalTextures) {
-    this.canvas = canvas;
-    this.textures = textures;
+    super(canvas, textures);
+    this.handleContextLost = this.handleContextLost.bind(this);
+    this.handleContextRestored = this.handleContextRestored.bind(this);
     this.initWebGL();
   }
 
@@ -45,10 +79,24 @@ export class ProductOrbitVisualizer {
       return;
     }
 
+    this.canvas.addEventListener("webglcontextlost", this.handleContextLost);
+    this.canvas.addEventListener("webglcontextrestored", this.handleContextRestored);
+    this.createResources();
+  }
+
+  // Programs, quad buffer, textures and uniform locations. Everything else
+  // (pose, view, stage, blur threshold) lives on the instance and survives a
+  // context loss.
+  private createResources() {
+    if (!this.gl) {
+      return;
+    }
+
     this.shaderManager = new OrbitalShaderManager(this.gl);
     this.program = this.shaderManager.createProgram();
+    this.backdropProgram = this.shaderManager.createBackdropProgram();
 
-    if (!this.program) {
+    if (!this.program || !this.backdropProgram) {
       return;
     }
 
@@ -62,40 +110,164 @@ export class ProductOrbitVisualizer {
 
     this.gl.bindBuffer(this.gl.ARRAY_BUFFER, this.buffer);
     this.gl.bufferData(this.gl.ARRAY_BUFFER, positions, this.gl.STATIC_DRAW);
+    this.gl.viewport(0, 0, this.canvas.width, this.canvas.height);
 
-    this.uploadTexture(this.textures.ring0, 0);
-    this.uploadTexture(this.textures.ring1, 1);
+    this.uploadRings();
+    this.backdropChanged();
+
+    this.backdropUniforms = {
+      mode: this.gl.getUniformLocation(this.backdropProgram, "u_mode"),
+      colorA: this.gl.getUniformLocation(this.backdropProgram, "u_colorA"),
+      colorB: this.gl.getUniformLocation(this.backdropProgram, "u_colorB"),
+      image: this.gl.getUniformLocation(this.backdropProgram, "u_image"),
+      imageScale: this.gl.getUniformLocation(this.backdropProgram, "u_imageScale")
+    };
 
     this.uniforms = {
       yaw: this.gl.getUniformLocation(this.program, "u_yaw"),
-      pitch: this.gl.getUniformLocation(this.program, "u_pitch"),
+      tilt: this.gl.getUniformLocation(this.program, "u_tilt"),
+      ringBlend: this.gl.getUniformLocation(this.program, "u_ringBlend"),
       velocity: this.gl.getUniformLocation(this.program, "u_velocity"),
+      blurThreshold: this.gl.getUniformLocation(this.program, "u_blurThreshold"),
       warp: this.gl.getUniformLocation(this.program, "u_warpFactor"),
       textureRing0: this.gl.getUniformLocation(this.program, "u_textureRing0"),
-      textureRing1: this.gl.getUniformLocation(this.program, "u_textureRing1")
+      textureRing1: this.gl.getUniformLocation(this.program, "u_textureRing1"),
+      flowRing0: this.gl.getUniformLocation(this.program, "u_flowRing0"),
+      flowRing1: this.gl.getUniformLocation(this.program, "u_flowRing1"),
+      useFlow: this.gl.getUniformLocation(this.program, "u_useFlow"),
+      flowGrid: this.gl.getUniformLocation(this.program, "u_flowGrid"),
+      flowRange: this.gl.getUniformLocation(this.program, "u_flowRange"),
+      gridSize: this.gl.getUniformLocation(this.program, "u_gridSize"),
+      frameCount: this.gl.getUniformLocation(this.program, "u_frameCount"),
+      startAngle: this.gl.getUniformLocation(this.program, "u_startAngle"),
+      direction: this.gl.getUniformLocation(this.program, "u_direction"),
+      view: this.gl.getUniformLocation(this.program, "u_view"),
+      textureSize: this.gl.getUniformLocation(this.program, "u_textureSize"),
+      bicubic: this.gl.getUniformLocation(this.program, "u_bicubic"),
+      showMatte: this.gl.getUniformLocation(this.program, "u_showMatte"),
+      grade: this.gl.getUniformLocation(this.program, "u_grade"),
+      tint: this.gl.getUniformLocation(this.program, "u_tint"),
+      keyLight: this.gl.getUniformLocation(this.program, "u_keyLight"),
+      shadow: this.gl.getUniformLocation(this.program, "u_shadow"),
+      reflection: this.gl.getUniformLocation(this.program, "u_reflection"),
+      floor: this.gl.getUniformLocation(this.program, "u_floor")
     };
   }
 
-  private uploadTexture(image: HTMLImageElement, unit: number) {
+  // Handles from a lost context are already invalid, so they are only deleted
+  // while the context is alive.
+  private releaseResources() {
+    if (this.gl && !this.contextLost) {
+      this.deleteTextures();
+      if (this.backdropTexture) {
+        this.gl.deleteTexture(this.backdropTexture);
+      }
+      this.gl.deleteBuffer(this.buffer);
+      this.shaderManager?.dispose();
+    }
+    this.ringTextures = [];
+    this.flowTextures = [];
+    this.backdropTexture = null;
+    this.buffer = null;
+    this.program = null;
+    this.backdropProgram = null;
+    this.shaderManager = null;
+    this.uniforms = null;
+    this.backdropUniforms = null;
+  }
+
+  private uploadRings() {
+    this.ringTextures = this.rings.map((ring) => this.uploadTexture(ring.image));
+    this.flowTextures = this.rings.map((ring) => (ring.flow ? this.uploadFlow(ring.flow) : null));
+  }
+
+  private deleteTextures() {
+    for (const texture of [...this.ringTextures, ...this.flowTextures]) {
+      if (texture) {
+        this.gl?.deleteTexture(texture);
+      }
+    }
+    this.ringTextures = [];
+    this.flowTextures = [];
+  }
+
+  // Without preventDefault the browser never restores the context.
+  private handleContextLost(event: Event) {
+    event.preventDefault();
+    this.contextLost = true;
+    this.releaseResources();
+  }
+
+  private handleContextRestored() {
+    this.contextLost = false;
+    this.createResources();
+  }
+
+  // Replaces the ring sheets on the existing context; pose and view are kept.
+  setTextures(textures: OrbitalTextures) {
+    super.setTextures(textures);
+    if (this.gl && !this.contextLost && this.program) {
+      this.deleteTextures();
+      this.uploadRings();
+    }
+  }
+
+  // Frees the GPU resources and stops listening for context events. The context
+  // itself belongs to the canvas and is kept for whoever draws on it next,
+  // unless `releaseContext` asks the browser to drop it (offscreen canvases).
+  dispose(releaseContext = false) {
+    this.canvas.removeEventListener("webglcontextlost", this.handleContextLost);
+    this.canvas.removeEventListener("webglcontextrestored", this.handleContextRestored);
+    this.releaseResources();
+    if (releaseContext && !this.contextLost) {
+      this.gl?.getExtension("WEBGL_lose_context")?.loseContext();
+    }
+    this.gl = null;
+    this.supported = false;
+  }
+
+  private uploadTexture(image: HTMLImageElement): WebGLTexture | null {
+    // Premultiplied so filtering and the cross-fades do not bleed the keyed-out white.
+    const matte = premultiply(matteImage(image, this.layout));
+    return this.createTexture((gl) =>
+      gl.texImage2D(
+        gl.TEXTURE_2D,
+        0,
+        gl.RGBA,
+        matte.width,
+        matte.height,
+        0,
+        gl.RGBA,
+        gl.UNSIGNED_BYTE,
+        new Uint8Array(matte.data.buffer, matte.data.byteOffset, matte.data.byteLength)
+      )
+    );
+  }
+
+  // Flow vectors are data: no colour management, sampled as stored.
+  private uploadFlow(image: HTMLImageElement): WebGLTexture | null {
+    return this.createTexture((gl) => {
+      gl.pixelStorei(gl.UNPACK_COLORSPACE_CONVERSION_WEBGL, gl.NONE);
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, image);
+      gl.pixelStorei(gl.UNPACK_COLORSPACE_CONVERSION_WEBGL, gl.BROWSER_DEFAULT_WEBGL);
+    });
+  }
+
+  private createTexture(upload: (gl: WebGLRenderingContext | WebGL2RenderingContext) => void): WebGLTexture | null {
     if (!this.gl) {
-      return;
+      return null;
     }
 
     const tex = this.gl.createTexture();
     if (!tex) {
-      return;
+      return null;
     }
 
-    this.gl.activeTexture(this.gl.TEXTURE0 + unit);
+    this.gl.activeTexture(this.gl.TEXTURE0);
     this.gl.bindTexture(this.gl.TEXTURE_2D, tex);
-    this.gl.texImage2D(
-      this.gl.TEXTURE_2D,
-      0,
-      this.gl.RGBA,
-      this.gl.RGBA,
-      this.gl.UNSIGNED_BYTE,
-      image
-    );
+    // The shader addresses cells bottom-up (GL convention), so rows must be flipped on upload.
+    this.gl.pixelStorei(this.gl.UNPACK_FLIP_Y_WEBGL, true);
+    upload(this.gl);
     this.gl.texParameteri(
       this.gl.TEXTURE_2D,
       this.gl.TEXTURE_MIN_FILTER,
@@ -116,6 +288,21 @@ export class ProductOrbitVisualizer {
       this.gl.TEXTURE_WRAP_T,
       this.gl.CLAMP_TO_EDGE
     );
+
+    return tex;
+  }
+
+  protected backdropChanged() {
+    if (!this.gl || this.contextLost) {
+      return;
+    }
+    if (this.backdropTexture) {
+      this.gl.deleteTexture(this.backdropTexture);
+    }
+    const image = this.backdropImage;
+    this.backdropTexture = image
+      ? this.createTexture((gl) => gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, image))
+      : null;
   }
 
   setSize(width: number, height: number) {
@@ -128,23 +315,58 @@ export class ProductOrbitVisualizer {
     this.gl.viewport(0, 0, width, height);
   }
 
-  updateFromRotor(quaternion: Quaternion, dt: number) {
-    const { axis, angle } = toAxisAngle(quaternion);
+  isContextLost() {
+    return this.contextLost;
+  }
 
-    const yEnergy = axis[1] * angle;
-    const xEnergy = axis[0] * angle;
+  // A lost context draws nothing, so snapshots fail rather than come back blank.
+  private drawableError() {
+    if (!this.gl || !this.supported) {
+      return new Error("WEBGL_UNAVAILABLE");
+    }
+    return this.contextLost ? new Error("WEBGL_CONTEXT_LOST") : null;
+  }
 
-    this.currentYaw += yEnergy * 0.1;
+  renderToPixels(pose?: OrbitalPose): PixelBuffer {
+    const error = this.drawableError();
+    if (error || !this.gl) {
+      throw error;
+    }
+    if (pose) {
+      this.setPose(pose.yaw, pose.pitch, pose.velocity);
+    }
+    this.render();
 
-    const fullTurn = Math.PI * 2;
-    this.currentYaw = ((this.currentYaw % fullTurn) + fullTurn) % fullTurn;
+    const { drawingBufferWidth: width, drawingBufferHeight: height } = this.gl;
+    const raw = new Uint8Array(width * height * 4);
+    this.gl.readPixels(0, 0, width, height, this.gl.RGBA, this.gl.UNSIGNED_BYTE, raw);
 
-    this.currentPitch += xEnergy * 5.0;
-    this.currentPitch = Math.max(0, Math.min(30, this.currentPitch));
+    const data = new Uint8ClampedArray(raw.length);
+    const rowLength = width * 4;
+    for (let y = 0; y < height; y++) {
+      data.set(raw.subarray((height - 1 - y) * rowLength, (height - y) * rowLength), y * rowLength);
+    }
+    return { width, height, data };
+  }
 
-    const velocityScale = dt > 0 ? 1 / dt : 1;
-    const instantaneousVelocity = yEnergy * velocityScale;
-    this.velocity = this.velocity * 0.85 + instantaneousVelocity * 0.15;
+  // The blob is captured in the same task as the draw, so it works without
+  // preserveDrawingBuffer.
+  toBlob(type = "image/png", quality?: number, pose?: OrbitalPose): Promise<Blob> {
+    const error = this.drawableError();
+    if (error) {
+      return Promise.reject(error);
+    }
+    if (pose) {
+      this.setPose(pose.yaw, pose.pitch, pose.velocity);
+    }
+    this.render();
+    return new Promise((resolve, reject) => {
+      this.canvas.toBlob(
+        (blob) => (blob ? resolve(blob) : reject(new Error("SNAPSHOT_ENCODE_FAILED"))),
+        type,
+        quality
+      );
+    });
   }
 
   render() {
@@ -152,26 +374,105 @@ export class ProductOrbitVisualizer {
       return;
     }
 
+    this.gl.disable(this.gl.BLEND);
     this.gl.clearColor(1, 1, 1, 1);
     this.gl.clear(this.gl.COLOR_BUFFER_BIT);
+    this.drawBackdrop();
 
     this.gl.useProgram(this.program);
 
     const warpFactor = Math.min(0.35, 0.08 + Math.abs(this.velocity) * 0.05);
 
+    const ringBlend = resolveRingBlend(this.ringPitches, this.currentPitch);
+    const tilt = Math.max(-MAX_TILT, Math.min(MAX_TILT, this.currentPitch));
+
     this.gl.uniform1f(this.uniforms.yaw, this.currentYaw);
-    this.gl.uniform1f(this.uniforms.pitch, this.currentPitch);
+    this.gl.uniform1f(this.uniforms.tilt, tilt);
+    this.gl.uniform1f(this.uniforms.ringBlend, ringBlend.blend);
     this.gl.uniform1f(this.uniforms.velocity, this.velocity);
+    this.gl.uniform1f(this.uniforms.blurThreshold, this.blurThreshold);
     this.gl.uniform1f(this.uniforms.warp, warpFactor);
+    this.gl.uniform2f(this.uniforms.gridSize, this.layout.columns, this.layout.rows);
+    this.gl.uniform1f(this.uniforms.frameCount, this.layout.frames);
+    this.gl.uniform1f(this.uniforms.startAngle, (this.layout.startAngle * Math.PI) / 180);
+    this.gl.uniform1f(this.uniforms.direction, this.layout.direction);
+    this.gl.uniform3f(this.uniforms.view, this.view.panX, this.view.panY, this.view.zoom);
+
+    // Sharper sampling only once zooming magnifies the cell past its own resolution.
+    const image = this.rings[0]?.image;
+    const textureWidth = image?.naturalWidth || image?.width || 1;
+    const textureHeight = image?.naturalHeight || image?.height || 1;
+    const magnified = this.canvas.width * this.view.zoom > textureWidth / this.layout.columns;
+    this.gl.uniform2f(this.uniforms.textureSize, textureWidth, textureHeight);
+    this.gl.uniform1f(this.uniforms.bicubic, this.view.zoom > 1 && magnified ? 1 : 0);
+    this.gl.uniform1f(this.uniforms.showMatte, this.showMatte ? 1 : 0);
+
+    const grade = LIGHTING_PRESETS[this.stage.lighting];
+    this.gl.uniform3f(this.uniforms.grade, grade.exposure, grade.contrast, grade.saturation);
+    this.gl.uniform3f(this.uniforms.tint, ...grade.tint);
+    this.gl.uniform1f(this.uniforms.keyLight, grade.keyLight);
+    this.gl.uniform1f(this.uniforms.shadow, this.stage.shadow ? SHADOW_OPACITY : 0);
+    this.gl.uniform1f(this.uniforms.reflection, this.stage.reflection ? REFLECTION_OPACITY : 0);
+    this.gl.uniform1f(this.uniforms.floor, FLOOR_V);
+
+    this.gl.activeTexture(this.gl.TEXTURE0);
+    this.gl.bindTexture(this.gl.TEXTURE_2D, this.ringTextures[ringBlend.lower] ?? null);
+    this.gl.activeTexture(this.gl.TEXTURE1);
+    this.gl.bindTexture(this.gl.TEXTURE_2D, this.ringTextures[ringBlend.upper] ?? null);
 
     this.gl.uniform1i(this.uniforms.textureRing0, 0);
     this.gl.uniform1i(this.uniforms.textureRing1, 1);
 
+    const flowLower = this.flowTextures[ringBlend.lower] ?? null;
+    const flowUpper = this.flowTextures[ringBlend.upper] ?? null;
+    this.gl.activeTexture(this.gl.TEXTURE3);
+    this.gl.bindTexture(this.gl.TEXTURE_2D, flowLower);
+    this.gl.activeTexture(this.gl.TEXTURE4);
+    this.gl.bindTexture(this.gl.TEXTURE_2D, flowUpper);
+    this.gl.uniform1i(this.uniforms.flowRing0, 3);
+    this.gl.uniform1i(this.uniforms.flowRing1, 4);
+    this.gl.uniform1f(this.uniforms.useFlow, this.interpolation === "flow" && flowLower && flowUpper ? 1 : 0);
+    this.gl.uniform1f(this.uniforms.flowGrid, FLOW_GRID);
+    this.gl.uniform1f(this.uniforms.flowRange, FLOW_RANGE);
+
     const posLoc = this.gl.getAttribLocation(this.program, "a_position");
     this.gl.enableVertexAttribArray(posLoc);
     this.gl.bindBuffer(this.gl.ARRAY_BUFFER, this.buffer);
     this.gl.vertexAttribPointer(posLoc, 2, this.gl.FLOAT, false, 0, 0);
 
+    // The product pass outputs premultiplied colour over the backdrop.
+    this.gl.enable(this.gl.BLEND);
+    this.gl.blendFunc(this.gl.ONE, this.gl.ONE_MINUS_SRC_ALPHA);
+    this.gl.drawArrays(this.gl.TRIANGLE_STRIP, 0, 4);
+    this.gl.disable(this.gl.BLEND);
+  }
+
+  private drawBackdrop() {
+    if (!this.gl || !this.backdropProgram || !this.backdropUniforms || !this.buffer) {
+      return;
+    }
+
+    const { backdrop } = this.stage;
+    const image = backdrop.kind === "image" && this.backdropTexture ? this.backdropImage : null;
+    this.gl.useProgram(this.backdropProgram);
+    this.gl.uniform1f(this.backdropUniforms.mode, image ? 2 : backdrop.kind === "gradient" ? 1 : 0);
+    this.gl.uniform3f(
+      this.backdropUniforms.colorA,
+      ...parseColor(backdrop.kind === "solid" ? backdrop.color : backdrop.kind === "gradient" ? backdrop.from : "#ffffff")
+    );
+    this.gl.uniform3f(this.backdropUniforms.colorB, ...parseColor(backdrop.kind === "gradient" ? backdrop.to : "#ffffff"));
+    if (image) {
+      const fit = coverFit(image.naturalWidth || image.width, image.naturalHeight || image.height, this.canvas.width, this.canvas.height);
+      this.gl.activeTexture(this.gl.TEXTURE2);
+      this.gl.bindTexture(this.gl.TEXTURE_2D, this.backdropTexture);
+      this.gl.uniform1i(this.backdropUniforms.image, 2);
+      this.gl.uniform2f(this.backdropUniforms.imageScale, fit.x, fit.y);
+    }
+
+    const posLoc = this.gl.getAttribLocation(this.backdropProgram, "a_position");
+    this.gl.enableVertexAttribArray(posLoc);
+    this.gl.bindBuffer(this.gl.ARRAY_BUFFER, this.buffer);
+    this.gl.vertexAttribPointer(posLoc, 2, this.gl.FLOAT, false, 0, 0);
     this.gl.drawArrays(this.gl.TRIANGLE_STRIP, 0, 4);
   }
 }
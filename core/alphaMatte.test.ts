@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { computeAlphaMatte, premultiply } from "./alphaMatte";
+import { createGridLayout } from "./gridLayout";
+import { PixelBuffer } from "./spriteAlignment";
+
+type Rgb = [number, number, number];
+
+// Builds a sheet from rows of single-character pixels.
+const sheetFrom = (rows: string[], palette: Record<string, Rgb>): PixelBuffer => {
+  const width = rows[0].length;
+  const data = new Uint8ClampedArray(width * rows.length * 4);
+  rows.forEach((row, y) =>
+    [...row].forEach((key, x) => data.set([...palette[key], 255], (y * width + x) * 4))
+  );
+  return { width, height: rows.length, data };
+};
+
+const pixel = (buffer: PixelBuffer, x: number, y: number) =>
+  [...buffer.data.subarray((y * buffer.width + x) * 4, (y * buffer.width + x) * 4 + 4)];
+
+const palette: Record<string, Rgb> = {
+  ".": [255, 255, 255],
+  "#": [0, 0, 0],
+  "g": [230, 230, 230],
+  "r": [200, 0, 0]
+};
+
+const single = createGridLayout(1, 1);
+
+describe("computeAlphaMatte", () => {
+  it("clears the backdrop connected to the cell border", () => {
+    const matte = computeAlphaMatte(sheetFrom([".....", ".###.", ".###.", ".###.", "....."], palette), single);
+    expect(pixel(matte, 0, 0)[3]).toBe(0);
+    expect(pixel(matte, 4, 4)[3]).toBe(0);
+    expect(pixel(matte, 2, 2)).toEqual([0, 0, 0, 255]);
+  });
+
+  it("keeps white enclosed by the object opaque", () => {
+    const matte = computeAlphaMatte(
+      sheetFrom([".......", ".#####.", ".#...#.", ".#...#.", ".#...#.", ".#####.", "......."], palette),
+      single,
+      { feather: 1 }
+    );
+    expect(pixel(matte, 3, 3)).toEqual([255, 255, 255, 255]);
+  });
+
+  it("turns a light fringe into partial alpha and unmixes the white", () => {
+    const matte = computeAlphaMatte(sheetFrom(["......", ".g##g.", ".g##g.", "......"], palette), single, {
+      feather: 1
+    });
+    const fringe = pixel(matte, 1, 1);
+    // 230 grey over white is ~10% black.
+    expect(fringe[3]).toBe(Math.round((25 / 255) * 255));
+    expect(fringe[0]).toBeLessThan(5);
+  });
+
+  it("takes the edge reference from the nearest solid colour", () => {
+    const matte = computeAlphaMatte(sheetFrom(["......", ".rrrr.", ".rrrr.", ".rrrr.", ".rrrr.", "......"], palette), single, {
+      feather: 1
+    });
+    expect(pixel(matte, 1, 1)).toEqual([200, 0, 0, 255]);
+  });
+
+  it("mattes each grid cell on its own", () => {
+    // The right cell is all white; its border is backdrop even though the
+    // left cell's object touches the shared edge.
+    const layout = createGridLayout(2, 1);
+    const matte = computeAlphaMatte(sheetFrom(["......", "..####", "......"].map((row) => row + "......"), palette), layout);
+    expect(pixel(matte, 5, 1)[3]).toBe(255);
+    expect(pixel(matte, 6, 1)[3]).toBe(0);
+  });
+
+  it("treats transparent source pixels as backdrop", () => {
+    const sheet = sheetFrom(["###", "###", "###"], palette);
+    sheet.data[3] = 0;
+    expect(pixel(computeAlphaMatte(sheet, single), 0, 0)[3]).toBe(0);
+  });
+});
+
+describe("premultiply", () => {
+  it("scales colour by alpha", () => {
+    const buffer = { width: 1, height: 1, data: new Uint8ClampedArray([200, 100, 50, 128]) };
+    expect([...premultiply(buffer).data]).toEqual([100, 50, 25, 128]);
+    expect([...buffer.data]).toEqual([200, 100, 50, 128]);
+  });
+});
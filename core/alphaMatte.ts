@@ -0,0 +1,168 @@
+import { GridLayout } from "../types";
+import { createCanvas } from "./imageUtils";
+import { PixelBuffer } from "./spriteAlignment";
+
+export type MatteOptions = {
+  // Largest per-channel distance from white still counted as backdrop.
+  tolerance: number;
+  // Width in pixels of the soft edge band inside the object outline.
+  feather: number;
+};
+
+export const DEFAULT_MATTE_OPTIONS: MatteOptions = {
+  tolerance: 18,
+  feather: 2
+};
+
+const whiteDistance = (data: Uint8ClampedArray, pixel: number) =>
+  data[pixel * 4 + 3] < 16 ? 0 : 255 - Math.min(data[pixel * 4], data[pixel * 4 + 1], data[pixel * 4 + 2]);
+
+const UNVISITED = 255;
+
+// Separates each grid cell's object from its white backdrop and returns straight
+// (non-premultiplied) RGBA with a real alpha channel:
+// - the backdrop is flood-filled from the cell borders, so white areas enclosed
+//   by the object (labels, caps, white products) stay opaque;
+// - pixels within `feather` of the backdrop get a partial alpha, estimated from
+//   how far they sit between white and the nearest solid object colour;
+// - those edge pixels are despilled, unmixing the white so edges do not fringe.
+export const computeAlphaMatte = (
+  source: PixelBuffer,
+  layout: GridLayout,
+  options: Partial<MatteOptions> = {}
+): PixelBuffer => {
+  const { tolerance, feather } = { ...DEFAULT_MATTE_OPTIONS, ...options };
+  const { width, height } = source;
+  const data = new Uint8ClampedArray(source.data);
+  // Steps from the backdrop: 0 is backdrop, 1..feather the edge band, UNVISITED solid.
+  const distance = new Uint8Array(width * height).fill(UNVISITED);
+  const reference = new Float32Array(width * height);
+  const queue = new Int32Array(width * height);
+
+  for (let row = 0; row < layout.rows; row++) {
+    for (let column = 0; column < layout.columns; column++) {
+      const x0 = Math.round((column * width) / layout.columns);
+      const x1 = Math.round(((column + 1) * width) / layout.columns);
+      const y0 = Math.round((row * height) / layout.rows);
+      const y1 = Math.round(((row + 1) * height) / layout.rows);
+      let head = 0;
+      let tail = 0;
+
+      const neighbours = (pixel: number, visit: (neighbour: number) => void) => {
+        const x = pixel % width;
+        const y = (pixel - x) / width;
+        if (x > x0) {
+          visit(pixel - 1);
+        }
+        if (x < x1 - 1) {
+          visit(pixel + 1);
+        }
+        if (y > y0) {
+          visit(pixel - width);
+        }
+        if (y < y1 - 1) {
+          visit(pixel + width);
+        }
+      };
+      const fillBackdrop = (pixel: number) => {
+        if (distance[pixel] === UNVISITED && whiteDistance(data, pixel) <= tolerance) {
+          distance[pixel] = 0;
+          queue[tail++] = pixel;
+        }
+      };
+
+      for (let x = x0; x < x1; x++) {
+        fillBackdrop(y0 * width + x);
+        fillBackdrop((y1 - 1) * width + x);
+      }
+      for (let y = y0; y < y1; y++) {
+        fillBackdrop(y * width + x0);
+        fillBackdrop(y * width + x1 - 1);
+      }
+      while (head < tail) {
+        neighbours(queue[head++], fillBackdrop);
+      }
+
+      // The queue now holds the backdrop; keep growing it into the edge band.
+      const backdropEnd = tail;
+      for (head = 0; head < tail; head++) {
+        const pixel = queue[head];
+        if (distance[pixel] >= feather) {
+          continue;
+        }
+        neighbours(pixel, (neighbour) => {
+          if (distance[neighbour] === UNVISITED) {
+            distance[neighbour] = distance[pixel] + 1;
+            queue[tail++] = neighbour;
+          }
+        });
+      }
+
+      // Walk the band from the inside out so each pixel can take the solid
+      // colour distance found one step further in.
+      for (let i = tail - 1; i >= backdropEnd; i--) {
+        const pixel = queue[i];
+        let best = 0;
+        neighbours(pixel, (neighbour) => {
+          if (distance[neighbour] > distance[pixel]) {
+            best = Math.max(best, distance[neighbour] === UNVISITED ? whiteDistance(data, neighbour) : reference[neighbour]);
+          }
+        });
+        reference[pixel] = best > 0 ? best : 255;
+      }
+    }
+  }
+
+  for (let pixel = 0; pixel < width * height; pixel++) {
+    const offset = pixel * 4;
+    if (distance[pixel] === 0) {
+      data[offset + 3] = 0;
+      continue;
+    }
+    if (distance[pixel] === UNVISITED) {
+      data[offset + 3] = 255;
+      continue;
+    }
+    const alpha = Math.min(1, whiteDistance(data, pixel) / Math.max(1, reference[pixel]));
+    for (let c = 0; c < 3; c++) {
+      data[offset + c] = alpha > 0 ? (data[offset + c] - (1 - alpha) * 255) / alpha : 0;
+    }
+    data[offset + 3] = Math.round(alpha * 255);
+  }
+
+  return { width, height, data };
+};
+
+// Premultiplied copy, the form the GPU samples and blends the matte in.
+export const premultiply = (buffer: PixelBuffer): PixelBuffer => {
+  const data = new Uint8ClampedArray(buffer.data);
+  for (let offset = 0; offset < data.length; offset += 4) {
+    const alpha = data[offset + 3] / 255;
+    data[offset] *= alpha;
+    data[offset + 1] *= alpha;
+    data[offset + 2] *= alpha;
+  }
+  return { width: buffer.width, height: buffer.height, data };
+};
+
+const matteCache = new WeakMap<HTMLImageElement, { key: string; matte: PixelBuffer }>();
+
+// Matte of a loaded ring sheet, computed once per image and grid.
+export const matteImage = (image: HTMLImageElement, layout: GridLayout): PixelBuffer => {
+  const key = `${layout.columns}x${layout.rows}`;
+  const cached = matteCache.get(image);
+  if (cached?.key === key) {
+    return cached.matte;
+  }
+
+  const width = image.naturalWidth || image.width;
+  const height = image.naturalHeight || image.height;
+  const ctx = createCanvas(width, height).getContext("2d", { willReadFrequently: true });
+  if (!ctx) {
+    throw new Error("MATTE_CANVAS_UNAVAILABLE");
+  }
+  ctx.drawImage(image, 0, 0);
+  const matte = computeAlphaMatte(ctx.getImageData(0, 0, width, height), layout);
+  matteCache.set(image, { key, matte });
+  return matte;
+};
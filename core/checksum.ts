@@ -0,0 +1,20 @@
+import { ImageState } from "../types";
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+
+export const sha256Hex = async (input: string): Promise<string> => {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(input));
+  return toHex(digest);
+};
+
+export const computeSourceChecksum = async (images: ImageState): Promise<string> => {
+  if (!images.front || !images.back) {
+    throw new Error("BACK_REFERENCE_REQUIRED");
+  }
+
+  const [front, back] = await Promise.all([sha256Hex(images.front), sha256Hex(images.back)]);
+  return `sha256:${await sha256Hex(`${front}:${back}`)}`;
+};
@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import { GifEncoder } from "./GifEncoder";
+import { Palette, createPaletteMapper } from "./colorQuantizer";
+
+// Reassembles data sub-blocks and decodes GIF LZW back to palette indices.
+const decodeLzw = (bytes: Uint8Array, offset: number) => {
+  const minCodeSize = bytes[offset++];
+  const data: number[] = [];
+  for (let size = bytes[offset++]; size > 0; size = bytes[offset++]) {
+    data.push(...bytes.subarray(offset, offset + size));
+    offset += size;
+  }
+
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  let codeSize = minCodeSize + 1;
+  let table: number[][] = [];
+  const reset = () => {
+    table = Array.from({ length: endCode + 1 }, (_, i) => [i]);
+    codeSize = minCodeSize + 1;
+  };
+  reset();
+
+  const indices: number[] = [];
+  let previous: number[] | null = null;
+  let position = 0;
+  for (;;) {
+    let code = 0;
+    for (let i = 0; i < codeSize; i++, position++) {
+      code |= ((data[position >> 3] >> (position & 7)) & 1) << i;
+    }
+    if (code === clearCode) {
+      reset();
+      previous = null;
+      continue;
+    }
+    if (code === endCode) {
+      break;
+    }
+    const entry: number[] = code < table.length ? table[code] : [...previous!, previous![0]];
+    indices.push(...entry);
+    if (previous) {
+      table.push([...previous, entry[0]]);
+      if (table.length === 1 << codeSize && codeSize < 12) {
+        codeSize++;
+      }
+    }
+    previous = entry;
+  }
+  return { indices, next: offset };
+};
+
+const GRAYS: Palette = {
+  colors: Uint8Array.from({ length: 256 * 3 }, (_, i) => Math.floor(i / 3)),
+  size: 256
+};
+
+const frameOf = (width: number, height: number, value: (i: number) => number) => {
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    const v = value(i);
+    pixels.set([v, v, v, 255], i * 4);
+  }
+  return pixels;
+};
+
+describe("GifEncoder", () => {
+  it("writes a looping GIF89a header with the global palette", () => {
+    const gif = new GifEncoder(3, 2, GRAYS).finish();
+    const text = (from: number, to: number) => String.fromCharCode(...gif.subarray(from, to));
+    expect(text(0, 6)).toBe("GIF89a");
+    expect([gif[6] | (gif[7] << 8), gif[8] | (gif[9] << 8)]).toEqual([3, 2]);
+    expect(gif[10]).toBe(0xf7);
+    expect(gif.subarray(13, 13 + 768)).toEqual(GRAYS.colors);
+
+    const netscape = 13 + 768;
+    expect([...gif.subarray(netscape, netscape + 3)]).toEqual([0x21, 0xff, 0x0b]);
+    expect(text(netscape + 3, netscape + 14)).toBe("NETSCAPE2.0");
+    expect([...gif.subarray(netscape + 14)]).toEqual([0x03, 0x01, 0x00, 0x00, 0x00, 0x3b]);
+  });
+
+  it("round-trips frames through LZW, including table resets", () => {
+    const SIZE = 128;
+    let seed = 11;
+    const random = () => (seed = (seed * 1103515245 + 12345) & 0x7fffffff) >> 16;
+    // Noise fills the 4096-entry code table several times over.
+    const frames = [frameOf(SIZE, SIZE, () => random() & 0xff), frameOf(SIZE, SIZE, (i) => (i >> 8) & 0xff)];
+    const encoder = new GifEncoder(SIZE, SIZE, GRAYS);
+    frames.forEach((frame) => encoder.addFrame(frame, 1000 / 24));
+    const gif = encoder.finish();
+    const mapColor = createPaletteMapper(GRAYS);
+
+    let offset = 13 + 768 + 19;
+    for (const frame of frames) {
+      expect([...gif.subarray(offset, offset + 4)]).toEqual([0x21, 0xf9, 0x04, 0x08]);
+      expect(gif[offset + 4] | (gif[offset + 5] << 8)).toBe(4);
+      offset += 8;
+      expect(gif[offset]).toBe(0x2c);
+      offset += 10;
+
+      const { indices, next } = decodeLzw(gif, offset);
+      const expected = Array.from({ length: SIZE * SIZE }, (_, i) => mapColor(frame[i * 4], frame[i * 4 + 1], frame[i * 4 + 2]));
+      expect(indices).toEqual(expected);
+      offset = next;
+    }
+    expect(gif[offset]).toBe(0x3b);
+    expect(offset).toBe(gif.length - 1);
+  });
+
+  it("rejects mismatched and late frames", () => {
+    const encoder = new GifEncoder(2, 2, GRAYS);
+    expect(() => encoder.addFrame(new Uint8ClampedArray(4), 40)).toThrow("GIF_FRAME_SIZE_MISMATCH");
+    encoder.finish();
+    expect(() => encoder.addFrame(new Uint8ClampedArray(16), 40)).toThrow("GIF_ENCODER_FINISHED");
+  });
+});
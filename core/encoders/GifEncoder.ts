@@ -0,0 +1,174 @@
+import { Palette, createPaletteMapper } from "./colorQuantizer";
+
+class ByteWriter {
+  private buffer = new Uint8Array(1 << 16);
+  length = 0;
+
+  byte(value: number) {
+    if (this.length === this.buffer.length) {
+      const grown = new Uint8Array(this.buffer.length * 2);
+      grown.set(this.buffer);
+      this.buffer = grown;
+    }
+    this.buffer[this.length++] = value;
+  }
+
+  word(value: number) {
+    this.byte(value & 0xff);
+    this.byte((value >> 8) & 0xff);
+  }
+
+  bytes(values: ArrayLike<number>) {
+    for (let i = 0; i < values.length; i++) {
+      this.byte(values[i]);
+    }
+  }
+
+  text(value: string) {
+    for (let i = 0; i < value.length; i++) {
+      this.byte(value.charCodeAt(i));
+    }
+  }
+
+  toBytes() {
+    return this.buffer.slice(0, this.length);
+  }
+}
+
+const MIN_CODE_SIZE = 8;
+const MAX_CODE = 4096;
+
+// Variable-width LZW as specified by GIF89a, emitted straight into 255-byte
+// data sub-blocks.
+const writeLzw = (out: ByteWriter, indices: Uint8Array) => {
+  const clearCode = 1 << MIN_CODE_SIZE;
+  const endCode = clearCode + 1;
+  let nextCode = endCode + 1;
+  let codeSize = MIN_CODE_SIZE + 1;
+  let table = new Map<number, number>();
+
+  const block: number[] = [];
+  let bits = 0;
+  let bitCount = 0;
+  const flushBlock = () => {
+    out.byte(block.length);
+    out.bytes(block);
+    block.length = 0;
+  };
+  const emit = (code: number) => {
+    bits |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      block.push(bits & 0xff);
+      bits >>>= 8;
+      bitCount -= 8;
+      if (block.length === 255) {
+        flushBlock();
+      }
+    }
+  };
+
+  out.byte(MIN_CODE_SIZE);
+  emit(clearCode);
+
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const pixel = indices[i];
+    const key = (prefix << 8) | pixel;
+    const existing = table.get(key);
+    if (existing !== undefined) {
+      prefix = existing;
+      continue;
+    }
+
+    emit(prefix);
+    if (nextCode === MAX_CODE) {
+      emit(clearCode);
+      table = new Map();
+      nextCode = endCode + 1;
+      codeSize = MIN_CODE_SIZE + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) {
+        codeSize++;
+      }
+      table.set(key, nextCode++);
+    }
+    prefix = pixel;
+  }
+
+  emit(prefix);
+  emit(endCode);
+  if (bitCount > 0) {
+    block.push(bits & 0xff);
+  }
+  if (block.length > 0) {
+    flushBlock();
+  }
+  out.byte(0);
+};
+
+// Looping GIF89a writer with one global 256-colour palette shared by all frames.
+export class GifEncoder {
+  private out = new ByteWriter();
+  private width: number;
+  private height: number;
+  private mapColor: (r: number, g: number, b: number) => number;
+  private finished = false;
+
+  constructor(width: number, height: number, palette: Palette) {
+    this.width = width;
+    this.height = height;
+    this.mapColor = createPaletteMapper(palette);
+
+    this.out.text("GIF89a");
+    this.out.word(width);
+    this.out.word(height);
+    this.out.byte(0xf7); // global colour table, 8-bit colour resolution, 256 entries
+    this.out.byte(0);
+    this.out.byte(0);
+    this.out.bytes(palette.colors.subarray(0, 256 * 3));
+    for (let i = palette.colors.length; i < 256 * 3; i++) {
+      this.out.byte(0);
+    }
+
+    // NETSCAPE2.0 application extension: loop forever.
+    this.out.bytes([0x21, 0xff, 0x0b]);
+    this.out.text("NETSCAPE2.0");
+    this.out.bytes([0x03, 0x01, 0x00, 0x00, 0x00]);
+  }
+
+  addFrame(pixels: Uint8ClampedArray, delayMs: number) {
+    if (this.finished) {
+      throw new Error("GIF_ENCODER_FINISHED");
+    }
+    if (pixels.length !== this.width * this.height * 4) {
+      throw new Error("GIF_FRAME_SIZE_MISMATCH");
+    }
+
+    const indices = new Uint8Array(this.width * this.height);
+    for (let i = 0, p = 0; i < indices.length; i++, p += 4) {
+      indices[i] = this.mapColor(pixels[p], pixels[p + 1], pixels[p + 2]);
+    }
+
+    // Graphic control extension: dispose to background, delay in centiseconds.
+    this.out.bytes([0x21, 0xf9, 0x04, 0x08]);
+    this.out.word(Math.max(2, Math.round(delayMs / 10)));
+    this.out.bytes([0x00, 0x00]);
+
+    this.out.byte(0x2c);
+    this.out.word(0);
+    this.out.word(0);
+    this.out.word(this.width);
+    this.out.word(this.height);
+    this.out.byte(0);
+    writeLzw(this.out, indices);
+  }
+
+  finish(): Uint8Array {
+    if (!this.finished) {
+      this.out.byte(0x3b);
+      this.finished = true;
+    }
+    return this.out.toBytes();
+  }
+}
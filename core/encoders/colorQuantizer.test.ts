@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { accumulateHistogram, createColorHistogram, createPaletteMapper, medianCutPalette } from "./colorQuantizer";
+
+const pixelsOf = (colors: number[][]) => Uint8ClampedArray.from(colors.flatMap((color) => [...color, 255]));
+
+const paletteColors = (colors: Uint8Array, size: number) =>
+  Array.from({ length: size }, (_, i) => [...colors.subarray(i * 3, i * 3 + 3)]);
+
+describe("medianCutPalette", () => {
+  it("keeps a few distinct colours at their bin centres", () => {
+    const histogram = createColorHistogram();
+    accumulateHistogram(histogram, pixelsOf([[255, 255, 255], [0, 0, 0], [200, 16, 16], [200, 16, 16]]));
+    const palette = medianCutPalette(histogram);
+    expect(palette.size).toBe(3);
+    expect(paletteColors(palette.colors, palette.size).sort()).toEqual([[204, 20, 20], [252, 252, 252], [4, 4, 4]].sort());
+    expect(palette.colors.length).toBe(256 * 3);
+  });
+
+  it("caps the palette and weights colours by frequency", () => {
+    const histogram = createColorHistogram();
+    accumulateHistogram(histogram, pixelsOf(Array.from({ length: 64 }, (_, i) => [i * 4, 0, 0])));
+    expect(medianCutPalette(histogram, 16).size).toBe(16);
+
+    const skewed = createColorHistogram();
+    accumulateHistogram(skewed, pixelsOf([...Array(9).fill([0, 0, 0]), [16, 0, 0]]));
+    const [single] = paletteColors(medianCutPalette(skewed, 1).colors, 1);
+    expect(single[0]).toBe(Math.round((4 * 9 + 20) / 10));
+  });
+
+  it("samples every `step`th pixel", () => {
+    const histogram = createColorHistogram();
+    accumulateHistogram(histogram, pixelsOf([[0, 0, 0], [255, 0, 0], [0, 0, 0], [255, 0, 0]]), 2);
+    expect(histogram.reduce((sum, count) => sum + count, 0)).toBe(2);
+    expect(medianCutPalette(histogram).size).toBe(1);
+  });
+
+  it("falls back to white for an empty histogram", () => {
+    const palette = medianCutPalette(createColorHistogram());
+    expect(palette.size).toBe(1);
+    expect([...palette.colors.subarray(0, 3)]).toEqual([252, 252, 252]);
+  });
+});
+
+describe("createPaletteMapper", () => {
+  it("maps colours to the nearest palette entry", () => {
+    const mapColor = createPaletteMapper({ colors: Uint8Array.from([0, 0, 0, 255, 0, 0, 0, 0, 255]), size: 3 });
+    expect(mapColor(10, 10, 10)).toBe(0);
+    expect(mapColor(200, 40, 30)).toBe(1);
+    expect(mapColor(20, 30, 180)).toBe(2);
+    // Memoized per bin, so repeat lookups agree.
+    expect(mapColor(200, 40, 30)).toBe(1);
+  });
+});
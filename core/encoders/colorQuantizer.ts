@@ -0,0 +1,133 @@
+// Median-cut palette reduction over a 15-bit (5 bits per channel) histogram.
+// Frames are accumulated first so every frame of an animation shares one palette.
+
+const BINS = 1 << 15;
+
+export type ColorHistogram = Uint32Array;
+
+export type Palette = {
+  colors: Uint8Array;
+  size: number;
+};
+
+const binOf = (r: number, g: number, b: number) => ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+
+export const createColorHistogram = (): ColorHistogram => new Uint32Array(BINS);
+
+export const accumulateHistogram = (histogram: ColorHistogram, pixels: Uint8ClampedArray, step = 1) => {
+  const stride = Math.max(1, step) * 4;
+  for (let i = 0; i < pixels.length; i += stride) {
+    histogram[binOf(pixels[i], pixels[i + 1], pixels[i + 2])]++;
+  }
+};
+
+type ColorBox = {
+  bins: number[];
+  count: number;
+  channel: number;
+  range: number;
+};
+
+const channelOf = (bin: number, channel: number) => (bin >> (10 - channel * 5)) & 31;
+
+const describeBox = (bins: number[], histogram: ColorHistogram): ColorBox => {
+  const min = [31, 31, 31];
+  const max = [0, 0, 0];
+  let count = 0;
+  for (const bin of bins) {
+    count += histogram[bin];
+    for (let c = 0; c < 3; c++) {
+      const value = channelOf(bin, c);
+      min[c] = Math.min(min[c], value);
+      max[c] = Math.max(max[c], value);
+    }
+  }
+  const ranges = max.map((value, c) => value - min[c]);
+  const channel = ranges.indexOf(Math.max(...ranges));
+  return { bins, count, channel, range: ranges[channel] };
+};
+
+const splitBox = (box: ColorBox, histogram: ColorHistogram): [ColorBox, ColorBox] => {
+  const sorted = [...box.bins].sort((a, b) => channelOf(a, box.channel) - channelOf(b, box.channel));
+  let seen = 0;
+  let cut = 1;
+  for (; cut < sorted.length - 1; cut++) {
+    seen += histogram[sorted[cut - 1]];
+    if (seen >= box.count / 2) {
+      break;
+    }
+  }
+  return [describeBox(sorted.slice(0, cut), histogram), describeBox(sorted.slice(cut), histogram)];
+};
+
+export const medianCutPalette = (histogram: ColorHistogram, maxColors = 256): Palette => {
+  const used: number[] = [];
+  histogram.forEach((count, bin) => {
+    if (count > 0) {
+      used.push(bin);
+    }
+  });
+  if (used.length === 0) {
+    used.push(BINS - 1);
+  }
+
+  const boxes = [describeBox(used, histogram)];
+  while (boxes.length < maxColors) {
+    let target = -1;
+    let best = 0;
+    boxes.forEach((box, i) => {
+      const weight = box.range * Math.sqrt(box.count);
+      if (box.bins.length > 1 && weight > best) {
+        best = weight;
+        target = i;
+      }
+    });
+    if (target < 0) {
+      break;
+    }
+    boxes.splice(target, 1, ...splitBox(boxes[target], histogram));
+  }
+
+  const colors = new Uint8Array(maxColors * 3);
+  boxes.forEach((box, i) => {
+    const sum = [0, 0, 0];
+    let weight = 0;
+    for (const bin of box.bins) {
+      const count = histogram[bin] || 1;
+      weight += count;
+      for (let c = 0; c < 3; c++) {
+        sum[c] += ((channelOf(bin, c) << 3) | 4) * count;
+      }
+    }
+    for (let c = 0; c < 3; c++) {
+      colors[i * 3 + c] = Math.round(sum[c] / weight);
+    }
+  });
+  return { colors, size: boxes.length };
+};
+
+// Nearest-palette lookup, memoized per histogram bin.
+export const createPaletteMapper = (palette: Palette) => {
+  const cache = new Int16Array(BINS).fill(-1);
+  return (r: number, g: number, b: number) => {
+    const bin = binOf(r, g, b);
+    const cached = cache[bin];
+    if (cached >= 0) {
+      return cached;
+    }
+    let best = 0;
+    let bestDistance = Infinity;
+    for (let i = 0; i < palette.size; i++) {
+      const dr = palette.colors[i * 3] - r;
+      const dg = palette.colors[i * 3 + 1] - g;
+      const db = palette.colors[i * 3 + 2] - b;
+      const distance = dr * dr + dg * dg + db * db;
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = i;
+      }
+    }
+    cache[bin] = best;
+    return best;
+  };
+};
@@ -0,0 +1,199 @@
+import { describe, expect, it } from "vitest";
+import { encodeWebPLossless } from "./webpLossless";
+
+// Minimal VP8L reader for the subset the encoder writes, following the
+// bitstream spec (subtract-green only, no colour cache, one prefix code group).
+class BitReader {
+  private position = 0;
+
+  constructor(private bytes: Uint8Array) {}
+
+  read(count: number) {
+    let value = 0;
+    for (let i = 0; i < count; i++, this.position++) {
+      if (this.position >> 3 >= this.bytes.length) {
+        throw new Error("truncated");
+      }
+      value |= ((this.bytes[this.position >> 3] >> (this.position & 7)) & 1) << i;
+    }
+    return value;
+  }
+}
+
+type Decoder = (bits: BitReader) => number;
+
+// Canonical code from lengths; a code with one symbol reads no bits.
+const decoderOf = (lengths: number[]): Decoder => {
+  const used = lengths.flatMap((length, symbol) => (length > 0 ? [symbol] : []));
+  if (used.length === 1) {
+    return () => used[0];
+  }
+  const table = new Map<string, number>();
+  let code = 0;
+  let kraft = 0;
+  for (let length = 1; length <= 15; length++) {
+    lengths.forEach((symbolLength, symbol) => {
+      if (symbolLength === length) {
+        table.set(`${length}:${code++}`, symbol);
+        kraft += 2 ** -length;
+      }
+    });
+    code <<= 1;
+  }
+  if (kraft !== 1) {
+    throw new Error("incomplete prefix code");
+  }
+  return (bits) => {
+    let value = 0;
+    for (let length = 1; length <= 15; length++) {
+      value = (value << 1) | bits.read(1);
+      const symbol = table.get(`${length}:${value}`);
+      if (symbol !== undefined) {
+        return symbol;
+      }
+    }
+    throw new Error("bad prefix code");
+  };
+};
+
+const CODE_LENGTH_ORDER = [17, 18, 0, 1, 2, 3, 4, 5, 16, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15];
+
+const readPrefixCode = (bits: BitReader, alphabet: number): Decoder => {
+  const lengths = new Array(alphabet).fill(0);
+  if (bits.read(1)) {
+    const count = bits.read(1) + 1;
+    for (let i = 0; i < count; i++) {
+      lengths[bits.read(i === 0 && bits.read(1) === 0 ? 1 : 8)] = 1;
+    }
+    return decoderOf(lengths);
+  }
+  const lengthLengths = new Array(19).fill(0);
+  const count = bits.read(4) + 4;
+  for (let i = 0; i < count; i++) {
+    lengthLengths[CODE_LENGTH_ORDER[i]] = bits.read(3);
+  }
+  const lengthDecoder = decoderOf(lengthLengths);
+  expect(bits.read(1)).toBe(0);
+  let previous = 8;
+  for (let i = 0; i < alphabet; ) {
+    const symbol = lengthDecoder(bits);
+    if (symbol < 16) {
+      lengths[i++] = symbol;
+      previous = symbol || previous;
+    } else {
+      const repeat = symbol === 16 ? 3 + bits.read(2) : symbol === 17 ? 3 + bits.read(3) : 11 + bits.read(7);
+      for (let r = 0; r < repeat; r++) {
+        lengths[i++] = symbol === 16 ? previous : 0;
+      }
+    }
+  }
+  return decoderOf(lengths);
+};
+
+const prefixValue = (bits: BitReader, prefix: number) => {
+  if (prefix < 4) {
+    return prefix + 1;
+  }
+  const extraBits = (prefix - 2) >> 1;
+  return ((2 + (prefix & 1)) << extraBits) + bits.read(extraBits) + 1;
+};
+
+const decodeWebP = (webp: Uint8Array) => {
+  const text = (offset: number) => String.fromCharCode(...webp.subarray(offset, offset + 4));
+  const view = new DataView(webp.buffer, webp.byteOffset, webp.byteLength);
+  expect([text(0), text(8), text(12)]).toEqual(["RIFF", "WEBP", "VP8L"]);
+  expect(view.getUint32(4, true)).toBe(webp.length - 8);
+  const size = view.getUint32(16, true);
+  expect(20 + size + (size & 1)).toBe(webp.length);
+
+  const bits = new BitReader(webp.subarray(20, 20 + size));
+  expect(bits.read(8)).toBe(0x2f);
+  const width = bits.read(14) + 1;
+  const height = bits.read(14) + 1;
+  const alphaUsed = bits.read(1) === 1;
+  expect(bits.read(3)).toBe(0);
+  const transforms: number[] = [];
+  while (bits.read(1)) {
+    transforms.push(bits.read(2));
+  }
+  expect(transforms).toEqual([2]);
+  expect(bits.read(1)).toBe(0);
+  expect(bits.read(1)).toBe(0);
+
+  const [green, red, blue, alpha, distance] = [280, 256, 256, 256, 40].map((alphabet) => readPrefixCode(bits, alphabet));
+  const argb = new Uint32Array(width * height);
+  for (let i = 0; i < argb.length; ) {
+    const g = green(bits);
+    if (g < 256) {
+      const r = red(bits);
+      const b = blue(bits);
+      argb[i++] = ((alpha(bits) << 24) | (r << 16) | (g << 8) | b) >>> 0;
+      continue;
+    }
+    const length = prefixValue(bits, g - 256);
+    const code = prefixValue(bits, distance(bits));
+    // Only the first two neighbourhood entries, (0, 1) and (1, 0), are expected.
+    const offset = code === 1 ? width : code === 2 ? 1 : code - 120;
+    expect(code === 1 || code === 2 || code > 120).toBe(true);
+    for (let n = 0; n < length; n++, i++) {
+      argb[i] = argb[i - offset];
+    }
+  }
+
+  const data = new Uint8ClampedArray(width * height * 4);
+  argb.forEach((pixel, i) => {
+    const g = (pixel >> 8) & 0xff;
+    data.set([((pixel >> 16) + g) & 0xff, g, (pixel + g) & 0xff, pixel >>> 24], i * 4);
+  });
+  return { width, height, alphaUsed, data };
+};
+
+const image = (width: number, height: number, pixel: (x: number, y: number) => number[]) => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      data.set(pixel(x, y), (y * width + x) * 4);
+    }
+  }
+  return data;
+};
+
+// Deterministic noise so every symbol of every alphabet is in play.
+const noise = (seed: number) => () => {
+  seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+  return seed >> 16;
+};
+
+describe("encodeWebPLossless", () => {
+  it("round-trips a flat opaque frame through runs", () => {
+    const pixels = image(40, 30, () => [255, 255, 255, 255]);
+    const webp = encodeWebPLossless(pixels, 40, 30);
+    expect(decodeWebP(webp)).toEqual({ width: 40, height: 30, alphaUsed: false, data: pixels });
+    expect(webp.length).toBeLessThan(100);
+  });
+
+  it("round-trips noise with transparency", () => {
+    const next = noise(7);
+    const pixels = image(33, 17, () => [next() & 0xff, next() & 0xff, next() & 0xff, next() & 0xff]);
+    expect(decodeWebP(encodeWebPLossless(pixels, 33, 17))).toEqual({ width: 33, height: 17, alphaUsed: true, data: pixels });
+  });
+
+  it("round-trips a rendered-looking frame with repeated rows and skewed colours", () => {
+    const next = noise(3);
+    const pixels = image(64, 48, (x, y) => {
+      const inside = (x - 32) ** 2 + (y - 24) ** 2 < 300;
+      return inside ? [(x * 4) & 0xff, 120 + (y & 7), next() & 3 ? 40 : next() & 0xff, 255] : [255, 255, 255, 255];
+    });
+    expect(decodeWebP(encodeWebPLossless(pixels, 64, 48)).data).toEqual(pixels);
+  });
+
+  it("encodes a single pixel", () => {
+    const pixels = new Uint8ClampedArray([10, 200, 30, 128]);
+    expect(decodeWebP(encodeWebPLossless(pixels, 1, 1))).toEqual({ width: 1, height: 1, alphaUsed: true, data: pixels });
+  });
+
+  it("rejects sizes VP8L cannot describe", () => {
+    expect(() => encodeWebPLossless(new Uint8ClampedArray(0), 0, 1)).toThrow("WEBP_DIMENSIONS_INVALID");
+    expect(() => encodeWebPLossless(new Uint8ClampedArray(4), 16385, 1)).toThrow("WEBP_DIMENSIONS_INVALID");
+  });
+});
@@ -0,0 +1,305 @@
+// Lossless WebP (VP8L) encoder for single frames. Kept deliberately small:
+// - the subtract-green transform, no predictor or colour-indexing transforms;
+// - one prefix code group for the whole image, no colour cache;
+// - backward references only to the previous pixel and the one above, which
+//   covers the flat backdrops of rendered frames.
+// Output is a complete still WebP (RIFF > VP8L) for muxAnimatedWebP.
+
+class BitWriter {
+  private buffer = new Uint8Array(1 << 16);
+  private bits = 0;
+  private bitCount = 0;
+  length = 0;
+
+  // Writes `count` (up to 24) bits of `value`, least significant first.
+  write(value: number, count: number) {
+    this.bits |= value << this.bitCount;
+    this.bitCount += count;
+    while (this.bitCount >= 8) {
+      this.byte(this.bits & 0xff);
+      this.bits >>>= 8;
+      this.bitCount -= 8;
+    }
+  }
+
+  toBytes() {
+    if (this.bitCount > 0) {
+      this.byte(this.bits & 0xff);
+      this.bits = 0;
+      this.bitCount = 0;
+    }
+    return this.buffer.slice(0, this.length);
+  }
+
+  private byte(value: number) {
+    if (this.length === this.buffer.length) {
+      const grown = new Uint8Array(this.buffer.length * 2);
+      grown.set(this.buffer);
+      this.buffer = grown;
+    }
+    this.buffer[this.length++] = value;
+  }
+}
+
+const SIGNATURE = 0x2f;
+const MAX_DIMENSION = 1 << 14;
+const SUBTRACT_GREEN = 2;
+const LENGTH_PREFIXES = 24;
+const DISTANCE_PREFIXES = 40;
+const MAX_CODE_LENGTH = 15;
+const MAX_LENGTH_CODE_LENGTH = 7;
+const CODE_LENGTH_ORDER = [17, 18, 0, 1, 2, 3, 4, 5, 16, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15];
+const MIN_MATCH = 3;
+const MAX_MATCH = 4096;
+// Distance codes for the pixel above and the previous pixel (the first two
+// entries of the spec's neighbourhood table).
+const DISTANCE_CODE_ABOVE = 1;
+const DISTANCE_CODE_PREVIOUS = 2;
+
+type PrefixCode = {
+  // Code lengths as stored in the header.
+  lengths: number[];
+  codes: number[];
+  // Bits written per symbol: none when the code has a single symbol.
+  sizes: number[];
+};
+
+// Huffman code lengths no longer than `limit`. Counts are halved until the
+// tree fits, which keeps the code complete as decoders require.
+const codeLengths = (counts: number[], limit: number): number[] => {
+  let weights = counts;
+  for (;;) {
+    const lengths = counts.map(() => 0);
+    const nodes = weights
+      .map((weight, symbol) => ({ weight, symbols: [symbol] }))
+      .filter((node) => node.weight > 0);
+    if (nodes.length === 1) {
+      lengths[nodes[0].symbols[0]] = 1;
+      return lengths;
+    }
+    while (nodes.length > 1) {
+      nodes.sort((a, b) => a.weight - b.weight);
+      const [a, b] = nodes.splice(0, 2);
+      const symbols = a.symbols.concat(b.symbols);
+      symbols.forEach((symbol) => lengths[symbol]++);
+      nodes.push({ weight: a.weight + b.weight, symbols });
+    }
+    if (Math.max(...lengths) <= limit) {
+      return lengths;
+    }
+    weights = weights.map((weight) => (weight > 0 ? Math.max(1, weight >> 1) : 0));
+  }
+};
+
+const reverseBits = (value: number, count: number) => {
+  let reversed = 0;
+  for (let i = 0; i < count; i++) {
+    reversed = (reversed << 1) | ((value >> i) & 1);
+  }
+  return reversed;
+};
+
+// Canonical codes, bit-reversed because the stream is read LSB first.
+const buildPrefixCode = (counts: number[], limit: number): PrefixCode => {
+  const lengths = codeLengths(counts, limit);
+  const codes = lengths.map(() => 0);
+  if (lengths.filter((length) => length > 0).length <= 1) {
+    return { lengths, codes, sizes: codes };
+  }
+  let code = 0;
+  for (let length = 1; length <= limit; length++) {
+    lengths.forEach((symbolLength, symbol) => {
+      if (symbolLength === length) {
+        codes[symbol] = reverseBits(code++, length);
+      }
+    });
+    code <<= 1;
+  }
+  return { lengths, codes, sizes: lengths };
+};
+
+const writeSymbol = (out: BitWriter, code: PrefixCode, symbol: number) =>
+  out.write(code.codes[symbol], code.sizes[symbol]);
+
+// Runs of zero lengths use codes 17 (3-10) and 18 (11-138); everything else is
+// written literally.
+const tokenizeLengths = (lengths: number[]) => {
+  const tokens: { symbol: number; extra: number; extraBits: number }[] = [];
+  for (let i = 0; i < lengths.length; ) {
+    let run = 0;
+    while (lengths[i + run] === 0 && i + run < lengths.length && run < 138) {
+      run++;
+    }
+    if (run >= 11) {
+      tokens.push({ symbol: 18, extra: run - 11, extraBits: 7 });
+    } else if (run >= 3) {
+      tokens.push({ symbol: 17, extra: run - 3, extraBits: 3 });
+    } else {
+      tokens.push({ symbol: lengths[i], extra: 0, extraBits: 0 });
+      run = 1;
+    }
+    i += run;
+  }
+  return tokens;
+};
+
+const writePrefixCode = (out: BitWriter, counts: number[]): PrefixCode => {
+  const used = counts.flatMap((count, symbol) => (count > 0 ? [symbol] : []));
+  if (used.length <= 1) {
+    // Simple code with one symbol (or symbol 0 for an unused alphabet).
+    const symbol = used[0] ?? 0;
+    out.write(1, 1);
+    out.write(0, 1);
+    if (symbol < 2) {
+      out.write(0, 1);
+      out.write(symbol, 1);
+    } else {
+      out.write(1, 1);
+      out.write(symbol, 8);
+    }
+    return buildPrefixCode(counts, MAX_CODE_LENGTH);
+  }
+
+  const code = buildPrefixCode(counts, MAX_CODE_LENGTH);
+  const tokens = tokenizeLengths(code.lengths);
+  const tokenCounts = CODE_LENGTH_ORDER.map(() => 0);
+  tokens.forEach((token) => tokenCounts[token.symbol]++);
+  const lengthCode = buildPrefixCode(tokenCounts, MAX_LENGTH_CODE_LENGTH);
+
+  let written = CODE_LENGTH_ORDER.length;
+  while (written > 4 && lengthCode.lengths[CODE_LENGTH_ORDER[written - 1]] === 0) {
+    written--;
+  }
+  out.write(0, 1);
+  out.write(written - 4, 4);
+  for (let i = 0; i < written; i++) {
+    out.write(lengthCode.lengths[CODE_LENGTH_ORDER[i]], 3);
+  }
+  out.write(0, 1); // lengths cover the whole alphabet
+  for (const token of tokens) {
+    writeSymbol(out, lengthCode, token.symbol);
+    out.write(token.extra, token.extraBits);
+  }
+  return code;
+};
+
+// LZ77 prefix coding of a length or distance code (1-based).
+const prefixOf = (value: number) => {
+  const offset = value - 1;
+  if (offset < 4) {
+    return { prefix: offset, extra: 0, extraBits: 0 };
+  }
+  const highest = 31 - Math.clz32(offset);
+  const second = (offset >> (highest - 1)) & 1;
+  const extraBits = highest - 1;
+  return { prefix: 2 * highest + second, extra: offset & ((1 << extraBits) - 1), extraBits };
+};
+
+const matchLength = (argb: Uint32Array, index: number, distance: number) => {
+  const limit = Math.min(MAX_MATCH, argb.length - index);
+  let length = 0;
+  while (length < limit && argb[index + length] === argb[index + length - distance]) {
+    length++;
+  }
+  return length;
+};
+
+const riffWrap = (vp8l: Uint8Array) => {
+  const padded = vp8l.length + (vp8l.length & 1);
+  const out = new Uint8Array(20 + padded);
+  const view = new DataView(out.buffer);
+  out.set([0x52, 0x49, 0x46, 0x46], 0);
+  view.setUint32(4, 12 + padded, true);
+  out.set([0x57, 0x45, 0x42, 0x50, 0x56, 0x50, 0x38, 0x4c], 8);
+  view.setUint32(16, vp8l.length, true);
+  out.set(vp8l, 20);
+  return out;
+};
+
+// Encodes straight-alpha RGBA pixels (as from getImageData) as a still WebP.
+export const encodeWebPLossless = (pixels: Uint8ClampedArray, width: number, height: number): Uint8Array => {
+  if (width < 1 || height < 1 || width > MAX_DIMENSION || height > MAX_DIMENSION) {
+    throw new Error("WEBP_DIMENSIONS_INVALID");
+  }
+
+  const count = width * height;
+  const argb = new Uint32Array(count);
+  let hasAlpha = false;
+  for (let i = 0; i < count; i++) {
+    const r = pixels[i * 4];
+    const g = pixels[i * 4 + 1];
+    const b = pixels[i * 4 + 2];
+    const a = pixels[i * 4 + 3];
+    hasAlpha ||= a !== 255;
+    argb[i] = ((a << 24) | (((r - g) & 0xff) << 16) | (g << 8) | ((b - g) & 0xff)) >>> 0;
+  }
+
+  // Greedy parse: the longer of the runs matching the previous pixel or the
+  // row above, otherwise a literal. `lengths` is 0 for literals.
+  const lengths = new Uint16Array(count);
+  const distanceCodes = new Uint8Array(count);
+  const green = new Array(256 + LENGTH_PREFIXES).fill(0);
+  const red = new Array(256).fill(0);
+  const blue = new Array(256).fill(0);
+  const alpha = new Array(256).fill(0);
+  const distance = new Array(DISTANCE_PREFIXES).fill(0);
+  let tokens = 0;
+  for (let i = 0; i < count; ) {
+    const previous = i >= 1 ? matchLength(argb, i, 1) : 0;
+    const above = i >= width ? matchLength(argb, i, width) : 0;
+    const length = Math.max(previous, above);
+    if (length >= MIN_MATCH) {
+      const code = above >= previous ? DISTANCE_CODE_ABOVE : DISTANCE_CODE_PREVIOUS;
+      lengths[tokens] = length;
+      distanceCodes[tokens] = code;
+      green[256 + prefixOf(length).prefix]++;
+      distance[prefixOf(code).prefix]++;
+      i += length;
+    } else {
+      lengths[tokens] = 0;
+      distanceCodes[tokens] = 0;
+      green[(argb[i] >> 8) & 0xff]++;
+      red[(argb[i] >> 16) & 0xff]++;
+      blue[argb[i] & 0xff]++;
+      alpha[argb[i] >>> 24]++;
+      i += 1;
+    }
+    tokens++;
+  }
+
+  const out = new BitWriter();
+  out.write(SIGNATURE, 8);
+  out.write(width - 1, 14);
+  out.write(height - 1, 14);
+  out.write(hasAlpha ? 1 : 0, 1);
+  out.write(0, 3); // version
+  out.write(1, 1);
+  out.write(SUBTRACT_GREEN, 2);
+  out.write(0, 1); // no further transforms
+  out.write(0, 1); // no colour cache
+  out.write(0, 1); // one prefix code group
+
+  const codes = [green, red, blue, alpha, distance].map((counts) => writePrefixCode(out, counts));
+  const [greenCode, redCode, blueCode, alphaCode, distanceCode] = codes;
+
+  for (let token = 0, i = 0; token < tokens; token++) {
+    const length = lengths[token];
+    if (length === 0) {
+      writeSymbol(out, greenCode, (argb[i] >> 8) & 0xff);
+      writeSymbol(out, redCode, (argb[i] >> 16) & 0xff);
+      writeSymbol(out, blueCode, argb[i] & 0xff);
+      writeSymbol(out, alphaCode, argb[i] >>> 24);
+      i += 1;
+      continue;
+    }
+    const lengthPrefix = prefixOf(length);
+    writeSymbol(out, greenCode, 256 + lengthPrefix.prefix);
+    out.write(lengthPrefix.extra, lengthPrefix.extraBits);
+    const distancePrefix = prefixOf(distanceCodes[token]);
+    writeSymbol(out, distanceCode, distancePrefix.prefix);
+    out.write(distancePrefix.extra, distancePrefix.extraBits);
+    i += length;
+  }
+
+  return riffWrap(out.toBytes());
+};
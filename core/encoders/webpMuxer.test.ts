@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { encodeWebPLossless } from "./webpLossless";
+import { muxAnimatedWebP } from "./webpMuxer";
+
+type Chunk = { fourcc: string; offset: number; payload: Uint8Array };
+
+const readChunks = (bytes: Uint8Array, start: number, end: number): Chunk[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: Chunk[] = [];
+  for (let offset = start; offset < end; ) {
+    const size = view.getUint32(offset + 4, true);
+    chunks.push({
+      fourcc: String.fromCharCode(...bytes.subarray(offset, offset + 4)),
+      offset,
+      payload: bytes.subarray(offset + 8, offset + 8 + size)
+    });
+    offset += 8 + size + (size & 1);
+  }
+  expect(chunks.reduce((sum, chunk) => sum + 8 + chunk.payload.length + (chunk.payload.length & 1), 0)).toBe(end - start);
+  return chunks;
+};
+
+const uint24 = (bytes: Uint8Array, offset: number) => bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16);
+
+const still = (width: number, height: number, shade: number) => {
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < pixels.length; i += 4) {
+    pixels.set([shade, (i / 4) & 0xff, 255 - shade, 255], i);
+  }
+  return encodeWebPLossless(pixels, width, height);
+};
+
+describe("muxAnimatedWebP", () => {
+  // Odd sizes make some chunks need a padding byte.
+  const frames = [still(7, 5, 0), still(7, 5, 90), still(7, 5, 180)];
+  const animated = muxAnimatedWebP(
+    frames.map((data, i) => ({ data, durationMs: 40 + i * 10.4 })),
+    7,
+    5
+  );
+
+  it("writes a RIFF container sized to its chunks", () => {
+    const view = new DataView(animated.buffer);
+    expect(String.fromCharCode(...animated.subarray(0, 4))).toBe("RIFF");
+    expect(view.getUint32(4, true)).toBe(animated.length - 8);
+    expect(String.fromCharCode(...animated.subarray(8, 12))).toBe("WEBP");
+    expect(readChunks(animated, 12, animated.length).map((chunk) => chunk.fourcc)).toEqual(["VP8X", "ANIM", "ANMF", "ANMF", "ANMF"]);
+  });
+
+  it("flags animation and alpha and records the canvas size", () => {
+    const [vp8x, anim] = readChunks(animated, 12, animated.length);
+    expect(vp8x.payload.length).toBe(10);
+    expect(vp8x.payload[0]).toBe(0x12);
+    expect(uint24(vp8x.payload, 4) + 1).toBe(7);
+    expect(uint24(vp8x.payload, 7) + 1).toBe(5);
+    expect([...anim.payload]).toEqual([0, 0, 0, 0, 0, 0]);
+  });
+
+  it("wraps each frame's image chunk in an ANMF chunk", () => {
+    const anmf = readChunks(animated, 12, animated.length).slice(2);
+    anmf.forEach((chunk, i) => {
+      expect(uint24(chunk.payload, 0)).toBe(0);
+      expect(uint24(chunk.payload, 3)).toBe(0);
+      expect(uint24(chunk.payload, 6) + 1).toBe(7);
+      expect(uint24(chunk.payload, 9) + 1).toBe(5);
+      expect(uint24(chunk.payload, 12)).toBe(Math.round(40 + i * 10.4));
+      expect(chunk.payload[15]).toBe(0x02);
+
+      const [image] = readChunks(chunk.payload, 16, chunk.payload.length);
+      const [source] = readChunks(frames[i], 12, frames[i].length);
+      expect(image.fourcc).toBe("VP8L");
+      expect(image.payload).toEqual(source.payload);
+    });
+  });
+
+  it("rejects empty and malformed input", () => {
+    expect(() => muxAnimatedWebP([], 1, 1)).toThrow("WEBP_NO_FRAMES");
+    expect(() => muxAnimatedWebP([{ data: new Uint8Array(12), durationMs: 40 }], 1, 1)).toThrow("WEBP_FRAME_INVALID");
+  });
+});
@@ -0,0 +1,106 @@
+// Assembles still WebP images (as produced by encodeWebPLossless) into one
+// animated WebP: RIFF > VP8X + ANIM + one ANMF chunk per frame.
+
+export type WebPFrame = {
+  data: Uint8Array;
+  durationMs: number;
+};
+
+type RiffChunk = {
+  fourcc: string;
+  payload: Uint8Array;
+};
+
+const fourcc = (bytes: Uint8Array, offset: number) =>
+  String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]);
+
+const readChunks = (webp: Uint8Array): RiffChunk[] => {
+  if (webp.length < 12 || fourcc(webp, 0) !== "RIFF" || fourcc(webp, 8) !== "WEBP") {
+    throw new Error("WEBP_FRAME_INVALID");
+  }
+  const view = new DataView(webp.buffer, webp.byteOffset, webp.byteLength);
+  const chunks: RiffChunk[] = [];
+  let offset = 12;
+  while (offset + 8 <= webp.length) {
+    const size = view.getUint32(offset + 4, true);
+    chunks.push({ fourcc: fourcc(webp, offset), payload: webp.subarray(offset + 8, offset + 8 + size) });
+    offset += 8 + size + (size & 1);
+  }
+  return chunks;
+};
+
+const chunkLength = (payloadLength: number) => 8 + payloadLength + (payloadLength & 1);
+
+const writeChunk = (out: Uint8Array, offset: number, id: string, payload: Uint8Array) => {
+  const view = new DataView(out.buffer);
+  for (let i = 0; i < 4; i++) {
+    out[offset + i] = id.charCodeAt(i);
+  }
+  view.setUint32(offset + 4, payload.length, true);
+  out.set(payload, offset + 8);
+  return offset + chunkLength(payload.length);
+};
+
+const uint24 = (target: Uint8Array, offset: number, value: number) => {
+  target[offset] = value & 0xff;
+  target[offset + 1] = (value >> 8) & 0xff;
+  target[offset + 2] = (value >> 16) & 0xff;
+};
+
+const concatChunks = (chunks: RiffChunk[]) => {
+  const out = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunkLength(chunk.payload.length), 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    offset = writeChunk(out, offset, chunk.fourcc, chunk.payload);
+  }
+  return out;
+};
+
+export const muxAnimatedWebP = (frames: WebPFrame[], width: number, height: number): Uint8Array => {
+  if (frames.length === 0) {
+    throw new Error("WEBP_NO_FRAMES");
+  }
+
+  let hasAlpha = false;
+  const anmf = frames.map((frame) => {
+    // Only image data (ALPH/VP8/VP8L) belongs inside ANMF; drop any VP8X/metadata.
+    const imageChunks = readChunks(frame.data).filter((chunk) => ["ALPH", "VP8 ", "VP8L"].includes(chunk.fourcc));
+    if (!imageChunks.some((chunk) => chunk.fourcc === "VP8 " || chunk.fourcc === "VP8L")) {
+      throw new Error("WEBP_FRAME_INVALID");
+    }
+    hasAlpha ||= imageChunks.some((chunk) => chunk.fourcc === "ALPH" || chunk.fourcc === "VP8L");
+
+    const body = concatChunks(imageChunks);
+    const payload = new Uint8Array(16 + body.length);
+    uint24(payload, 0, 0);
+    uint24(payload, 3, 0);
+    uint24(payload, 6, width - 1);
+    uint24(payload, 9, height - 1);
+    uint24(payload, 12, Math.max(1, Math.round(frame.durationMs)));
+    payload[15] = 0x02; // no blending, no disposal
+    payload.set(body, 16);
+    return payload;
+  });
+
+  const vp8x = new Uint8Array(10);
+  vp8x[0] = 0x02 | (hasAlpha ? 0x10 : 0);
+  uint24(vp8x, 4, width - 1);
+  uint24(vp8x, 7, height - 1);
+
+  const anim = new Uint8Array(6); // transparent background, infinite loop
+
+  const bodyLength =
+    4 + chunkLength(vp8x.length) + chunkLength(anim.length) + anmf.reduce((sum, payload) => sum + chunkLength(payload.length), 0);
+  const out = new Uint8Array(8 + bodyLength);
+  const view = new DataView(out.buffer);
+  out.set([0x52, 0x49, 0x46, 0x46], 0);
+  view.setUint32(4, bodyLength, true);
+  out.set([0x57, 0x45, 0x42, 0x50], 8);
+
+  let offset = writeChunk(out, 12, "VP8X", vp8x);
+  offset = writeChunk(out, offset, "ANIM", anim);
+  for (const payload of anmf) {
+    offset = writeChunk(out, offset, "ANMF", payload);
+  }
+  return out;
+};
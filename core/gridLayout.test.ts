@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import {
+  cellBackgroundPosition,
+  createGridLayout,
+  frameAngle,
+  isGridLayoutId,
+  parseGridLayoutId,
+  resolveFrame
+} from "./gridLayout";
+
+describe("resolveFrame", () => {
+  const layout = createGridLayout(4, 2);
+
+  it("lands exactly on a cell at its nominal angle", () => {
+    for (let i = 0; i < layout.frames; i++) {
+      expect(resolveFrame(layout, frameAngle(layout, i))).toEqual({
+        index: i,
+        next: (i + 1) % layout.frames,
+        progress: 0
+      });
+    }
+  });
+
+  it("cross-fades linearly between neighbouring cells", () => {
+    expect(resolveFrame(layout, 45 * 2.25)).toEqual({ index: 2, next: 3, progress: expect.closeTo(0.25) });
+  });
+
+  it("wraps the last cell onto the first", () => {
+    const result = resolveFrame(layout, 350);
+    expect(result.index).toBe(7);
+    expect(result.next).toBe(0);
+  });
+
+  it("normalizes negative and multi-turn yaw", () => {
+    expect(resolveFrame(layout, -45)).toEqual(resolveFrame(layout, 315));
+    expect(resolveFrame(layout, 720 + 90)).toEqual(resolveFrame(layout, 90));
+  });
+
+  it("honours start angle and direction", () => {
+    const reversed = createGridLayout(4, 2, { startAngle: 90, direction: -1 });
+    expect(resolveFrame(reversed, 90).index).toBe(0);
+    expect(resolveFrame(reversed, 45).index).toBe(1);
+    expect(frameAngle(reversed, 1)).toBe(45);
+  });
+
+  it("only addresses the frames in use on a partial sheet", () => {
+    const partial = createGridLayout(4, 4, { frames: 12 });
+    expect(resolveFrame(partial, 359.9).index).toBe(11);
+    expect(resolveFrame(partial, 359.9).next).toBe(0);
+  });
+});
+
+describe("cellBackgroundPosition", () => {
+  it("maps corner cells to the background-position extremes", () => {
+    const layout = createGridLayout(4, 2);
+    expect(cellBackgroundPosition(layout, 0)).toEqual({ x: 0, y: 0 });
+    expect(cellBackgroundPosition(layout, 3)).toEqual({ x: 100, y: 0 });
+    expect(cellBackgroundPosition(layout, 4)).toEqual({ x: 0, y: 100 });
+    expect(cellBackgroundPosition(layout, 7)).toEqual({ x: 100, y: 100 });
+  });
+
+  it("spaces interior cells evenly", () => {
+    const layout = createGridLayout(6, 4);
+    expect(cellBackgroundPosition(layout, 8)).toEqual({ x: 40, y: expect.closeTo(100 / 3) });
+  });
+
+  it("does not divide by zero on a single row or column", () => {
+    expect(cellBackgroundPosition(createGridLayout(8, 1), 5)).toEqual({ x: expect.closeTo(500 / 7), y: 0 });
+    expect(cellBackgroundPosition(createGridLayout(1, 3), 2)).toEqual({ x: 0, y: 100 });
+  });
+});
+
+describe("grid layout ids", () => {
+  it("parses COLUMNSxROWS", () => {
+    expect(parseGridLayoutId("6x4")).toEqual({ columns: 6, rows: 4 });
+    expect(isGridLayoutId("4x2")).toBe(true);
+  });
+
+  it("rejects malformed or empty grids", () => {
+    expect(parseGridLayoutId("0x4")).toBeNull();
+    expect(parseGridLayoutId("4by2")).toBeNull();
+    expect(isGridLayoutId(42)).toBe(false);
+  });
+});
@@ -0,0 +1,99 @@
+import { GridLayout, GridLayoutId } from "../types";
+
+export const CELL_SIZE = 256;
+
+export const createGridLayout = (
+  columns: number,
+  rows: number,
+  options: Partial<Pick<GridLayout, "frames" | "startAngle" | "direction">> = {}
+): GridLayout => ({
+  id: `${columns}x${rows}`,
+  columns,
+  rows,
+  frames: Math.min(options.frames ?? columns * rows, columns * rows),
+  startAngle: options.startAngle ?? 0,
+  direction: options.direction ?? 1
+});
+
+export const GRID_LAYOUTS: Record<string, GridLayout> = {
+  "4x2": createGridLayout(4, 2),
+  "4x4": createGridLayout(4, 4),
+  "6x4": createGridLayout(6, 4)
+};
+
+export const DEFAULT_GRID_LAYOUT = GRID_LAYOUTS["4x2"];
+
+export const parseGridLayoutId = (id: string): { columns: number; rows: number } | null => {
+  const match = /^(\d+)x(\d+)$/.exec(id);
+  if (!match) {
+    return null;
+  }
+  const columns = Number(match[1]);
+  const rows = Number(match[2]);
+  return columns > 0 && rows > 0 ? { columns, rows } : null;
+};
+
+export const isGridLayoutId = (id: unknown): id is GridLayoutId =>
+  typeof id === "string" && parseGridLayoutId(id) !== null;
+
+export const sheetSize = (layout: GridLayout) => ({
+  width: layout.columns * CELL_SIZE,
+  height: layout.rows * CELL_SIZE
+});
+
+export const cellPosition = (layout: GridLayout, index: number) => ({
+  column: index % layout.columns,
+  row: Math.floor(index / layout.columns)
+});
+
+// CSS background-position (percent) that shows the given cell when the sheet is
+// scaled to columns x rows of the element.
+export const cellBackgroundPosition = (layout: GridLayout, index: number) => {
+  const { column, row } = cellPosition(layout, index);
+  return {
+    x: layout.columns > 1 ? (column / (layout.columns - 1)) * 100 : 0,
+    y: layout.rows > 1 ? (row / (layout.rows - 1)) * 100 : 0
+  };
+};
+
+// Yaw (degrees) shown by the given cell.
+export const frameAngle = (layout: GridLayout, index: number) => {
+  const angle = layout.startAngle + layout.direction * (index * 360) / layout.frames;
+  return ((angle % 360) + 360) % 360;
+};
+
+// Yaw (degrees) of the cell nearest `yawDegrees`, left unwrapped so it is
+// never more than half a cell away and can be eased towards directly.
+export const nearestFrameYaw = (layout: GridLayout, yawDegrees: number) => {
+  const step = 360 / layout.frames;
+  return layout.startAngle + Math.round((yawDegrees - layout.startAngle) / step) * step;
+};
+
+// Maps a yaw in degrees to the pair of cells to cross-fade between.
+export const resolveFrame = (layout: GridLayout, yawDegrees: number) => {
+  const relative = (yawDegrees - layout.startAngle) * layout.direction;
+  const normalized = ((relative % 360) + 360) % 360;
+  const rawFrame = (normalized / 360) * layout.frames;
+  const index = Math.floor(rawFrame) % layout.frames;
+  return {
+    index,
+    next: (index + 1) % layout.frames,
+    progress: rawFrame - Math.floor(rawFrame)
+  };
+};
+
+const VIEW_NAMES = [
+  "FRONT",
+  "FRONT-RIGHT",
+  "RIGHT PROFILE",
+  "BACK-RIGHT",
+  "BACK",
+  "BACK-LEFT",
+  "LEFT PROFILE",
+  "FRONT-LEFT"
+];
+
+export const describeViewAngle = (angle: number) => {
+  const octant = Math.round((((angle % 360) + 360) % 360) / 45) % 8;
+  return VIEW_NAMES[octant];
+};
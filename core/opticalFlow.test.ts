@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { createGridLayout } from "./gridLayout";
+import { FLOW_GRID, computeFlowField, sampleFlow, updateFlowField } from "./opticalFlow";
+import { sampleOrbitalPixel } from "./orbitalSampler";
+import { PixelBuffer } from "./spriteAlignment";
+
+const CELL = 64;
+const STEP = 4;
+
+// Matted 4x2 sheet (transparent backdrop) with a grey 16px square that moves
+// STEP pixels right every frame.
+const movingSquare = (): PixelBuffer => {
+  const layout = createGridLayout(4, 2);
+  const width = layout.columns * CELL;
+  const height = layout.rows * CELL;
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let frame = 0; frame < layout.frames; frame++) {
+    const originX = (frame % layout.columns) * CELL + 20 + STEP * frame;
+    const originY = Math.floor(frame / layout.columns) * CELL + 24;
+    for (let y = originY; y < originY + 16; y++) {
+      for (let x = originX; x < originX + 16; x++) {
+        // Shaded so the block matcher has texture to lock on to.
+        data.set([80 + (x - originX) * 8, 120, 160 - (y - originY) * 6, 255], (y * width + x) * 4);
+      }
+    }
+  }
+  return { width, height, data };
+};
+
+describe("computeFlowField", () => {
+  const layout = createGridLayout(4, 2);
+
+  it("stores FLOW_GRID vectors per cell", () => {
+    const flow = computeFlowField(movingSquare(), layout);
+    expect(flow.width).toBe(4 * FLOW_GRID);
+    expect(flow.height).toBe(2 * FLOW_GRID);
+  });
+
+  it("finds the object's motion towards the next frame", () => {
+    const flow = computeFlowField(movingSquare(), layout);
+    for (const frame of [0, 3, 5]) {
+      const centre = sampleFlow(flow, layout, frame, (28 + STEP * frame) / CELL, 32 / CELL);
+      expect(centre.x).toBeCloseTo(STEP / CELL, 2);
+      expect(centre.y).toBeCloseTo(0, 2);
+    }
+  });
+
+  it("leaves the empty backdrop still", () => {
+    const flow = computeFlowField(movingSquare(), layout);
+    expect(sampleFlow(flow, layout, 0, 0.95, 0.95)).toEqual({ x: 0, y: 0 });
+  });
+});
+
+describe("updateFlowField", () => {
+  const layout = createGridLayout(4, 2);
+
+  it("recomputes only the cells leading into and out of changed frames", () => {
+    const flow = computeFlowField(movingSquare(), layout);
+    const changed = movingSquare();
+    // Empty frame 5 (column 1, row 1).
+    for (let y = CELL; y < 2 * CELL; y++) {
+      changed.data.fill(0, (y * changed.width + CELL) * 4, (y * changed.width + 2 * CELL) * 4);
+    }
+
+    const before = new Uint8ClampedArray(flow.data);
+    const updated = updateFlowField(flow, changed, layout, [5]);
+    expect(updated.data).toEqual(computeFlowField(changed, layout).data);
+    expect(flow.data).toEqual(before);
+    expect(sampleFlow(updated, layout, 4, (28 + STEP * 4) / CELL, 32 / CELL).x).not.toBeCloseTo(STEP / CELL, 2);
+    expect(sampleFlow(updated, layout, 3, (28 + STEP * 3) / CELL, 32 / CELL).x).toBeCloseTo(STEP / CELL, 2);
+  });
+});
+
+describe("flow interpolation", () => {
+  const layout = createGridLayout(4, 2);
+  const selection = { frame: 0, next: 1, frameBlend: 0.5, ringLower: 0, ringUpper: 0, ringBlend: 0 };
+
+  it("moves the object halfway instead of ghosting both frames", () => {
+    const sheet = movingSquare();
+    const flow = computeFlowField(sheet, layout);
+    // Just inside the right edge of the in-between square (x 22-38), covered
+    // only by frame 1 without flow.
+    const u = 37.5 / CELL;
+    const v = 1 - 32 / CELL;
+
+    expect(sampleOrbitalPixel([sheet], layout, selection, u, v)[3]).toBeCloseTo(127.5);
+    // Within 8-bit flow quantisation of fully covered.
+    expect(sampleOrbitalPixel([sheet], layout, selection, u, v, [flow])[3]).toBeGreaterThan(250);
+  });
+
+  it("cross-fades when a ring has no flow field", () => {
+    const sheet = movingSquare();
+    const flow = computeFlowField(sheet, layout);
+    const blended = { ...selection, ringUpper: 1, ringBlend: 0.5 };
+    expect(sampleOrbitalPixel([sheet, sheet], layout, blended, 37.5 / CELL, 0.5, [flow])).toEqual(
+      sampleOrbitalPixel([sheet, sheet], layout, blended, 37.5 / CELL, 0.5)
+    );
+  });
+});
@@ -0,0 +1,307 @@
+import { GridLayout } from "../types";
+import { cellPosition } from "./gridLayout";
+import { PixelBuffer } from "./spriteAlignment";
+
+// Coarse motion between each grid cell and the next frame (frame + 1, the pair
+// the viewers blend), found by block matching and stored as a small RGBA "flow
+// texture" laid out on the same grid as the sheet:
+// - every cell holds FLOW_GRID x FLOW_GRID vectors;
+// - R and G are x and y motion (y down, in cell widths/heights), encoded as
+//   128 + 127 * motion / FLOW_RANGE; B is unused and A is opaque.
+
+export const FLOW_GRID = 8;
+// Largest encodable motion, in cells.
+export const FLOW_RANGE = 0.5;
+
+export type FlowOptions = {
+  // Cells are matched after resampling to this many pixels square.
+  analysisSize: number;
+  // Side in analysis pixels of the block matched around each vector.
+  blockSize: number;
+  // Largest motion searched, in analysis pixels.
+  searchRadius: number;
+};
+
+export const DEFAULT_FLOW_OPTIONS: FlowOptions = {
+  analysisSize: 64,
+  blockSize: 12,
+  searchRadius: 20
+};
+
+export type FlowVector = { x: number; y: number };
+
+// Refinement window around the upsampled coarse match.
+const REFINE_RADIUS = 2;
+// Blocks with less total alpha (0-1 per pixel) than this share of their area
+// are empty and take their motion from their neighbours.
+const EMPTY_COVERAGE = 0.02;
+const FILL_PASSES = 2;
+
+// Two interleaved channels per pixel: premultiplied luma and alpha, both 0-1.
+type Features = { size: number; data: Float32Array };
+
+// Box-resamples one cell of a straight-alpha sheet (see alphaMatte) to features.
+const cellFeatures = (sheet: PixelBuffer, layout: GridLayout, frame: number, size: number): Features => {
+  const { column, row } = cellPosition(layout, frame);
+  const x0 = Math.round((column * sheet.width) / layout.columns);
+  const x1 = Math.round(((column + 1) * sheet.width) / layout.columns);
+  const y0 = Math.round((row * sheet.height) / layout.rows);
+  const y1 = Math.round(((row + 1) * sheet.height) / layout.rows);
+  const data = new Float32Array(size * size * 2);
+
+  for (let y = 0; y < size; y++) {
+    const sy0 = y0 + Math.floor((y * (y1 - y0)) / size);
+    const sy1 = Math.max(sy0 + 1, y0 + Math.floor(((y + 1) * (y1 - y0)) / size));
+    for (let x = 0; x < size; x++) {
+      const sx0 = x0 + Math.floor((x * (x1 - x0)) / size);
+      const sx1 = Math.max(sx0 + 1, x0 + Math.floor(((x + 1) * (x1 - x0)) / size));
+      let luma = 0;
+      let alpha = 0;
+      for (let sy = sy0; sy < sy1; sy++) {
+        for (let sx = sx0; sx < sx1; sx++) {
+          const offset = (sy * sheet.width + sx) * 4;
+          const a = sheet.data[offset + 3] / 255;
+          luma += ((0.299 * sheet.data[offset] + 0.587 * sheet.data[offset + 1] + 0.114 * sheet.data[offset + 2]) / 255) * a;
+          alpha += a;
+        }
+      }
+      const count = (sy1 - sy0) * (sx1 - sx0);
+      data[(y * size + x) * 2] = luma / count;
+      data[(y * size + x) * 2 + 1] = alpha / count;
+    }
+  }
+  return { size, data };
+};
+
+const halve = ({ size, data }: Features): Features => {
+  const half = Math.max(1, Math.floor(size / 2));
+  const out = new Float32Array(half * half * 2);
+  for (let y = 0; y < half; y++) {
+    for (let x = 0; x < half; x++) {
+      for (let c = 0; c < 2; c++) {
+        const at = (px: number, py: number) => data[(Math.min(size - 1, py) * size + Math.min(size - 1, px)) * 2 + c];
+        out[(y * half + x) * 2 + c] =
+          (at(2 * x, 2 * y) + at(2 * x + 1, 2 * y) + at(2 * x, 2 * y + 1) + at(2 * x + 1, 2 * y + 1)) / 4;
+      }
+    }
+  }
+  return { size: half, data: out };
+};
+
+// Outside the cell counts as transparent, like the matted backdrop.
+const feature = ({ size, data }: Features, x: number, y: number, c: number) =>
+  x < 0 || y < 0 || x >= size || y >= size ? 0 : data[(y * size + x) * 2 + c];
+
+const coverage = (features: Features, cx: number, cy: number, half: number) => {
+  let sum = 0;
+  for (let y = cy - half; y < cy + half; y++) {
+    for (let x = cx - half; x < cx + half; x++) {
+      sum += feature(features, x, y, 1);
+    }
+  }
+  return sum;
+};
+
+// Displacement of the block centred on (cx, cy) in `from` that best matches
+// `to`, searched within `radius` of the guess. Ties go to the smaller motion.
+const matchBlock = (
+  from: Features,
+  to: Features,
+  cx: number,
+  cy: number,
+  half: number,
+  guess: FlowVector,
+  radius: number
+): FlowVector => {
+  let best = guess;
+  let bestCost = Infinity;
+  for (let dy = guess.y - radius; dy <= guess.y + radius; dy++) {
+    for (let dx = guess.x - radius; dx <= guess.x + radius; dx++) {
+      let cost = (dx * dx + dy * dy) * 1e-4;
+      for (let y = cy - half; y < cy + half && cost < bestCost; y++) {
+        for (let x = cx - half; x < cx + half; x++) {
+          cost +=
+            Math.abs(feature(from, x, y, 0) - feature(to, x + dx, y + dy, 0)) +
+            Math.abs(feature(from, x, y, 1) - feature(to, x + dx, y + dy, 1));
+        }
+      }
+      if (cost < bestCost) {
+        bestCost = cost;
+        best = { x: dx, y: dy };
+      }
+    }
+  }
+  return best;
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+// Motion of each block of `frame` towards the next frame, in cells (y down).
+// Empty blocks are null.
+const blockMotion = (from: Features, to: Features, options: FlowOptions): (FlowVector | null)[] => {
+  const coarseFrom = halve(from);
+  const coarseTo = halve(to);
+  const half = Math.max(1, Math.round(options.blockSize / 2));
+  const vectors: (FlowVector | null)[] = [];
+
+  for (let by = 0; by < FLOW_GRID; by++) {
+    for (let bx = 0; bx < FLOW_GRID; bx++) {
+      const cx = Math.round(((bx + 0.5) * from.size) / FLOW_GRID);
+      const cy = Math.round(((by + 0.5) * from.size) / FLOW_GRID);
+      if (coverage(from, cx, cy, half) < EMPTY_COVERAGE * 4 * half * half) {
+        vectors.push(null);
+        continue;
+      }
+      const coarse = matchBlock(
+        coarseFrom,
+        coarseTo,
+        Math.round(cx / 2),
+        Math.round(cy / 2),
+        Math.max(1, Math.round(half / 2)),
+        { x: 0, y: 0 },
+        Math.ceil(options.searchRadius / 2)
+      );
+      const fine = matchBlock(from, to, cx, cy, half, { x: coarse.x * 2, y: coarse.y * 2 }, REFINE_RADIUS);
+      vectors.push({ x: fine.x / from.size, y: fine.y / from.size });
+    }
+  }
+
+  const neighbours = (index: number, field: (FlowVector | null)[]) => {
+    const bx = index % FLOW_GRID;
+    const by = Math.floor(index / FLOW_GRID);
+    const found: FlowVector[] = [];
+    for (let y = Math.max(0, by - 1); y <= Math.min(FLOW_GRID - 1, by + 1); y++) {
+      for (let x = Math.max(0, bx - 1); x <= Math.min(FLOW_GRID - 1, bx + 1); x++) {
+        const vector = field[y * FLOW_GRID + x];
+        if (vector) {
+          found.push(vector);
+        }
+      }
+    }
+    return found;
+  };
+
+  // 3x3 vector median drops isolated mismatches.
+  let field = vectors.map((vector, index) => {
+    if (!vector) {
+      return null;
+    }
+    const around = neighbours(index, vectors);
+    return { x: median(around.map((v) => v.x)), y: median(around.map((v) => v.y)) };
+  });
+
+  // Spread motion into empty blocks next to the object, so its leading edge
+  // moves with it when the warp samples just outside the silhouette.
+  for (let pass = 0; pass < FILL_PASSES; pass++) {
+    const previous = field;
+    field = previous.map((vector, index) => {
+      if (vector) {
+        return vector;
+      }
+      const around = neighbours(index, previous);
+      return around.length
+        ? {
+            x: around.reduce((sum, v) => sum + v.x, 0) / around.length,
+            y: around.reduce((sum, v) => sum + v.y, 0) / around.length
+          }
+        : null;
+    });
+  }
+  return field;
+};
+
+const encode = (motion: number) => Math.max(1, Math.min(255, Math.round(128 + (127 * motion) / FLOW_RANGE)));
+const decode = (value: number) => ((value - 128) / 127) * FLOW_RANGE;
+
+// Writes the flow cells of `frames` into `flow`, matching each against the
+// next frame of `sheet`.
+const writeFlowCells = (
+  flow: PixelBuffer,
+  sheet: PixelBuffer,
+  layout: GridLayout,
+  frames: number[],
+  options: Partial<FlowOptions>
+) => {
+  const resolved = { ...DEFAULT_FLOW_OPTIONS, ...options };
+  const features = new Map<number, Features>();
+  const featuresOf = (frame: number) => {
+    if (!features.has(frame)) {
+      features.set(frame, cellFeatures(sheet, layout, frame, resolved.analysisSize));
+    }
+    return features.get(frame)!;
+  };
+
+  for (const frame of frames) {
+    const field = blockMotion(featuresOf(frame), featuresOf((frame + 1) % layout.frames), resolved);
+    const { column, row } = cellPosition(layout, frame);
+    field.forEach((vector, index) => {
+      const x = column * FLOW_GRID + (index % FLOW_GRID);
+      const y = row * FLOW_GRID + Math.floor(index / FLOW_GRID);
+      const offset = (y * flow.width + x) * 4;
+      flow.data[offset] = encode(vector?.x ?? 0);
+      flow.data[offset + 1] = encode(vector?.y ?? 0);
+    });
+  }
+};
+
+// Flow texture for one ring. `sheet` is the straight-alpha matte of the ring
+// (computeAlphaMatte), so the backdrop never takes part in the matching.
+export const computeFlowField = (
+  sheet: PixelBuffer,
+  layout: GridLayout,
+  options: Partial<FlowOptions> = {}
+): PixelBuffer => {
+  const width = layout.columns * FLOW_GRID;
+  const height = layout.rows * FLOW_GRID;
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let offset = 0; offset < data.length; offset += 4) {
+    data.set([128, 128, 0, 255], offset);
+  }
+
+  const flow = { width, height, data };
+  writeFlowCells(flow, sheet, layout, Array.from({ length: layout.frames }, (_, frame) => frame), options);
+  return flow;
+};
+
+// Copy of `flow` with the vectors touching `changed` frames recomputed: each
+// changed cell and the cell before it, whose motion leads into it.
+export const updateFlowField = (
+  flow: PixelBuffer,
+  sheet: PixelBuffer,
+  layout: GridLayout,
+  changed: number[],
+  options: Partial<FlowOptions> = {}
+): PixelBuffer => {
+  const frames = new Set<number>();
+  changed.forEach((frame) => {
+    frames.add(frame);
+    frames.add((frame - 1 + layout.frames) % layout.frames);
+  });
+  const updated = { width: flow.width, height: flow.height, data: new Uint8ClampedArray(flow.data) };
+  writeFlowCells(updated, sheet, layout, [...frames].sort((a, b) => a - b), options);
+  return updated;
+};
+
+// Bilinear motion at cell point (u, v) of `frame`, v down, in cells. Matches
+// the shader's LINEAR lookup with the footprint kept inside the cell.
+export const sampleFlow = (flow: PixelBuffer, layout: GridLayout, frame: number, u: number, v: number): FlowVector => {
+  const { column, row } = cellPosition(layout, frame);
+  const x = column * FLOW_GRID + Math.min(FLOW_GRID - 1, Math.max(0, u * FLOW_GRID - 0.5));
+  const y = row * FLOW_GRID + Math.min(FLOW_GRID - 1, Math.max(0, v * FLOW_GRID - 0.5));
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(y);
+  const x1 = Math.min(x0 + 1, column * FLOW_GRID + FLOW_GRID - 1);
+  const y1 = Math.min(y0 + 1, row * FLOW_GRID + FLOW_GRID - 1);
+  const fx = x - x0;
+  const fy = y - y0;
+  const channel = (c: number) => {
+    const at = (px: number, py: number) => flow.data[(py * flow.width + px) * 4 + c];
+    const top = at(x0, y0) * (1 - fx) + at(x1, y0) * fx;
+    const bottom = at(x0, y1) * (1 - fx) + at(x1, y1) * fx;
+    return decode(top * (1 - fy) + bottom * fy);
+  };
+  return { x: channel(0), y: channel(1) };
+};
@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import { createGridLayout } from "./gridLayout";
+import { DEFAULT_ORBITAL_PHYSICS, OrbitalMotion, resolveOrbitalPhysics, stepOrbitalMotion, velocityBlur } from "./orbitalPhysics";
+import { OrbitalPhysics } from "../types";
+
+const DT = 1 / 60;
+
+const settle = (motion: OrbitalMotion, physics: OrbitalPhysics, options: Parameters<typeof stepOrbitalMotion>[3] = {}) => {
+  let state = { ...motion, settled: false };
+  let steps = 0;
+  while (!state.settled && steps < 10000) {
+    state = stepOrbitalMotion(state, physics, DT, options);
+    steps++;
+  }
+  return { ...state, steps };
+};
+
+describe("resolveOrbitalPhysics", () => {
+  it("fills in defaults", () => {
+    expect(resolveOrbitalPhysics()).toEqual(DEFAULT_ORBITAL_PHYSICS);
+    expect(resolveOrbitalPhysics({ friction: 0.5 })).toEqual({ ...DEFAULT_ORBITAL_PHYSICS, friction: 0.5 });
+  });
+
+  it("clamps and discards untrusted values", () => {
+    const physics = resolveOrbitalPhysics({
+      friction: 4,
+      elasticity: -1,
+      blurThreshold: -2,
+      pitchSpring: NaN,
+      restPitch: "15" as unknown as number
+    });
+    expect(physics).toMatchObject({
+      friction: 1,
+      elasticity: 0,
+      blurThreshold: 0,
+      pitchSpring: DEFAULT_ORBITAL_PHYSICS.pitchSpring,
+      restPitch: DEFAULT_ORBITAL_PHYSICS.restPitch
+    });
+  });
+});
+
+describe("velocityBlur", () => {
+  it("is zero up to the threshold and ramps linearly past it", () => {
+    expect(velocityBlur(0.4, 0.5)).toBe(0);
+    expect(velocityBlur(-1.5, 0.5)).toBeCloseTo(0.12);
+    expect(velocityBlur(1.5, 0)).toBeCloseTo(0.18);
+  });
+
+  it("caps the blend bias", () => {
+    expect(velocityBlur(100, 0.5)).toBe(0.6);
+  });
+});
+
+describe("stepOrbitalMotion", () => {
+  const layout = createGridLayout(4, 2);
+
+  it("integrates velocity and applies friction once per 60 Hz frame", () => {
+    const physics = resolveOrbitalPhysics({ friction: 0.9 });
+    const step = stepOrbitalMotion({ yaw: 10, pitch: 0, velocity: 120 }, physics, DT);
+    // Between 120 and 108 degrees/second over the frame.
+    expect(step.yaw).toBeGreaterThan(10 + 108 * DT);
+    expect(step.yaw).toBeLessThan(10 + 120 * DT);
+    expect(step.velocity).toBeCloseTo(108);
+    expect(step.settled).toBe(false);
+  });
+
+  it("gives the same motion for one 32 ms step as for two 16 ms steps", () => {
+    const physics = resolveOrbitalPhysics({ friction: 0.9, pitchSpring: 0.25, restPitch: 0 });
+    const twice = (motion: OrbitalMotion, options: Parameters<typeof stepOrbitalMotion>[3] = {}) =>
+      stepOrbitalMotion(stepOrbitalMotion(motion, physics, 0.016, options), physics, 0.016, options);
+    const expectMatch = (motion: OrbitalMotion, options: Parameters<typeof stepOrbitalMotion>[3] = {}) => {
+      const once = stepOrbitalMotion(motion, physics, 0.032, options);
+      const split = twice(motion, options);
+      expect(once.yaw).toBeCloseTo(split.yaw, 9);
+      expect(once.pitch).toBeCloseTo(split.pitch, 9);
+      expect(once.velocity).toBeCloseTo(split.velocity, 9);
+    };
+
+    // Coasting spin and pitch spring.
+    expectMatch({ yaw: 10, pitch: 30, velocity: 300 });
+    // Snapping onto a frame.
+    expectMatch({ yaw: 30, pitch: 0, velocity: 0 }, { layout });
+  });
+
+  it("coasts to a stop wherever it lands without a layout", () => {
+    const result = settle({ yaw: 0, pitch: 0, velocity: 200 }, DEFAULT_ORBITAL_PHYSICS);
+    expect(result.velocity).toBe(0);
+    expect(result.yaw % 45).not.toBeCloseTo(0);
+  });
+
+  it("eases onto the nearest frame once the spin settles", () => {
+    const result = settle({ yaw: 0, pitch: 0, velocity: 200 }, DEFAULT_ORBITAL_PHYSICS, { layout });
+    expect(result.velocity).toBe(0);
+    expect(result.yaw).toBe(Math.round(result.yaw / 45) * 45);
+  });
+
+  it("respects the layout start angle", () => {
+    const offset = createGridLayout(4, 2, { startAngle: 10 });
+    const result = settle({ yaw: 30, pitch: 0, velocity: 0 }, DEFAULT_ORBITAL_PHYSICS, { layout: offset });
+    expect(result.yaw).toBe(10);
+  });
+
+  it("does not snap when elasticity is zero", () => {
+    const physics = resolveOrbitalPhysics({ elasticity: 0 });
+    const step = stepOrbitalMotion({ yaw: 30, pitch: 0, velocity: 0 }, physics, DT, { layout });
+    expect(step).toEqual({ yaw: 30, pitch: 0, velocity: 0, settled: true });
+  });
+
+  it("keeps spinning while auto-rotate is on", () => {
+    const step = stepOrbitalMotion({ yaw: 0, pitch: 0, velocity: 0 }, DEFAULT_ORBITAL_PHYSICS, 0.5, {
+      layout,
+      autoRotate: 30
+    });
+    expect(step.yaw).toBe(15);
+    expect(step.settled).toBe(false);
+  });
+
+  it("springs pitch back to the rest elevation clamped to the ring range", () => {
+    const physics = resolveOrbitalPhysics({ restPitch: -20, pitchSpring: 0.25 });
+    const first = stepOrbitalMotion({ yaw: 0, pitch: 30, velocity: 0 }, physics, DT, { pitchRange: [0, 30] });
+    expect(first.pitch).toBeCloseTo(22.5);
+    expect(settle(first, physics, { pitchRange: [0, 30] }).pitch).toBe(0);
+  });
+});
@@ -0,0 +1,115 @@
+import { GridLayout, OrbitalPhysics } from "../types";
+import { nearestFrameYaw } from "./gridLayout";
+
+export const DEFAULT_ORBITAL_PHYSICS: OrbitalPhysics = {
+  friction: 0.94,
+  elasticity: 0.2,
+  blurThreshold: 0.5,
+  yawSensitivity: 0.35,
+  pitchSensitivity: 0.15,
+  restPitch: 0,
+  pitchSpring: 0
+};
+
+// Degrees/second below which a coasting spin hands over to the frame snap, and
+// below which it simply stops when snapping is off.
+const SNAP_VELOCITY = 20;
+const STOP_VELOCITY = 0.005;
+const SETTLE_EPSILON = 0.01;
+
+// friction, elasticity and pitchSpring are per-frame factors at this step;
+// longer or shorter steps compound them so motion does not depend on frame rate.
+const REFERENCE_DT = 1 / 60;
+
+const VELOCITY_BLUR_SCALE = 0.12;
+const MAX_VELOCITY_BLUR = 0.6;
+
+const unit = (value: unknown, fallback: number) =>
+  typeof value === "number" && Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : fallback;
+
+const finite = (value: unknown, fallback: number, min = -Infinity) =>
+  typeof value === "number" && Number.isFinite(value) ? Math.max(min, value) : fallback;
+
+// Fills in defaults and clamps untrusted values (manifests, attributes).
+export const resolveOrbitalPhysics = (overrides: Partial<OrbitalPhysics> = {}): OrbitalPhysics => {
+  const defaults = DEFAULT_ORBITAL_PHYSICS;
+  return {
+    friction: unit(overrides.friction, defaults.friction),
+    elasticity: unit(overrides.elasticity, defaults.elasticity),
+    blurThreshold: finite(overrides.blurThreshold, defaults.blurThreshold, 0),
+    yawSensitivity: finite(overrides.yawSensitivity, defaults.yawSensitivity),
+    pitchSensitivity: finite(overrides.pitchSensitivity, defaults.pitchSensitivity),
+    restPitch: finite(overrides.restPitch, defaults.restPitch),
+    pitchSpring: unit(overrides.pitchSpring, defaults.pitchSpring)
+  };
+};
+
+// Cross-fade bias added towards the next frame; `velocity` is yaw speed in
+// radians/second. Mirrored by the `velocityBlur` term of the orbital shader.
+export const velocityBlur = (velocity: number, blurThreshold: number) =>
+  Math.min(MAX_VELOCITY_BLUR, Math.max(0, Math.abs(velocity) - blurThreshold) * VELOCITY_BLUR_SCALE);
+
+// Degrees and degrees/second.
+export type OrbitalMotion = {
+  yaw: number;
+  pitch: number;
+  velocity: number;
+};
+
+export type OrbitalStepOptions = {
+  // Enables the snap; without it the spin just coasts to a stop.
+  layout?: GridLayout;
+  pitchRange?: [number, number];
+  // Idle spin in degrees/second; suspends the snap while non-zero.
+  autoRotate?: number;
+};
+
+export type OrbitalStep = OrbitalMotion & { settled: boolean };
+
+// Share of the remaining distance covered in `frames` reference frames by a
+// spring that covers `rate` of it per frame.
+const approach = (rate: number, frames: number) => 1 - (1 - rate) ** frames;
+
+// Advances a released (not dragged) orbit by `dt` seconds.
+export const stepOrbitalMotion = (
+  motion: OrbitalMotion,
+  physics: OrbitalPhysics,
+  dt: number,
+  options: OrbitalStepOptions = {}
+): OrbitalStep => {
+  const autoRotate = options.autoRotate ?? 0;
+  const snapping = physics.elasticity > 0 && !!options.layout && autoRotate === 0;
+
+  const frames = dt / REFERENCE_DT;
+  const decay = physics.friction ** frames;
+  // Distance covered while the velocity decays continuously over the step.
+  const coast = physics.friction === 1
+    ? motion.velocity * dt
+    : physics.friction === 0 ? 0 : (motion.velocity * (decay - 1) * REFERENCE_DT) / Math.log(physics.friction);
+
+  let yaw = motion.yaw + coast + autoRotate * dt;
+  let velocity = motion.velocity * decay;
+  let yawSettled = autoRotate === 0;
+
+  if (Math.abs(velocity) < (snapping ? SNAP_VELOCITY : STOP_VELOCITY)) {
+    velocity = 0;
+    if (snapping) {
+      const target = nearestFrameYaw(options.layout!, yaw);
+      yawSettled = Math.abs(target - yaw) < SETTLE_EPSILON;
+      yaw = yawSettled ? target : yaw + (target - yaw) * approach(physics.elasticity, frames);
+    }
+  } else {
+    yawSettled = false;
+  }
+
+  let pitch = motion.pitch;
+  let pitchSettled = true;
+  if (physics.pitchSpring > 0) {
+    const [min, max] = options.pitchRange ?? [-Infinity, Infinity];
+    const rest = Math.min(max, Math.max(min, physics.restPitch));
+    pitchSettled = Math.abs(rest - pitch) < SETTLE_EPSILON;
+    pitch = pitchSettled ? rest : pitch + (rest - pitch) * approach(physics.pitchSpring, frames);
+  }
+
+  return { yaw, pitch, velocity, settled: yawSettled && pitchSettled };
+};
@@ -0,0 +1,191 @@
+import { GridLayout, OrbitalRing, OrbitalStage } from "../types";
+import { loadImage } from "./imageUtils";
+import { DEFAULT_STAGE, resolveStage } from "./orbitalStage";
+import { Quaternion, fromYawPitch, multiply, toEuler } from "./quaternion";
+import { clampPitch, sortRings } from "./orbitalRings";
+import { OrbitalPose } from "./orbitalSampler";
+import { DEFAULT_VIEW, OrbitalView, clampView } from "./orbitalView";
+import { PixelBuffer } from "./spriteAlignment";
+
+export type OrbitalTextureRing = {
+  pitch: number;
+  image: HTMLImageElement;
+  flow?: HTMLImageElement;
+};
+
+export type OrbitalTextures = {
+  rings: OrbitalTextureRing[];
+  layout: GridLayout;
+};
+
+export type OrbitalBackend = "webgl" | "canvas2d";
+
+// "flow" warps frames along their motion field where the rings have one.
+export type OrbitalInterpolation = "flow" | "crossfade";
+
+// Loads ring sheets and their flow fields. A flow field that fails to load only
+// costs that ring its flow interpolation.
+export const loadTextureRings = (rings: OrbitalRing[]): Promise<OrbitalTextureRing[]> =>
+  Promise.all(
+    rings.map(async (ring) => ({
+      pitch: ring.pitch,
+      image: await loadImage(ring.url),
+      flow: ring.flowUrl ? await loadImage(ring.flowUrl).catch(() => undefined) : undefined
+    }))
+  );
+
+// Pose, view and motion state shared by the WebGL visualizer and its Canvas2D
+// fallback; subclasses only differ in how a frame is drawn.
+export abstract class OrbitalRenderer {
+  abstract readonly backend: OrbitalBackend;
+
+  protected canvas: HTMLCanvasElement;
+  protected rings: OrbitalTextureRing[];
+  protected ringPitches: number[];
+  protected layout: GridLayout;
+  protected currentYaw = 0;
+  protected currentPitch = 0;
+  protected velocity = 0;
+  protected blurThreshold = 0;
+  protected view: OrbitalView = { ...DEFAULT_VIEW };
+  protected showMatte = false;
+  protected interpolation: OrbitalInterpolation = "flow";
+  protected stage: OrbitalStage = DEFAULT_STAGE;
+  // Loaded image of an "image" backdrop; null until it arrives.
+  protected backdropImage: HTMLImageElement | null = null;
+
+  constructor(canvas: HTMLCanvasElement, textures: OrbitalTextures) {
+    this.canvas = canvas;
+    this.assignTextures(textures);
+    this.currentPitch = clampPitch(this.ringPitches, 0);
+  }
+
+  private assignTextures(textures: OrbitalTextures) {
+    this.rings = sortRings(textures.rings);
+    this.ringPitches = this.rings.map((ring) => ring.pitch);
+    this.layout = textures.layout;
+  }
+
+  abstract isSupported(): boolean;
+
+  // Releases what the renderer holds; it draws nothing afterwards.
+  abstract dispose(releaseContext?: boolean): void;
+
+  abstract setSize(width: number, height: number): void;
+
+  abstract render(): void;
+
+  // True while the drawing context is gone and render() draws nothing.
+  isContextLost() {
+    return false;
+  }
+
+  // Renders `pose` (or the current pose) and reads the result back as
+  // top-down RGBA rows, independent of the live render loop.
+  abstract renderToPixels(pose?: OrbitalPose): PixelBuffer;
+
+  // Snapshot encoded by the browser.
+  abstract toBlob(type?: string, quality?: number, pose?: OrbitalPose): Promise<Blob>;
+
+  // Swaps the ring sheets (e.g. for another product) without recreating the
+  // renderer. Pose and view carry over, with pitch clamped to the new rings.
+  setTextures(textures: OrbitalTextures) {
+    this.assignTextures(textures);
+    this.currentPitch = clampPitch(this.ringPitches, this.currentPitch);
+  }
+
+  // Backdrop, floor effects and grade. Resolves once an image backdrop has
+  // loaded; until then a plain white backdrop is drawn.
+  async setStage(stage: Partial<OrbitalStage>) {
+    const previous = this.stage.backdrop;
+    this.stage = resolveStage(stage);
+    const { backdrop } = this.stage;
+    if (backdrop.kind !== "image") {
+      this.backdropImage = null;
+      this.backdropChanged();
+      return;
+    }
+    if (previous.kind === "image" && previous.url === backdrop.url && this.backdropImage) {
+      return;
+    }
+
+    this.backdropImage = null;
+    this.backdropChanged();
+    let image: HTMLImageElement;
+    try {
+      image = await loadImage(backdrop.url);
+    } catch {
+      throw new Error("BACKDROP_LOAD_FAILED");
+    }
+    // A newer stage may have replaced this one while the image loaded.
+    if (this.stage.backdrop === backdrop) {
+      this.backdropImage = image;
+      this.backdropChanged();
+    }
+  }
+
+  // Called whenever backdropImage changes.
+  protected backdropChanged() {}
+
+  // Absolute pose in degrees; pitch is clamped to the available rings. Velocity
+  // (radians/second of yaw) only drives the motion blur and warp.
+  setPose(yaw: number, pitch: number, velocity = 0) {
+    const fullTurn = Math.PI * 2;
+    const yawRad = (yaw * Math.PI) / 180;
+    this.currentYaw = ((yawRad % fullTurn) + fullTurn) % fullTurn;
+    this.currentPitch = clampPitch(this.ringPitches, pitch);
+    this.velocity = velocity;
+  }
+
+  // Yaw speed (radians/second) the motion blur starts at.
+  setBlurThreshold(threshold: number) {
+    this.blurThreshold = Math.max(0, threshold);
+  }
+
+  // Zoom and pan, clamped so the product stays in frame.
+  setView(view: OrbitalView) {
+    this.view = clampView(view);
+  }
+
+  getView(): OrbitalView {
+    return { ...this.view };
+  }
+
+  // QA view: draws the alpha matte as greyscale (white = opaque) instead of colour.
+  setShowMatte(show: boolean) {
+    this.showMatte = show;
+  }
+
+  setInterpolation(interpolation: OrbitalInterpolation) {
+    this.interpolation = interpolation;
+  }
+
+  getPose(): OrbitalPose {
+    return {
+      yaw: (this.currentYaw * 180) / Math.PI,
+      pitch: this.currentPitch,
+      velocity: this.velocity
+    };
+  }
+
+  // Absolute orientation (yaw about Y, then pitch about X, as built by
+  // fromYawPitch). The displayed frame always matches this pose exactly.
+  setRotation(rotation: Quaternion, velocity = 0) {
+    const { yaw, pitch } = toEuler(rotation);
+    this.setPose((yaw * 180) / Math.PI, (pitch * 180) / Math.PI, velocity);
+  }
+
+  // Incremental world-space rotation applied on top of the current pose over
+  // `dt` seconds; yaw velocity for the motion blur is derived from it.
+  applyRotation(delta: Quaternion, dt: number) {
+    const previousYaw = this.currentYaw;
+    const current = fromYawPitch(this.currentYaw, (this.currentPitch * Math.PI) / 180);
+    const { yaw, pitch } = toEuler(multiply(delta, current));
+
+    let yawStep = yaw - previousYaw;
+    yawStep = Math.atan2(Math.sin(yawStep), Math.cos(yawStep));
+    const instantaneousVelocity = dt > 0 ? yawStep / dt : 0;
+
+    this.setPose((yaw * 180) / Math.PI, (pitch * 180) / Math.PI, this.velocity * 0.85 + instantaneousVelocity * 0.15);
+  }
+}
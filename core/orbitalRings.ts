@@ -0,0 +1,80 @@
+import { OrbitalAssets, OrbitalRing } from "../types";
+import { DEFAULT_GRID_LAYOUT } from "./gridLayout";
+
+export const ORBITAL_PITCH_PRESETS = [-15, 0, 30, 60, 90];
+export const DEFAULT_RING_PITCHES = [0, 30];
+
+export type RingBlend = {
+  lower: number;
+  upper: number;
+  blend: number;
+};
+
+export const sortRings = <T extends { pitch: number }>(rings: T[]): T[] =>
+  [...rings].sort((a, b) => a.pitch - b.pitch);
+
+export const pitchRange = (pitches: number[]): [number, number] => {
+  if (pitches.length === 0) {
+    return [0, 0];
+  }
+  return [Math.min(...pitches), Math.max(...pitches)];
+};
+
+export const clampPitch = (pitches: number[], pitch: number) => {
+  const [min, max] = pitchRange(pitches);
+  return Math.min(max, Math.max(min, pitch));
+};
+
+// Picks the two rings bracketing `pitch` (indices into the ascending `pitches`
+// list) and the mix factor between them.
+export const resolveRingBlend = (pitches: number[], pitch: number): RingBlend => {
+  if (pitches.length < 2) {
+    return { lower: 0, upper: 0, blend: 0 };
+  }
+
+  const clamped = clampPitch(pitches, pitch);
+  for (let i = 0; i < pitches.length - 1; i++) {
+    const low = pitches[i];
+    const high = pitches[i + 1];
+    if (clamped <= high) {
+      const span = high - low;
+      return { lower: i, upper: i + 1, blend: span > 0 ? (clamped - low) / span : 0 };
+    }
+  }
+
+  const last = pitches.length - 1;
+  return { lower: last, upper: last, blend: 0 };
+};
+
+export const describeRingPitch = (pitch: number) => {
+  if (pitch >= 90) {
+    return "Top-Down";
+  }
+  if (pitch > 0) {
+    return "Elevated";
+  }
+  if (pitch < 0) {
+    return "Low-Angle";
+  }
+  return "Eye-Level";
+};
+
+type StoredOrbitalAssets =
+  | { pitch0Url: string; pitch30Url: string }
+  | { rings: OrbitalRing[]; layout?: OrbitalAssets["layout"] };
+
+export const normalizeOrbitalAssets = (
+  assets: StoredOrbitalAssets | undefined
+): OrbitalAssets | undefined => {
+  if (!assets) {
+    return undefined;
+  }
+  if ("rings" in assets) {
+    return { ...assets, rings: sortRings(assets.rings), layout: assets.layout ?? DEFAULT_GRID_LAYOUT };
+  }
+  const rings: OrbitalRing[] = [
+    { pitch: 0, url: assets.pitch0Url },
+    { pitch: 30, url: assets.pitch30Url }
+  ];
+  return { rings, layout: DEFAULT_GRID_LAYOUT };
+};
@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import { createGridLayout } from "./gridLayout";
+import { cellWeights, renderOrbitalReference, selectFrames } from "./orbitalSampler";
+import { PixelBuffer } from "./spriteAlignment";
+
+const layout = createGridLayout(4, 2);
+const RINGS = [0, 30, 60];
+
+const frameOf = (yaw: number) => {
+  const { frame, next, frameBlend } = selectFrames(layout, [0], { yaw, pitch: 0 });
+  return { frame, next, frameBlend };
+};
+
+const ringsOf = (pitch: number) => {
+  const { ringLower, ringUpper, ringBlend } = selectFrames(layout, RINGS, { yaw: 0, pitch });
+  return { ringLower, ringUpper, ringBlend };
+};
+
+describe("selectFrames", () => {
+  it("shows a single cell at each cell angle", () => {
+    expect(frameOf(0)).toEqual({ frame: 0, next: 1, frameBlend: 0 });
+    expect(frameOf(90)).toEqual({ frame: 2, next: 3, frameBlend: 0 });
+    expect(frameOf(315)).toEqual({ frame: 7, next: 0, frameBlend: 0 });
+  });
+
+  it("blends towards the next cell between cell angles", () => {
+    expect(frameOf(22.5)).toEqual({ frame: 0, next: 1, frameBlend: 0.5 });
+    expect(frameOf(135 + 11.25)).toEqual({ frame: 3, next: 4, frameBlend: 0.25 });
+  });
+
+  it("wraps around 360 degrees", () => {
+    expect(frameOf(337.5)).toEqual({ frame: 7, next: 0, frameBlend: 0.5 });
+    expect(frameOf(360)).toEqual(frameOf(0));
+    expect(frameOf(-22.5)).toEqual(frameOf(337.5));
+    expect(frameOf(720 + 45)).toEqual(frameOf(45));
+  });
+
+  it("follows the layout's start angle and direction", () => {
+    const reversed = createGridLayout(4, 2, { startAngle: 90, direction: -1 });
+    expect(selectFrames(reversed, [0], { yaw: 45, pitch: 0 })).toMatchObject({ frame: 1, frameBlend: 0 });
+    expect(selectFrames(reversed, [0], { yaw: 90, pitch: 0 })).toMatchObject({ frame: 0, frameBlend: 0 });
+  });
+
+  it("picks the rings bracketing the pitch", () => {
+    expect(ringsOf(0)).toEqual({ ringLower: 0, ringUpper: 1, ringBlend: 0 });
+    expect(ringsOf(15)).toEqual({ ringLower: 0, ringUpper: 1, ringBlend: 0.5 });
+    expect(ringsOf(30)).toEqual({ ringLower: 0, ringUpper: 1, ringBlend: 1 });
+    expect(ringsOf(45)).toEqual({ ringLower: 1, ringUpper: 2, ringBlend: 0.5 });
+  });
+
+  it("clamps pitches beyond the outer rings", () => {
+    expect(ringsOf(-20)).toEqual(ringsOf(0));
+    expect(ringsOf(85)).toEqual(ringsOf(60));
+    expect(ringsOf(85)).toEqual({ ringLower: 1, ringUpper: 2, ringBlend: 1 });
+  });
+
+  it("uses the only ring when there is one", () => {
+    expect(selectFrames(layout, [30], { yaw: 0, pitch: 80 })).toMatchObject({ ringLower: 0, ringUpper: 0, ringBlend: 0 });
+  });
+
+  it("widens the blend with speed past the blur threshold", () => {
+    const blend = (velocity: number, yaw = 0) => selectFrames(layout, [0], { yaw, pitch: 0, velocity }, 0.5).frameBlend;
+    expect(blend(0.4)).toBe(0);
+    expect(blend(3)).toBeCloseTo(0.3);
+    expect(blend(-3)).toBeCloseTo(0.3);
+    expect(blend(100)).toBeCloseTo(0.6);
+    expect(blend(100, 22.5)).toBe(1);
+  });
+});
+
+describe("cellWeights", () => {
+  it("splits the output between frames and rings", () => {
+    const weights = cellWeights(selectFrames(layout, RINGS, { yaw: 22.5, pitch: 15 }));
+    expect(weights).toEqual([
+      { ring: 0, frame: 0, weight: 0.25 },
+      { ring: 0, frame: 1, weight: 0.25 },
+      { ring: 1, frame: 0, weight: 0.25 },
+      { ring: 1, frame: 1, weight: 0.25 }
+    ]);
+  });
+
+  it("leaves out cells that do not contribute", () => {
+    expect(cellWeights(selectFrames(layout, RINGS, { yaw: 90, pitch: 0 }))).toEqual([{ ring: 0, frame: 2, weight: 1 }]);
+  });
+});
+
+describe("renderOrbitalReference", () => {
+  // One pixel per cell, red channel 20 x frame; rings differ in green.
+  const sheet = (green: number): PixelBuffer => {
+    const data = new Uint8ClampedArray(layout.columns * layout.rows * 4);
+    for (let frame = 0; frame < layout.frames; frame++) {
+      data.set([frame * 20, green, 0, 255], frame * 4);
+    }
+    return { width: layout.columns, height: layout.rows, data };
+  };
+
+  it("renders the posed cell", () => {
+    const output = renderOrbitalReference([sheet(0)], [0], layout, { yaw: 225, pitch: 0 }, 1, 1);
+    expect([...output.data]).toEqual([100, 0, 0, 255]);
+  });
+
+  it("cross-fades frames and rings", () => {
+    const output = renderOrbitalReference([sheet(0), sheet(200)], [0, 30], layout, { yaw: 337.5, pitch: 7.5 }, 1, 1);
+    // Frames 7 and 0 half and half; a quarter of the way to the upper ring.
+    expect([...output.data]).toEqual([70, 50, 0, 255]);
+  });
+});
@@ -0,0 +1,154 @@
+import { GridLayout } from "../types";
+import { cellPosition, resolveFrame } from "./gridLayout";
+import { clampPitch, resolveRingBlend } from "./orbitalRings";
+import { velocityBlur } from "./orbitalPhysics";
+import { sampleFlow } from "./opticalFlow";
+import { PixelBuffer } from "./spriteAlignment";
+
+// CPU mirror of the orbital fragment shader (OrbitalShaderModules). It exists so
+// pose -> frame mapping and the cross-fade can be checked without a GPU; keep it
+// in step with the GLSL when either changes.
+
+export type OrbitalPose = {
+  yaw: number;
+  pitch: number;
+  velocity?: number;
+};
+
+export type FrameSelection = {
+  frame: number;
+  next: number;
+  frameBlend: number;
+  ringLower: number;
+  ringUpper: number;
+  ringBlend: number;
+};
+
+export type CellWeight = {
+  ring: number;
+  frame: number;
+  weight: number;
+};
+
+// `ringPitches` must be ascending, matching the visualizer's texture order.
+export const selectFrames = (
+  layout: GridLayout,
+  ringPitches: number[],
+  pose: OrbitalPose,
+  blurThreshold = 0
+): FrameSelection => {
+  const { index, next, progress } = resolveFrame(layout, pose.yaw);
+  const blur = velocityBlur(pose.velocity ?? 0, blurThreshold);
+  const rings = resolveRingBlend(ringPitches, clampPitch(ringPitches, pose.pitch));
+  return {
+    frame: index,
+    next,
+    frameBlend: Math.min(1, progress + blur),
+    ringLower: rings.lower,
+    ringUpper: rings.upper,
+    ringBlend: rings.blend
+  };
+};
+
+// The grid cells the shader mixes for `selection` and each one's share of the
+// output. Weights sum to 1; cells that do not contribute are left out.
+export const cellWeights = (selection: FrameSelection): CellWeight[] => {
+  const rings = [
+    { ring: selection.ringLower, weight: 1 - selection.ringBlend },
+    { ring: selection.ringUpper, weight: selection.ringBlend }
+  ];
+  const frames = [
+    { frame: selection.frame, weight: 1 - selection.frameBlend },
+    { frame: selection.next, weight: selection.frameBlend }
+  ];
+  return rings
+    .flatMap((ring) => frames.map((frame) => ({ ring: ring.ring, frame: frame.frame, weight: ring.weight * frame.weight })))
+    .filter((cell) => cell.weight > 0);
+};
+
+// Texel coordinates (top-left origin, in [0, 1]) of the quad point (u, v) inside
+// a grid cell, where v = 1 is the top of the quad.
+export const cellTexCoord = (layout: GridLayout, frame: number, u: number, v: number) => {
+  const { column, row } = cellPosition(layout, frame);
+  return {
+    s: (column + u) / layout.columns,
+    t: (row + (1 - v)) / layout.rows
+  };
+};
+
+// Bilinear, clamp-to-edge lookup equivalent to LINEAR/CLAMP_TO_EDGE sampling.
+const sampleBilinear = (buffer: PixelBuffer, s: number, t: number): number[] => {
+  const x = Math.min(buffer.width - 1, Math.max(0, s * buffer.width - 0.5));
+  const y = Math.min(buffer.height - 1, Math.max(0, t * buffer.height - 0.5));
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(y);
+  const x1 = Math.min(buffer.width - 1, x0 + 1);
+  const y1 = Math.min(buffer.height - 1, y0 + 1);
+  const fx = x - x0;
+  const fy = y - y0;
+  const texel = (px: number, py: number, c: number) => buffer.data[(py * buffer.width + px) * 4 + c];
+
+  return [0, 1, 2, 3].map((c) => {
+    const top = texel(x0, y0, c) * (1 - fx) + texel(x1, y0, c) * fx;
+    const bottom = texel(x0, y1, c) * (1 - fx) + texel(x1, y1, c) * fx;
+    return top * (1 - fy) + bottom * fy;
+  });
+};
+
+const mix = (a: number[], b: number[], t: number) => a.map((value, i) => value + (b[i] - value) * t);
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+// Colour (0-255 RGBA) the shader produces at quad point (u, v) for `selection`.
+// `rings` are the sheets as uploaded: matted and premultiplied (see alphaMatte).
+// With a flow field for both rings, each frame is warped towards the in-between
+// pose before the blend; otherwise the frames cross-fade in place.
+export const sampleOrbitalPixel = (
+  rings: PixelBuffer[],
+  layout: GridLayout,
+  selection: FrameSelection,
+  u: number,
+  v: number,
+  flows: (PixelBuffer | undefined)[] = []
+): number[] => {
+  const blend = selection.frameBlend;
+  const useFlow = !!flows[selection.ringLower] && !!flows[selection.ringUpper];
+  const ringColor = (ring: PixelBuffer, flow?: PixelBuffer) => {
+    // Flow y points down the cell; quad v points up.
+    const motion = useFlow && flow ? sampleFlow(flow, layout, selection.frame, u, 1 - v) : { x: 0, y: 0 };
+    const a = cellTexCoord(layout, selection.frame, clamp01(u - motion.x * blend), clamp01(v + motion.y * blend));
+    const b = cellTexCoord(layout, selection.next, clamp01(u + motion.x * (1 - blend)), clamp01(v - motion.y * (1 - blend)));
+    return mix(sampleBilinear(ring, a.s, a.t), sampleBilinear(ring, b.s, b.t), blend);
+  };
+
+  return mix(
+    ringColor(rings[selection.ringLower], flows[selection.ringLower]),
+    ringColor(rings[selection.ringUpper], flows[selection.ringUpper]),
+    selection.ringBlend
+  );
+};
+
+// Full-frame reference render. Geometry is the flat quad, so it matches the GPU
+// output exactly only at zero tilt and velocity; frame selection and blending
+// match at any pose.
+export const renderOrbitalReference = (
+  rings: PixelBuffer[],
+  ringPitches: number[],
+  layout: GridLayout,
+  pose: OrbitalPose,
+  width: number,
+  height: number,
+  blurThreshold = 0,
+  flows: (PixelBuffer | undefined)[] = []
+): PixelBuffer => {
+  const selection = selectFrames(layout, ringPitches, pose, blurThreshold);
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const v = 1 - (y + 0.5) / height;
+    for (let x = 0; x < width; x++) {
+      const color = sampleOrbitalPixel(rings, layout, selection, (x + 0.5) / width, v, flows);
+      data.set(color.map(Math.round), (y * width + x) * 4);
+    }
+  }
+  return { width, height, data };
+};
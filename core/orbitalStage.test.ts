@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_STAGE, LIGHTING_PRESETS, coverFit, gradeFilter, parseColor, resolveStage } from "./orbitalStage";
+
+describe("parseColor", () => {
+  it("reads short and long hex colours", () => {
+    expect(parseColor("#ff0000")).toEqual([1, 0, 0]);
+    expect(parseColor("#0F0")).toEqual([0, 1, 0]);
+    expect(parseColor(" #336699 ")).toEqual([0.2, 0.4, 0.6]);
+  });
+
+  it("falls back to white", () => {
+    expect(parseColor("red")).toEqual([1, 1, 1]);
+    expect(parseColor("#12345")).toEqual([1, 1, 1]);
+  });
+});
+
+describe("resolveStage", () => {
+  it("fills in defaults", () => {
+    expect(resolveStage()).toEqual(DEFAULT_STAGE);
+    expect(resolveStage({ shadow: true })).toEqual({ ...DEFAULT_STAGE, shadow: true });
+  });
+
+  it("ignores unknown lighting presets", () => {
+    expect(resolveStage({ lighting: "disco" as never }).lighting).toBe("neutral");
+    expect(resolveStage({ lighting: "noir" }).lighting).toBe("noir");
+  });
+});
+
+describe("gradeFilter", () => {
+  it("is a no-op for the neutral preset", () => {
+    expect(gradeFilter(LIGHTING_PRESETS.neutral)).toBe("none");
+  });
+
+  it("maps exposure, contrast and saturation to CSS filters", () => {
+    expect(gradeFilter(LIGHTING_PRESETS.noir)).toBe("brightness(0.95) contrast(1.35) saturate(0)");
+  });
+});
+
+describe("coverFit", () => {
+  it("crops the longer axis of the image", () => {
+    expect(coverFit(200, 100, 100, 100)).toEqual({ x: 0.5, y: 1 });
+    expect(coverFit(100, 400, 200, 100)).toEqual({ x: 1, y: 0.125 });
+  });
+
+  it("shows the whole image when the aspect ratios match", () => {
+    expect(coverFit(300, 150, 600, 300)).toEqual({ x: 1, y: 1 });
+  });
+});
@@ -0,0 +1,70 @@
+import { OrbitalLightingPreset, OrbitalStage } from "../types";
+import { TARGET_SCALE } from "./spriteAlignment";
+
+// Colour grade applied to the product (not the backdrop). Exposure, contrast
+// and saturation are multipliers around 1; tint multiplies each channel;
+// keyLight brightens the left of the product and darkens the right.
+export type OrbitalGrade = {
+  exposure: number;
+  contrast: number;
+  saturation: number;
+  tint: [number, number, number];
+  keyLight: number;
+};
+
+export const LIGHTING_PRESETS: Record<OrbitalLightingPreset, OrbitalGrade> = {
+  neutral: { exposure: 1, contrast: 1, saturation: 1, tint: [1, 1, 1], keyLight: 0 },
+  studio: { exposure: 1.05, contrast: 1.12, saturation: 1.05, tint: [1, 1, 1], keyLight: 0.25 },
+  warm: { exposure: 1.02, contrast: 1.05, saturation: 1.1, tint: [1.06, 1, 0.9], keyLight: 0.15 },
+  cool: { exposure: 1, contrast: 1.05, saturation: 0.95, tint: [0.92, 0.98, 1.08], keyLight: 0.15 },
+  noir: { exposure: 0.95, contrast: 1.35, saturation: 0, tint: [1, 1, 1], keyLight: 0.4 }
+};
+
+export const DEFAULT_STAGE: OrbitalStage = {
+  backdrop: { kind: "solid", color: "#ffffff" },
+  shadow: false,
+  reflection: false,
+  lighting: "neutral"
+};
+
+export const SHADOW_OPACITY = 0.35;
+export const REFLECTION_OPACITY = 0.25;
+
+// Aligned sheets centre the product at TARGET_SCALE of the cell, so its base
+// sits this far up from the bottom of the quad (0-1). Shadow and reflection
+// are drawn below this line.
+export const FLOOR_V = (1 - TARGET_SCALE) / 2;
+
+// "#rgb" / "#rrggbb" to 0-1 RGB; anything else falls back to white.
+export const parseColor = (color: string): [number, number, number] => {
+  const hex = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(color.trim())?.[1];
+  if (!hex) {
+    return [1, 1, 1];
+  }
+  const full = hex.length === 3 ? [...hex].map((digit) => digit + digit).join("") : hex;
+  return [0, 2, 4].map((start) => parseInt(full.slice(start, start + 2), 16) / 255) as [number, number, number];
+};
+
+export const resolveStage = (stage?: Partial<OrbitalStage>): OrbitalStage => ({
+  backdrop: stage?.backdrop ?? DEFAULT_STAGE.backdrop,
+  shadow: stage?.shadow ?? DEFAULT_STAGE.shadow,
+  reflection: stage?.reflection ?? DEFAULT_STAGE.reflection,
+  lighting: stage?.lighting && stage.lighting in LIGHTING_PRESETS ? stage.lighting : DEFAULT_STAGE.lighting
+});
+
+// Closest CSS filter to a grade, for the Canvas2D fallback. Tint and key light
+// have no filter equivalent and are left out.
+export const gradeFilter = ({ exposure, contrast, saturation }: OrbitalGrade) =>
+  exposure === 1 && contrast === 1 && saturation === 1
+    ? "none"
+    : `brightness(${exposure}) contrast(${contrast}) saturate(${saturation})`;
+
+// Scale that makes an image of the given size cover the viewport ("cover"
+// fit), as a share of the image shown on each axis.
+export const coverFit = (imageWidth: number, imageHeight: number, width: number, height: number) => {
+  const scale = Math.max(width / Math.max(1, imageWidth), height / Math.max(1, imageHeight));
+  return {
+    x: width / (imageWidth * scale || 1),
+    y: height / (imageHeight * scale || 1)
+  };
+};
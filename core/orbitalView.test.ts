@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_VIEW, clampView, panView, toClipSpace, zoomViewAt } from "./orbitalView";
+
+// Clamping can leave -0, which is the same position.
+const centred = { zoom: 1, panX: expect.closeTo(0), panY: expect.closeTo(0) };
+
+describe("clampView", () => {
+  it("keeps zoom within range", () => {
+    expect(clampView({ zoom: 0.5, panX: 0, panY: 0 }).zoom).toBe(1);
+    expect(clampView({ zoom: 9, panX: 0, panY: 0 }, [1, 3]).zoom).toBe(3);
+  });
+
+  it("forbids panning at zoom 1", () => {
+    expect(clampView({ zoom: 1, panX: 0.4, panY: -0.2 })).toEqual(centred);
+  });
+
+  it("lets the zoomed quad move only while it still covers the viewport", () => {
+    expect(clampView({ zoom: 2, panX: 3, panY: -0.5 })).toEqual({ zoom: 2, panX: 1, panY: -0.5 });
+  });
+});
+
+describe("zoomViewAt", () => {
+  it("zooms about the centre by default", () => {
+    expect(zoomViewAt(DEFAULT_VIEW, 2)).toEqual({ zoom: 2, panX: 0, panY: 0 });
+  });
+
+  it("keeps the anchor point fixed on screen", () => {
+    const view = zoomViewAt(DEFAULT_VIEW, 2, 0.5, -0.5);
+    // The quad point under the anchor before zooming was (0.5, -0.5).
+    expect(0.5 * view.zoom + view.panX).toBeCloseTo(0.5);
+    expect(-0.5 * view.zoom + view.panY).toBeCloseTo(-0.5);
+  });
+
+  it("recentres when zooming back out", () => {
+    const zoomed = zoomViewAt(DEFAULT_VIEW, 3, 0.9, 0.9);
+    expect(zoomViewAt(zoomed, 1)).toEqual(centred);
+  });
+});
+
+describe("panView", () => {
+  it("accumulates within bounds", () => {
+    const view = panView(panView({ zoom: 1.5, panX: 0, panY: 0 }, 0.3, 0.1), 0.3, 0.1);
+    expect(view).toEqual({ zoom: 1.5, panX: 0.5, panY: expect.closeTo(0.2) });
+  });
+});
+
+describe("toClipSpace", () => {
+  const rect = { left: 100, top: 50, width: 200, height: 100 };
+
+  it("maps corners and centre with y up", () => {
+    expect(toClipSpace(rect, 100, 50)).toEqual({ x: -1, y: 1 });
+    expect(toClipSpace(rect, 200, 100)).toEqual({ x: 0, y: 0 });
+    expect(toClipSpace(rect, 300, 150)).toEqual({ x: 1, y: -1 });
+  });
+
+  it("treats an unlaid-out element as its centre", () => {
+    expect(toClipSpace({ left: 0, top: 0, width: 0, height: 0 }, 40, 40)).toEqual({ x: 0, y: 0 });
+  });
+});
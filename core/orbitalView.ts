@@ -0,0 +1,49 @@
+// Zoom and pan applied to the orbital quad in clip space. At zoom 1 the quad
+// exactly fills the viewport ([-1, 1] on both axes); pan moves its centre.
+export type OrbitalView = {
+  zoom: number;
+  panX: number;
+  panY: number;
+};
+
+export const DEFAULT_VIEW: OrbitalView = { zoom: 1, panX: 0, panY: 0 };
+
+export const DEFAULT_ZOOM_RANGE: [number, number] = [1, 4];
+
+// Keeps the zoomed quad covering the whole viewport, so the product cannot be
+// panned or zoomed out of frame.
+export const clampView = (view: OrbitalView, zoomRange = DEFAULT_ZOOM_RANGE): OrbitalView => {
+  const zoom = Math.min(zoomRange[1], Math.max(zoomRange[0], view.zoom));
+  const limit = Math.max(0, zoom - 1);
+  return {
+    zoom,
+    panX: Math.min(limit, Math.max(-limit, view.panX)),
+    panY: Math.min(limit, Math.max(-limit, view.panY))
+  };
+};
+
+// Zooms while keeping the clip-space point (x, y) fixed on screen.
+export const zoomViewAt = (
+  view: OrbitalView,
+  zoom: number,
+  x = 0,
+  y = 0,
+  zoomRange = DEFAULT_ZOOM_RANGE
+): OrbitalView => {
+  const next = Math.min(zoomRange[1], Math.max(zoomRange[0], zoom));
+  const scale = next / view.zoom;
+  return clampView(
+    { zoom: next, panX: x - (x - view.panX) * scale, panY: y - (y - view.panY) * scale },
+    zoomRange
+  );
+};
+
+// Pans by a clip-space offset.
+export const panView = (view: OrbitalView, dx: number, dy: number, zoomRange = DEFAULT_ZOOM_RANGE) =>
+  clampView({ ...view, panX: view.panX + dx, panY: view.panY + dy }, zoomRange);
+
+// Client pixel position to clip space (y up) within `rect`.
+export const toClipSpace = (rect: { left: number; top: number; width: number; height: number }, clientX: number, clientY: number) => ({
+  x: rect.width > 0 ? ((clientX - rect.left) / rect.width) * 2 - 1 : 0,
+  y: rect.height > 0 ? 1 - ((clientY - rect.top) / rect.height) * 2 : 0
+});
@@ -0,0 +1,138 @@
+import { describe, expect, it } from "vitest";
+import {
+  IDENTITY,
+  Quaternion,
+  conjugate,
+  deltaRotation,
+  dot,
+  fromAxisAngle,
+  fromYawPitch,
+  multiply,
+  normalize,
+  slerp,
+  toAxisAngle,
+  toEuler
+} from "./quaternion";
+
+// q and -q encode the same rotation.
+const expectSameRotation = (a: Quaternion, b: Quaternion) => {
+  expect(Math.abs(dot(normalize(a), normalize(b)))).toBeCloseTo(1, 9);
+};
+
+describe("toAxisAngle", () => {
+  it("returns a zero angle for the identity", () => {
+    expect(toAxisAngle(IDENTITY)).toEqual({ axis: [0, 1, 0], angle: 0 });
+  });
+
+  it("recovers a 180° turn about Y", () => {
+    const { axis, angle } = toAxisAngle({ x: 0, y: 1, z: 0, w: 0 });
+    expect(angle).toBeCloseTo(Math.PI);
+    expect(axis[1]).toBeCloseTo(1);
+  });
+
+  it("clamps w outside [-1, 1] instead of returning NaN", () => {
+    const above = toAxisAngle({ x: 0, y: 0, z: 0, w: 1.0000001 });
+    const below = toAxisAngle({ x: 0, y: 0, z: 0, w: -1.0000001 });
+    expect(above.angle).toBe(0);
+    expect(Number.isNaN(below.angle)).toBe(false);
+    expect(below.axis.every((value) => Number.isFinite(value))).toBe(true);
+  });
+
+  it("round-trips fromAxisAngle", () => {
+    const { axis, angle } = toAxisAngle(fromAxisAngle([1, 2, 2], 1.2));
+    expect(angle).toBeCloseTo(1.2);
+    expect(axis[0]).toBeCloseTo(1 / 3);
+    expect(axis[1]).toBeCloseTo(2 / 3);
+    expect(axis[2]).toBeCloseTo(2 / 3);
+  });
+});
+
+describe("fromYawPitch", () => {
+  it("produces the identity at the origin", () => {
+    expectSameRotation(fromYawPitch(0, 0), IDENTITY);
+    expect(fromYawPitch(0, 0).w).toBe(1);
+  });
+
+  it("is a pure Y rotation when pitch is zero", () => {
+    const { axis, angle } = toAxisAngle(fromYawPitch(0.8, 0));
+    expect(angle).toBeCloseTo(0.8);
+    expect(axis[0]).toBeCloseTo(0);
+    expect(axis[1]).toBeCloseTo(1);
+    expect(axis[2]).toBeCloseTo(0);
+  });
+
+  it("represents a 180° yaw as a half turn", () => {
+    const q = fromYawPitch(Math.PI, 0);
+    expect(q.w).toBeCloseTo(0);
+    expect(toAxisAngle(q).angle).toBeCloseTo(Math.PI);
+  });
+
+  it("always yields a unit quaternion", () => {
+    for (const yaw of [-4, -1, 0, 2.5, 7]) {
+      for (const pitch of [-1.2, 0, 0.5, Math.PI / 2]) {
+        expect(dot(fromYawPitch(yaw, pitch), fromYawPitch(yaw, pitch))).toBeCloseTo(1, 12);
+      }
+    }
+  });
+
+  it("composes yaw after pitch", () => {
+    const composed = multiply(fromAxisAngle([0, 1, 0], 0.7), fromAxisAngle([1, 0, 0], 0.3));
+    expectSameRotation(fromYawPitch(0.7, 0.3), composed);
+  });
+});
+
+describe("toEuler", () => {
+  it("inverts fromYawPitch across the pitch range", () => {
+    for (const yaw of [-3, -0.4, 0, 1.1, 3]) {
+      for (const pitch of [-1.4, -0.5, 0, 0.5, 1.4]) {
+        const euler = toEuler(fromYawPitch(yaw, pitch));
+        expect(euler.yaw).toBeCloseTo(yaw);
+        expect(euler.pitch).toBeCloseTo(pitch);
+        expect(euler.roll).toBeCloseTo(0);
+      }
+    }
+  });
+
+  it("keeps yaw at the ±90° pitch singularity", () => {
+    const euler = toEuler(fromYawPitch(0.9, Math.PI / 2));
+    expect(euler.pitch).toBeCloseTo(Math.PI / 2);
+    expect(euler.yaw).toBeCloseTo(0.9);
+    expect(euler.roll).toBe(0);
+  });
+
+  it("wraps yaw into (-π, π]", () => {
+    expect(toEuler(fromYawPitch(2 * Math.PI + 0.25, 0)).yaw).toBeCloseTo(0.25);
+  });
+});
+
+describe("rotation algebra", () => {
+  it("treats the identity as neutral", () => {
+    const q = fromYawPitch(1, 0.2);
+    expectSameRotation(multiply(q, IDENTITY), q);
+    expectSameRotation(multiply(IDENTITY, q), q);
+  });
+
+  it("cancels a rotation with its conjugate", () => {
+    const q = fromYawPitch(-2, 0.4);
+    expectSameRotation(multiply(q, conjugate(q)), IDENTITY);
+  });
+
+  it("normalizes degenerate input to the identity", () => {
+    expect(normalize({ x: 0, y: 0, z: 0, w: 0 })).toEqual(IDENTITY);
+  });
+
+  it("reconstructs the target from a delta", () => {
+    const from = fromYawPitch(0.3, 0.2);
+    const to = fromYawPitch(2.8, -0.6);
+    expectSameRotation(multiply(deltaRotation(from, to), from), to);
+  });
+
+  it("slerps along the short arc at constant speed", () => {
+    const a = fromYawPitch(0, 0);
+    const b = fromYawPitch(2, 0);
+    expect(toEuler(slerp(a, b, 0.25)).yaw).toBeCloseTo(0.5);
+    expect(toEuler(slerp(a, b, 0.5)).yaw).toBeCloseTo(1);
+    const negated = { x: -b.x, y: -b.y, z: -b.z, w: -b.w };
+    expect(toEuler(slerp(a, negated, 0.5)).yaw).toBeCloseTo(1);
+  });
+});
@@ -41,3 +41,96 @@ export const fromYawPitch = (yaw: number, pitch: number): Quaternion => {
     z: -sy * sx
   };
 };
+
+export type EulerAngles = {
+  yaw: number;
+  pitch: number;
+  roll: number;
+};
+
+export const IDENTITY: Quaternion = { x: 0, y: 0, z: 0, w: 1 };
+
+const GIMBAL_EPSILON = 1e-6;
+
+export const fromAxisAngle = (axis: [number, number, number], angle: number): Quaternion => {
+  const length = Math.hypot(axis[0], axis[1], axis[2]);
+  if (length < 0.0001) {
+    return { ...IDENTITY };
+  }
+  const s = Math.sin(angle * 0.5) / length;
+  return { x: axis[0] * s, y: axis[1] * s, z: axis[2] * s, w: Math.cos(angle * 0.5) };
+};
+
+// Hamilton product: applying the result rotates by `b` first, then by `a`.
+export const multiply = (a: Quaternion, b: Quaternion): Quaternion => ({
+  w: a.w * b.w - a.x * b.x - a.y * b.y - a.z * b.z,
+  x: a.w * b.x + a.x * b.w + a.y * b.z - a.z * b.y,
+  y: a.w * b.y - a.x * b.z + a.y * b.w + a.z * b.x,
+  z: a.w * b.z + a.x * b.y - a.y * b.x + a.z * b.w
+});
+
+export const conjugate = (q: Quaternion): Quaternion => ({ x: -q.x, y: -q.y, z: -q.z, w: q.w });
+
+export const dot = (a: Quaternion, b: Quaternion) => a.x * b.x + a.y * b.y + a.z * b.z + a.w * b.w;
+
+export const normalize = (q: Quaternion): Quaternion => {
+  const length = Math.sqrt(dot(q, q));
+  if (length < 1e-12) {
+    return { ...IDENTITY };
+  }
+  return { x: q.x / length, y: q.y / length, z: q.z / length, w: q.w / length };
+};
+
+// Rotation that takes `from` to `to` in world space: multiply(delta, from) === to.
+export const deltaRotation = (from: Quaternion, to: Quaternion): Quaternion =>
+  normalize(multiply(to, conjugate(from)));
+
+export const slerp = (a: Quaternion, b: Quaternion, t: number): Quaternion => {
+  let cosTheta = dot(a, b);
+  // Take the short way round: q and -q are the same rotation.
+  const target = cosTheta < 0 ? { x: -b.x, y: -b.y, z: -b.z, w: -b.w } : b;
+  cosTheta = Math.abs(cosTheta);
+
+  if (cosTheta > 0.9995) {
+    return normalize({
+      x: a.x + (target.x - a.x) * t,
+      y: a.y + (target.y - a.y) * t,
+      z: a.z + (target.z - a.z) * t,
+      w: a.w + (target.w - a.w) * t
+    });
+  }
+
+  const theta = Math.acos(cosTheta);
+  const sinTheta = Math.sin(theta);
+  const wa = Math.sin((1 - t) * theta) / sinTheta;
+  const wb = Math.sin(t * theta) / sinTheta;
+  return {
+    x: a.x * wa + target.x * wb,
+    y: a.y * wa + target.y * wb,
+    z: a.z * wa + target.z * wb,
+    w: a.w * wa + target.w * wb
+  };
+};
+
+// Inverse of fromYawPitch, extended with roll: decomposes q as
+// Ry(yaw) * Rx(pitch) * Rz(roll), angles in radians. At ±90° pitch yaw and
+// roll are coupled; roll is reported as 0 there.
+export const toEuler = (q: Quaternion): EulerAngles => {
+  const { x, y, z, w } = normalize(q);
+  const sinPitch = Math.max(-1, Math.min(1, -2 * (y * z - w * x)));
+  const pitch = Math.asin(sinPitch);
+
+  if (Math.abs(sinPitch) > 1 - GIMBAL_EPSILON) {
+    return {
+      yaw: Math.atan2(-2 * (x * z - w * y), 1 - 2 * (y * y + z * z)),
+      pitch,
+      roll: 0
+    };
+  }
+
+  return {
+    yaw: Math.atan2(2 * (x * z + w * y), 1 - 2 * (x * x + y * y)),
+    pitch,
+    roll: Math.atan2(2 * (x * y + w * z), 1 - 2 * (x * x + z * z))
+  };
+};
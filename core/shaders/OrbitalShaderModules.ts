@@ -1,6 +1,7 @@
 export class OrbitalShaderManager {
   private gl: WebGLRenderingContext | WebGL2RenderingContext;
   public program: WebGLProgram | null = null;
+  public backdropProgram: WebGLProgram | null = null;
 
   constructor(gl: WebGLRenderingContext | WebGL2RenderingContext) {
     this.gl = gl;
@@ -15,7 +16,9 @@ export class OrbitalShaderManager {
 
       uniform float u_velocity;
       uniform float u_warpFactor;
-      uniform float u_pitch;
+      uniform float u_tilt;
+      // xy: pan, z: zoom (clip space).
+      uniform vec3 u_view;
 
       void main() {
         v_uv = a_position * 0.5 + 0.5;
@@ -28,12 +31,12 @@ export class OrbitalShaderManager {
         float cylinderCurve = cos(pos.x * 1.5) * u_warpFactor;
         pos.z -= cylinderCurve;
 
-        float pitchRad = u_pitch * 0.0174533;
+        float pitchRad = u_tilt * 0.0174533;
         float originalY = pos.y;
         pos.y = originalY * cos(pitchRad) + pos.z * sin(pitchRad);
         pos.z = pos.z * cos(pitchRad) - originalY * sin(pitchRad);
 
-        gl_Position = vec4(pos, 1.0);
+        gl_Position = vec4(pos.xy * u_view.z + u_view.xy, pos.z, 1.0);
       }
     `;
 
@@ -46,66 +49,241 @@ export class OrbitalShaderManager {
       uniform sampler2D u_textureRing1;
 
       uniform float u_yaw;
-      uniform float u_pitch;
+      uniform float u_ringBlend;
       uniform float u_velocity;
+      uniform float u_blurThreshold;
+
+      uniform vec2 u_gridSize;
+      uniform float u_frameCount;
+      uniform float u_startAngle;
+      uniform float u_direction;
+      uniform vec2 u_textureSize;
+      // 1.0 switches to Catmull-Rom sampling for sharper detail when zoomed in.
+      uniform float u_bicubic;
+      uniform float u_showMatte;
+
+      // Motion fields of the two rings (see core/opticalFlow). With u_useFlow
+      // at 1.0 both frames are warped towards the in-between pose before the
+      // blend; otherwise they cross-fade in place.
+      uniform sampler2D u_flowRing0;
+      uniform sampler2D u_flowRing1;
+      uniform float u_useFlow;
+      uniform float u_flowGrid;
+      uniform float u_flowRange;
+
+      // Grade: x exposure, y contrast, z saturation; tint per channel; key light
+      // strength from the left.
+      uniform vec3 u_grade;
+      uniform vec3 u_tint;
+      uniform float u_keyLight;
+      // Opacities (0 = off) and the quad v of the product's base.
+      uniform float u_shadow;
+      uniform float u_reflection;
+      uniform float u_floor;
 
       const float PI = 3.14159265359;
 
+      // 9-tap Catmull-Rom built from bilinear fetches. Taps are clamped to the
+      // cell so neighbouring frames never bleed in.
+      vec4 sampleCatmullRom(sampler2D tex, vec2 uv, vec2 cellMin, vec2 cellMax) {
+        vec2 samplePos = uv * u_textureSize;
+        vec2 texPos1 = floor(samplePos - 0.5) + 0.5;
+        vec2 f = samplePos - texPos1;
+
+        vec2 w0 = f * (-0.5 + f * (1.0 - 0.5 * f));
+        vec2 w1 = 1.0 + f * f * (-2.5 + 1.5 * f);
+        vec2 w2 = f * (0.5 + f * (2.0 - 1.5 * f));
+        vec2 w3 = f * f * (-0.5 + 0.5 * f);
+        vec2 w12 = w1 + w2;
+
+        vec2 lo = cellMin + 0.5 / u_textureSize;
+        vec2 hi = cellMax - 0.5 / u_textureSize;
+        vec2 p0 = clamp((texPos1 - 1.0) / u_textureSize, lo, hi);
+        vec2 p12 = clamp((texPos1 + w2 / w12) / u_textureSize, lo, hi);
+        vec2 p3 = clamp((texPos1 + 2.0) / u_textureSize, lo, hi);
+
+        vec4 result = vec4(0.0);
+        result += texture2D(tex, vec2(p0.x, p0.y)) * w0.x * w0.y;
+        result += texture2D(tex, vec2(p12.x, p0.y)) * w12.x * w0.y;
+        result += texture2D(tex, vec2(p3.x, p0.y)) * w3.x * w0.y;
+        result += texture2D(tex, vec2(p0.x, p12.y)) * w0.x * w12.y;
+        result += texture2D(tex, vec2(p12.x, p12.y)) * w12.x * w12.y;
+        result += texture2D(tex, vec2(p3.x, p12.y)) * w3.x * w12.y;
+        result += texture2D(tex, vec2(p0.x, p3.y)) * w0.x * w3.y;
+        result += texture2D(tex, vec2(p12.x, p3.y)) * w12.x * w3.y;
+        result += texture2D(tex, vec2(p3.x, p3.y)) * w3.x * w3.y;
+        return clamp(result, 0.0, 1.0);
+      }
+
       vec4 sampleGridFrame(sampler2D tex, float frameIndex, vec2 uv) {
-        float col = mod(frameIndex, 4.0);
-        float row = floor(frameIndex / 4.0);
+        float col = mod(frameIndex, u_gridSize.x);
+        float row = floor(frameIndex / u_gridSize.x);
 
         vec2 finalUV = vec2(
-          (col + uv.x) / 4.0,
-          1.0 - ((row + (1.0 - uv.y)) / 2.0)
+          (col + uv.x) / u_gridSize.x,
+          1.0 - ((row + (1.0 - uv.y)) / u_gridSize.y)
         );
 
+        if (u_bicubic > 0.5) {
+          vec2 cellMin = vec2(col / u_gridSize.x, 1.0 - (row + 1.0) / u_gridSize.y);
+          vec2 cellMax = cellMin + 1.0 / u_gridSize;
+          return sampleCatmullRom(tex, finalUV, cellMin, cellMax);
+        }
+
         return texture2D(tex, finalUV);
       }
 
+      // Motion of the cell point uv towards the next frame, in cells (y up).
+      // The lookup stays inside the cell so neighbouring frames never bleed in.
+      vec2 sampleFlow(sampler2D flow, float frameIndex, vec2 uv) {
+        float col = mod(frameIndex, u_gridSize.x);
+        float row = floor(frameIndex / u_gridSize.x);
+        vec2 inset = clamp(uv, 0.5 / u_flowGrid, 1.0 - 0.5 / u_flowGrid);
+        vec2 flowUV = vec2(
+          (col + inset.x) / u_gridSize.x,
+          1.0 - ((row + (1.0 - inset.y)) / u_gridSize.y)
+        );
+        vec2 motion = (texture2D(flow, flowUV).rg * 255.0 - 128.0) / 127.0 * u_flowRange;
+        return vec2(motion.x, -motion.y);
+      }
+
+      vec4 sampleRing(sampler2D tex, sampler2D flow, float frameIndex, float nextIndex, float blend, vec2 uv) {
+        vec2 motion = u_useFlow > 0.5 ? sampleFlow(flow, frameIndex, uv) : vec2(0.0);
+        vec4 from = sampleGridFrame(tex, frameIndex, clamp(uv - motion * blend, 0.0, 1.0));
+        vec4 to = sampleGridFrame(tex, nextIndex, clamp(uv + motion * (1.0 - blend), 0.0, 1.0));
+        return mix(from, to, blend);
+      }
+
+      // Ring textures carry a premultiplied alpha matte, so mixing them needs
+      // no further keying.
+      vec4 sampleFrames(float frameIndex, float nextIndex, float blend, vec2 uv) {
+        uv.x = clamp(uv.x, 0.0, 1.0);
+        vec4 color0 = sampleRing(u_textureRing0, u_flowRing0, frameIndex, nextIndex, blend, uv);
+        vec4 color1 = sampleRing(u_textureRing1, u_flowRing1, frameIndex, nextIndex, blend, uv);
+        return mix(color0, color1, clamp(u_ringBlend, 0.0, 1.0));
+      }
+
+      vec3 grade(vec3 color, vec2 uv) {
+        color *= u_grade.x;
+        color = (color - 0.5) * u_grade.y + 0.5;
+        float luma = dot(color, vec3(0.299, 0.587, 0.114));
+        color = mix(vec3(luma), color, u_grade.z) * u_tint;
+        color *= 1.0 + u_keyLight * (0.5 - uv.x);
+        return clamp(color, 0.0, 1.0);
+      }
+
       void main() {
-        float normAngle = fract(u_yaw / (2.0 * PI));
+        float normAngle = fract(((u_yaw - u_startAngle) * u_direction) / (2.0 * PI));
         if (normAngle < 0.0) {
           normAngle += 1.0;
         }
 
-        float frameFloat = normAngle * 8.0;
+        float frameFloat = normAngle * u_frameCount;
         float frameIndex = floor(frameFloat);
         float interp = fract(frameFloat);
-        float nextIndex = mod(frameIndex + 1.0, 8.0);
+        float nextIndex = mod(frameIndex + 1.0, u_frameCount);
 
-        float velocityBlur = clamp(abs(u_velocity) * 0.12, 0.0, 0.6);
+        float velocityBlur = clamp((abs(u_velocity) - u_blurThreshold) * 0.12, 0.0, 0.6);
         float blend = clamp(interp + velocityBlur, 0.0, 1.0);
 
-        vec4 color0A = sampleGridFrame(u_textureRing0, frameIndex, v_uv);
-        vec4 color0B = sampleGridFrame(u_textureRing0, nextIndex, v_uv);
-        vec4 color0 = mix(color0A, color0B, blend);
+        vec4 product = sampleFrames(frameIndex, nextIndex, blend, v_uv);
 
-        vec4 color1A = sampleGridFrame(u_textureRing1, frameIndex, v_uv);
-        vec4 color1B = sampleGridFrame(u_textureRing1, nextIndex, v_uv);
-        vec4 color1 = mix(color1A, color1B, blend);
+        if (u_showMatte > 0.5) {
+          gl_FragColor = vec4(vec3(product.a), 1.0);
+          return;
+        }
 
-        float blendFactor = clamp(u_pitch / 30.0, 0.0, 1.0);
-        vec4 finalColor = mix(color0, color1, blendFactor);
+        if (product.a > 0.0) {
+          product.rgb = grade(product.rgb / product.a, v_uv) * product.a;
+        }
 
-        float lum = dot(finalColor.rgb, vec3(0.299, 0.587, 0.114));
-        if (lum > 0.98) {
-          finalColor.a = 0.0;
+        // Below the base: the current silhouette mirrored (reflection) and
+        // squashed onto the floor (contact shadow), both fading with depth.
+        vec4 floorColor = vec4(0.0);
+        if (v_uv.y < u_floor) {
+          float depth = (u_floor - v_uv.y) / u_floor;
+
+          if (u_reflection > 0.0) {
+            vec4 mirrored = sampleFrames(frameIndex, nextIndex, blend, vec2(v_uv.x, 2.0 * u_floor - v_uv.y));
+            mirrored.rgb = mirrored.a > 0.0 ? grade(mirrored.rgb / mirrored.a, v_uv) * mirrored.a : mirrored.rgb;
+            floorColor = mirrored * u_reflection * (1.0 - depth);
+          }
+
+          if (u_shadow > 0.0) {
+            float squash = (1.0 - 2.0 * u_floor) / u_floor;
+            vec2 shadowUV = vec2(v_uv.x, u_floor + (u_floor - v_uv.y) * squash);
+            float spread = 0.01 + 0.03 * depth;
+            float coverage = 0.0;
+            coverage += sampleFrames(frameIndex, nextIndex, blend, shadowUV + vec2(-2.0 * spread, 0.0)).a * 0.1;
+            coverage += sampleFrames(frameIndex, nextIndex, blend, shadowUV + vec2(-spread, 0.0)).a * 0.2;
+            coverage += sampleFrames(frameIndex, nextIndex, blend, shadowUV).a * 0.4;
+            coverage += sampleFrames(frameIndex, nextIndex, blend, shadowUV + vec2(spread, 0.0)).a * 0.2;
+            coverage += sampleFrames(frameIndex, nextIndex, blend, shadowUV + vec2(2.0 * spread, 0.0)).a * 0.1;
+            float shadowAlpha = coverage * u_shadow * (1.0 - depth);
+            floorColor += vec4(0.0, 0.0, 0.0, shadowAlpha) * (1.0 - floorColor.a);
+          }
         }
 
-        gl_FragColor = finalColor;
+        // Premultiplied "over"; the backdrop is blended in by the draw call.
+        gl_FragColor = product + floorColor * (1.0 - product.a);
       }
     `;
 
+    this.program = this.link(vertexSource, fragmentSource);
+    return this.program;
+  }
+
+  // Full-viewport backdrop drawn before the product: 0 solid, 1 vertical
+  // gradient (u_colorA at the top), 2 image scaled to cover.
+  createBackdropProgram(): WebGLProgram | null {
+    const vertexSource = `
+      precision highp float;
+
+      attribute vec2 a_position;
+      varying vec2 v_uv;
+
+      void main() {
+        v_uv = a_position * 0.5 + 0.5;
+        gl_Position = vec4(a_position, 0.0, 1.0);
+      }
+    `;
+
+    const fragmentSource = `
+      precision highp float;
+
+      varying vec2 v_uv;
+
+      uniform float u_mode;
+      uniform vec3 u_colorA;
+      uniform vec3 u_colorB;
+      uniform sampler2D u_image;
+      // Share of the image visible on each axis.
+      uniform vec2 u_imageScale;
+
+      void main() {
+        if (u_mode > 1.5) {
+          vec2 uv = (v_uv - 0.5) * u_imageScale + 0.5;
+          gl_FragColor = vec4(texture2D(u_image, uv).rgb, 1.0);
+        } else if (u_mode > 0.5) {
+          gl_FragColor = vec4(mix(u_colorB, u_colorA, v_uv.y), 1.0);
+        } else {
+          gl_FragColor = vec4(u_colorA, 1.0);
+        }
+      }
+    `;
+
+    this.backdropProgram = this.link(vertexSource, fragmentSource);
+    return this.backdropProgram;
+  }
+
+  private link(vertexSource: string, fragmentSource: string): WebGLProgram | null {
     const vertexShader = this.compileShader(vertexSource, this.gl.VERTEX_SHADER);
     const fragmentShader = this.compileShader(fragmentSource, this.gl.FRAGMENT_SHADER);
 
-    if (!vertexShader || !fragmentShader) {
-      return null;
-    }
-
-    const program = this.gl.createProgram();
-    if (!program) {
+    const program = vertexShader && fragmentShader ? this.gl.createProgram() : null;
+    if (!vertexShader || !fragmentShader || !program) {
+      this.gl.deleteShader(vertexShader);
+      this.gl.deleteShader(fragmentShader);
       return null;
     }
 
@@ -113,15 +291,28 @@ export class OrbitalShaderManager {
     this.gl.attachShader(program, fragmentShader);
     this.gl.linkProgram(program);
 
+    // The linked program keeps its own copy; the shader objects can go.
+    this.gl.detachShader(program, vertexShader);
+    this.gl.detachShader(program, fragmentShader);
+    this.gl.deleteShader(vertexShader);
+    this.gl.deleteShader(fragmentShader);
+
     if (!this.gl.getProgramParameter(program, this.gl.LINK_STATUS)) {
       console.error("Orbital shader link error:", this.gl.getProgramInfoLog(program));
+      this.gl.deleteProgram(program);
       return null;
     }
 
-    this.program = program;
     return program;
   }
 
+  dispose() {
+    this.gl.deleteProgram(this.program);
+    this.gl.deleteProgram(this.backdropProgram);
+    this.program = null;
+    this.backdropProgram = null;
+  }
+
   private compileShader(source: string, type: number): WebGLShader | null {
     const shader = this.gl.createShader(type);
     if (!shader) {
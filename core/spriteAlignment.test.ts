@@ -0,0 +1,138 @@
+import { describe, expect, it } from "vitest";
+import { FrameWarning } from "../types";
+import { CellMeasurement, CellRect, PixelBuffer, TARGET_SCALE, alignedRect, evaluateCells, measureCell, scoreWarnings } from "./spriteAlignment";
+
+const CELL = 100;
+
+// Two cells side by side on a white backdrop.
+const sheet = (): PixelBuffer => ({
+  width: CELL * 2,
+  height: CELL,
+  data: new Uint8ClampedArray(CELL * 2 * CELL * 4).fill(255)
+});
+
+const paint = (buffer: PixelBuffer, rect: CellRect, rgba = [40, 60, 80, 255]) => {
+  for (let y = rect.y; y < rect.y + rect.height; y++) {
+    for (let x = rect.x; x < rect.x + rect.width; x++) {
+      buffer.data.set(rgba, (y * buffer.width + x) * 4);
+    }
+  }
+};
+
+const secondCell: CellRect = { x: CELL, y: 0, width: CELL, height: CELL };
+
+// Measurement of an object with the given bounds, as measureCell reports it.
+const measured = (bounds: CellRect): CellMeasurement => ({
+  bounds,
+  centroid: { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 },
+  coverage: (bounds.width * bounds.height) / (CELL * CELL)
+});
+
+const EMPTY: CellMeasurement = { bounds: null, centroid: null, coverage: 0 };
+
+describe("measureCell", () => {
+  it("finds an off-centre object relative to its own cell", () => {
+    const buffer = sheet();
+    paint(buffer, { x: CELL + 10, y: 50, width: 20, height: 40 });
+    // Something in the neighbouring cell is not part of the measurement.
+    paint(buffer, { x: 40, y: 40, width: 20, height: 20 });
+
+    const measurement = measureCell(buffer, secondCell);
+    expect(measurement.bounds).toEqual({ x: 10, y: 50, width: 20, height: 40 });
+    expect(measurement.centroid).toEqual({ x: 19.5, y: 69.5 });
+    expect(measurement.coverage).toBeCloseTo(0.08);
+  });
+
+  it("reports nothing for empty and fully transparent cells", () => {
+    const buffer = sheet();
+    expect(measureCell(buffer, secondCell)).toEqual(EMPTY);
+
+    paint(buffer, secondCell, [0, 0, 0, 0]);
+    expect(measureCell(buffer, secondCell)).toEqual(EMPTY);
+  });
+
+  it("treats near-white pixels as backdrop", () => {
+    const buffer = sheet();
+    paint(buffer, { x: CELL + 20, y: 20, width: 40, height: 40 }, [245, 240, 250, 255]);
+    expect(measureCell(buffer, secondCell).bounds).toBeNull();
+  });
+
+  it("keeps lone specks out of the bounds", () => {
+    const large: PixelBuffer = { width: 400, height: 400, data: new Uint8ClampedArray(400 * 400 * 4).fill(255) };
+    paint(large, { x: 100, y: 120, width: 150, height: 200 });
+    // One-pixel speck: its row and column hold fewer than 2 (0.5% of 400) pixels.
+    paint(large, { x: 390, y: 10, width: 1, height: 1 });
+    expect(measureCell(large, { x: 0, y: 0, width: 400, height: 400 }).bounds).toEqual({ x: 100, y: 120, width: 150, height: 200 });
+  });
+});
+
+describe("evaluateCells", () => {
+  const centred = measured({ x: 35, y: 25, width: 30, height: 50 });
+
+  it("scores well-centred, consistent cells at 100", () => {
+    expect(evaluateCells([centred, centred, centred], CELL)).toEqual({ score: 100, warnings: [] });
+  });
+
+  it("flags empty cells at full penalty", () => {
+    const { score, warnings } = evaluateCells([centred, EMPTY], CELL);
+    expect(warnings).toEqual([expect.objectContaining({ frame: 1, code: "EMPTY_CELL", penalty: 1 })]);
+    expect(score).toBe(50);
+  });
+
+  it("flags off-centre and clipped cells", () => {
+    const offCentre = measured({ x: 0, y: 25, width: 30, height: 50 });
+    const { warnings } = evaluateCells([centred, offCentre, centred], CELL);
+    expect(warnings.map((warning) => [warning.frame, warning.code])).toEqual([
+      [1, "CLIPPED"],
+      [1, "OFF_CENTER"]
+    ]);
+    // 35% off centre, capped.
+    expect(warnings[1].penalty).toBe(0.3);
+  });
+
+  it("flags cells whose height drifts from the ring median", () => {
+    const short = measured({ x: 35, y: 40, width: 30, height: 20 });
+    const { score, warnings } = evaluateCells([centred, short, centred], CELL);
+    expect(warnings).toEqual([expect.objectContaining({ frame: 1, code: "SCALE_DRIFT", penalty: 0.3 })]);
+    expect(score).toBe(90);
+  });
+});
+
+describe("alignedRect", () => {
+  it("centres the object and scales its height to the target", () => {
+    const rect = alignedRect({ x: 5, y: 60, width: 20, height: 30 }, CELL);
+    expect(rect.height).toBeCloseTo(CELL * TARGET_SCALE);
+    expect(rect.width).toBeCloseTo(50);
+    expect(rect.x).toBeCloseTo((CELL - rect.width) / 2);
+    expect(rect.y).toBeCloseTo((CELL - rect.height) / 2);
+  });
+
+  it("limits wide objects by width instead", () => {
+    const rect = alignedRect({ x: 0, y: 40, width: 100, height: 20 }, CELL);
+    expect(rect.width).toBeCloseTo(95);
+    expect(rect.height).toBeCloseTo(19);
+    expect(rect.y).toBeCloseTo(40.5);
+  });
+
+  it("shrinks objects larger than the target", () => {
+    const rect = alignedRect({ x: 0, y: 0, width: 50, height: 100 }, CELL);
+    expect(rect).toEqual({ x: 31.25, y: 12.5, width: 37.5, height: 75 });
+  });
+});
+
+describe("scoreWarnings", () => {
+  it("spreads warning penalties over the ring's frames", () => {
+    const warnings: FrameWarning[] = [
+      { frame: 0, code: "CLIPPED", message: "", penalty: 0.4 },
+      { frame: 3, code: "OFF_CENTER", message: "", penalty: 0.2 }
+    ];
+    expect(scoreWarnings(warnings, 6)).toBe(90);
+    expect(scoreWarnings([], 6)).toBe(100);
+    expect(scoreWarnings([], 0)).toBe(0);
+  });
+
+  it("charges stored warnings without a penalty their code's full penalty", () => {
+    expect(scoreWarnings([{ frame: 1, code: "SCALE_DRIFT", message: "" }], 3)).toBe(90);
+    expect(scoreWarnings([{ frame: 1, code: "EMPTY_CELL", message: "" }, { frame: 2, code: "EMPTY_CELL", message: "" }], 1)).toBe(0);
+  });
+});
@@ -0,0 +1,177 @@
+import { FrameWarning } from "../types";
+
+export type PixelBuffer = {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+};
+
+export type CellRect = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+export type CellMeasurement = {
+  bounds: CellRect | null;
+  centroid: { x: number; y: number } | null;
+  coverage: number;
+};
+
+export const TARGET_SCALE = 0.75;
+
+const BACKGROUND_TOLERANCE = 18;
+const MIN_LINE_FRACTION = 0.005;
+const CENTER_TOLERANCE = 0.08;
+const SCALE_TOLERANCE = 0.15;
+const MIN_COVERAGE = 0.01;
+// Full penalty of each warning; OFF_CENTER and SCALE_DRIFT scale with the
+// error, capped at these.
+const WARNING_PENALTY: Record<FrameWarning["code"], number> = {
+  EMPTY_CELL: 1,
+  CLIPPED: 0.4,
+  OFF_CENTER: 0.3,
+  SCALE_DRIFT: 0.3
+};
+
+const isForeground = (data: Uint8ClampedArray, offset: number) => {
+  if (data[offset + 3] < 16) {
+    return false;
+  }
+  const distance = Math.max(255 - data[offset], 255 - data[offset + 1], 255 - data[offset + 2]);
+  return distance > BACKGROUND_TOLERANCE;
+};
+
+// Segments the object in one cell against the white backdrop. Rows/columns with
+// only a handful of foreground pixels are treated as noise so stray specks do
+// not inflate the bounding box.
+export const measureCell = (buffer: PixelBuffer, cell: CellRect): CellMeasurement => {
+  const columnCounts = new Uint32Array(cell.width);
+  const rowCounts = new Uint32Array(cell.height);
+  let count = 0;
+  let sumX = 0;
+  let sumY = 0;
+
+  for (let y = 0; y < cell.height; y++) {
+    for (let x = 0; x < cell.width; x++) {
+      const offset = ((cell.y + y) * buffer.width + (cell.x + x)) * 4;
+      if (isForeground(buffer.data, offset)) {
+        columnCounts[x]++;
+        rowCounts[y]++;
+        count++;
+        sumX += x;
+        sumY += y;
+      }
+    }
+  }
+
+  const coverage = count / (cell.width * cell.height);
+  const minColumn = Math.max(1, Math.round(cell.height * MIN_LINE_FRACTION));
+  const minRow = Math.max(1, Math.round(cell.width * MIN_LINE_FRACTION));
+  const first = (counts: Uint32Array, min: number) => counts.findIndex((c) => c >= min);
+  const last = (counts: Uint32Array, min: number) => {
+    for (let i = counts.length - 1; i >= 0; i--) {
+      if (counts[i] >= min) {
+        return i;
+      }
+    }
+    return -1;
+  };
+
+  const left = first(columnCounts, minColumn);
+  const top = first(rowCounts, minRow);
+  if (count === 0 || left < 0 || top < 0) {
+    return { bounds: null, centroid: null, coverage };
+  }
+
+  const right = last(columnCounts, minColumn);
+  const bottom = last(rowCounts, minRow);
+
+  return {
+    bounds: { x: left, y: top, width: right - left + 1, height: bottom - top + 1 },
+    centroid: { x: sumX / count, y: sumY / count },
+    coverage
+  };
+};
+
+const median = (values: number[]) => {
+  if (values.length === 0) {
+    return 0;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+export const evaluateCells = (
+  measurements: CellMeasurement[],
+  cellSize: number
+): { score: number; warnings: FrameWarning[] } => {
+  const warnings: FrameWarning[] = [];
+  const heights = measurements
+    .map((m) => m.bounds?.height)
+    .filter((h): h is number => typeof h === "number");
+  const typicalHeight = median(heights);
+
+  measurements.forEach((m, frame) => {
+    if (!m.bounds || !m.centroid || m.coverage < MIN_COVERAGE) {
+      warnings.push({ frame, code: "EMPTY_CELL", message: "No object detected in cell", penalty: WARNING_PENALTY.EMPTY_CELL });
+      return;
+    }
+
+    const { bounds } = m;
+    if (bounds.x === 0 || bounds.y === 0 || bounds.x + bounds.width >= cellSize || bounds.y + bounds.height >= cellSize) {
+      warnings.push({ frame, code: "CLIPPED", message: "Object touches the cell border", penalty: WARNING_PENALTY.CLIPPED });
+    }
+
+    const offsetX = (bounds.x + bounds.width / 2) / cellSize - 0.5;
+    const offsetY = (bounds.y + bounds.height / 2) / cellSize - 0.5;
+    const offset = Math.hypot(offsetX, offsetY);
+    if (offset > CENTER_TOLERANCE) {
+      warnings.push({
+        frame,
+        code: "OFF_CENTER",
+        message: `Object offset ${Math.round(offset * 100)}% from cell center`,
+        penalty: Math.min(WARNING_PENALTY.OFF_CENTER, offset)
+      });
+    }
+
+    const drift = typicalHeight > 0 ? Math.abs(bounds.height - typicalHeight) / typicalHeight : 0;
+    if (drift > SCALE_TOLERANCE) {
+      warnings.push({
+        frame,
+        code: "SCALE_DRIFT",
+        message: `Object height deviates ${Math.round(drift * 100)}% from ring median`,
+        penalty: Math.min(WARNING_PENALTY.SCALE_DRIFT, drift)
+      });
+    }
+  });
+
+  return { score: scoreWarnings(warnings, measurements.length), warnings };
+};
+
+// 0-100 ring score from its warnings. Warnings stored without a penalty count
+// at their code's full penalty.
+export const scoreWarnings = (warnings: FrameWarning[], frames: number) => {
+  if (frames === 0) {
+    return 0;
+  }
+  const penalty = warnings.reduce((sum, warning) => sum + (warning.penalty ?? WARNING_PENALTY[warning.code]), 0);
+  return Math.round(Math.max(0, 1 - penalty / frames) * 100);
+};
+
+// Destination rectangle that re-centers the measured object in its cell and
+// scales it so its height fills TARGET_SCALE of the cell (width permitting).
+export const alignedRect = (bounds: CellRect, cellSize: number): CellRect => {
+  const target = cellSize * TARGET_SCALE;
+  const scale = Math.min(target / bounds.height, (cellSize * 0.95) / bounds.width);
+  const width = bounds.width * scale;
+  const height = bounds.height * scale;
+  return {
+    x: (cellSize - width) / 2,
+    y: (cellSize - height) / 2,
+    width,
+    height
+  };
+};
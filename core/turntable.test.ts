@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_TURNTABLE_OPTIONS, TurntableOptions, turntableFrameCount, turntablePoses } from "./turntable";
+
+const options = (overrides: Partial<TurntableOptions>): TurntableOptions => ({ ...DEFAULT_TURNTABLE_OPTIONS, ...overrides });
+
+describe("turntablePoses", () => {
+  it("samples one pose per frame over the duration", () => {
+    expect(turntableFrameCount(options({ durationMs: 4000, fps: 24 }))).toBe(96);
+    expect(turntablePoses(options({ durationMs: 2500, fps: 12 }), [0])).toHaveLength(30);
+    expect(turntablePoses(options({ durationMs: 10, fps: 12 }), [0])).toHaveLength(1);
+  });
+
+  it("covers one revolution without repeating the first frame", () => {
+    const poses = turntablePoses(options({ durationMs: 1000, fps: 8 }), [0]);
+    expect(poses.map((pose) => pose.yaw)).toEqual([0, 45, 90, 135, 180, 225, 270, 315]);
+  });
+
+  it("eases in and out at the loop ends", () => {
+    const yaws = turntablePoses(options({ durationMs: 1000, fps: 8, easing: "ease-in-out" }), [0]).map((pose) => pose.yaw);
+    expect(yaws[0]).toBe(0);
+    expect(yaws[4]).toBeCloseTo(180);
+    // Slow near the ends, fast in the middle.
+    expect(yaws[1]).toBeLessThan(45);
+    expect(yaws[4] - yaws[3]).toBeGreaterThan(45);
+    expect(360 - yaws[7]).toBeLessThan(45);
+  });
+
+  it("offsets and wraps the start yaw", () => {
+    const poses = turntablePoses(options({ durationMs: 1000, fps: 4, startYaw: 300 }), [0]);
+    expect(poses.map((pose) => pose.yaw)).toEqual([300, 30, 120, 210]);
+  });
+
+  it("follows the pitch path and loops back to its first keyframe", () => {
+    const poses = turntablePoses(options({ durationMs: 1000, fps: 8, pitchPath: [0, 30] }), [0, 30]);
+    expect(poses[0].pitch).toBe(0);
+    expect(poses[2].pitch).toBeCloseTo(15);
+    expect(poses[4].pitch).toBe(30);
+    expect(poses[6].pitch).toBeCloseTo(15);
+  });
+
+  it("clamps pitches to the available rings", () => {
+    const poses = turntablePoses(options({ durationMs: 1000, fps: 4, pitchPath: [60] }), [0, 30]);
+    expect(poses.every((pose) => pose.pitch === 30)).toBe(true);
+  });
+});
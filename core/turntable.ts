@@ -0,0 +1,69 @@
+import { clampPitch } from "./orbitalRings";
+
+export type TurntableEasing = "linear" | "ease-in-out";
+
+export type TurntableOptions = {
+  durationMs: number;
+  fps: number;
+  size: number;
+  easing: TurntableEasing;
+  // Pitch keyframes (degrees) spread evenly over one loop; the path wraps back
+  // to the first keyframe so the clip loops seamlessly.
+  pitchPath: number[];
+  startYaw: number;
+};
+
+export type TurntablePose = {
+  yaw: number;
+  pitch: number;
+};
+
+export const DEFAULT_TURNTABLE_OPTIONS: TurntableOptions = {
+  durationMs: 4000,
+  fps: 24,
+  size: 512,
+  easing: "linear",
+  pitchPath: [0],
+  startYaw: 0
+};
+
+export const TURNTABLE_PITCH_PATHS: Record<string, number[]> = {
+  Level: [0],
+  Bob: [0, 30],
+  Rise: [0, 15, 30, 15]
+};
+
+const EASINGS: Record<TurntableEasing, (t: number) => number> = {
+  linear: (t) => t,
+  "ease-in-out": (t) => 0.5 - Math.cos(Math.PI * t) / 2
+};
+
+export const turntableFrameCount = (options: TurntableOptions) =>
+  Math.max(1, Math.round((options.durationMs / 1000) * options.fps));
+
+const samplePitchPath = (path: number[], t: number) => {
+  if (path.length <= 1) {
+    return path[0] ?? 0;
+  }
+  const position = t * path.length;
+  const index = Math.floor(position) % path.length;
+  const next = (index + 1) % path.length;
+  const local = position - Math.floor(position);
+  // Cosine interpolation keeps the pitch velocity continuous at keyframes.
+  const mix = 0.5 - Math.cos(Math.PI * local) / 2;
+  return path[index] + (path[next] - path[index]) * mix;
+};
+
+// One full yaw revolution sampled at `fps`. The last pose stops one step short
+// of 360° so the first frame is not repeated when the clip loops.
+export const turntablePoses = (options: TurntableOptions, ringPitches: number[]): TurntablePose[] => {
+  const count = turntableFrameCount(options);
+  const ease = EASINGS[options.easing];
+  return Array.from({ length: count }, (_, i) => {
+    const t = i / count;
+    return {
+      yaw: (((options.startYaw + ease(t) * 360) % 360) + 360) % 360,
+      pitch: clampPitch(ringPitches, samplePitchPath(options.pitchPath, t))
+    };
+  });
+};
@@ -0,0 +1,150 @@
+export type IntakePair = {
+  productName: string;
+  front: string;
+  back: string;
+};
+
+export type IntakeResult = {
+  pairs: IntakePair[];
+  unmatched: string[];
+};
+
+const FRONT_TOKENS = ["front", "f", "01", "1", "a"];
+const BACK_TOKENS = ["back", "b", "02", "2", "rear"];
+
+const readAsDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+const filePath = (file: File) => (file as File & { webkitRelativePath?: string }).webkitRelativePath || file.name;
+
+const stripExtension = (name: string) => name.replace(/\.[^.]+$/, "");
+
+const splitSide = (file: File): { key: string; side: "front" | "back" } | null => {
+  const path = filePath(file);
+  const segments = path.split("/");
+  const stem = stripExtension(segments.pop() ?? "");
+  const folder = segments.pop();
+  const lowered = stem.toLowerCase();
+
+  if (folder && (FRONT_TOKENS.includes(lowered) || BACK_TOKENS.includes(lowered))) {
+    return { key: folder, side: FRONT_TOKENS.includes(lowered) ? "front" : "back" };
+  }
+
+  const match = /^(.*?)[\s_.-]+([a-z0-9]+)$/i.exec(stem);
+  if (!match) {
+    return null;
+  }
+  const token = match[2].toLowerCase();
+  if (FRONT_TOKENS.includes(token)) {
+    return { key: match[1], side: "front" };
+  }
+  if (BACK_TOKENS.includes(token)) {
+    return { key: match[1], side: "back" };
+  }
+  return null;
+};
+
+const parseCsvLine = (line: string): string[] => {
+  const cells: string[] = [];
+  let current = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      cells.push(current.trim());
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+};
+
+// CSV rows are `productName,front,back`, where front/back name files from the
+// same selection (by file name or relative path).
+const pairFromCsv = async (csv: File, images: File[]): Promise<IntakeResult> => {
+  const byName = new Map<string, File>();
+  images.forEach((file) => {
+    byName.set(file.name, file);
+    byName.set(filePath(file), file);
+  });
+
+  const rows = (await csv.text())
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0)
+    .map(parseCsvLine);
+  if (rows.length > 0 && rows[0][0]?.toLowerCase() === "productname") {
+    rows.shift();
+  }
+
+  const pairs: IntakePair[] = [];
+  const unmatched: string[] = [];
+  for (const [productName, frontName, backName] of rows) {
+    const front = byName.get(frontName ?? "");
+    const back = byName.get(backName ?? "");
+    if (!front || !back) {
+      unmatched.push(productName || frontName || backName || "UNNAMED_ROW");
+      continue;
+    }
+    pairs.push({
+      productName: productName || stripExtension(front.name),
+      front: await readAsDataUrl(front),
+      back: await readAsDataUrl(back)
+    });
+  }
+  return { pairs, unmatched };
+};
+
+export const pairReferenceFiles = async (files: File[]): Promise<IntakeResult> => {
+  const csv = files.find((file) => file.name.toLowerCase().endsWith(".csv"));
+  const images = files.filter((file) => file.type.startsWith("image/"));
+
+  if (csv) {
+    return pairFromCsv(csv, images);
+  }
+
+  const groups = new Map<string, { front?: File; back?: File }>();
+  const unmatched: string[] = [];
+  images.forEach((file) => {
+    const side = splitSide(file);
+    if (!side) {
+      unmatched.push(filePath(file));
+      return;
+    }
+    const group = groups.get(side.key) ?? {};
+    group[side.side] = file;
+    groups.set(side.key, group);
+  });
+
+  const pairs: IntakePair[] = [];
+  for (const [key, group] of Array.from(groups.entries()).sort(([a], [b]) => a.localeCompare(b))) {
+    if (!group.front || !group.back) {
+      unmatched.push(key);
+      continue;
+    }
+    pairs.push({
+      productName: key.replace(/[\s-]+/g, "_").toUpperCase(),
+      front: await readAsDataUrl(group.front),
+      back: await readAsDataUrl(group.back)
+    });
+  }
+  return { pairs, unmatched };
+};
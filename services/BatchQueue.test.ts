@@ -0,0 +1,148 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { BatchQueue, BatchQueueEvent, classifyGenerationError } from "./BatchQueue";
+
+type Attempt = {
+  id: string;
+  signal: AbortSignal;
+  resolve: (value: string) => void;
+  reject: (error: Error) => void;
+};
+
+describe("BatchQueue", () => {
+  let attempts: Attempt[];
+  let events: BatchQueueEvent<string>[];
+
+  const createQueue = (concurrency = 2) =>
+    new BatchQueue<string>({
+      concurrency,
+      maxRetries: 2,
+      baseDelayMs: 1000,
+      maxDelayMs: 1500,
+      execute: (id, _onProgress, signal) =>
+        new Promise<string>((resolve, reject) => {
+          attempts.push({ id, signal, resolve, reject });
+        }),
+      onEvent: (event) => events.push(event)
+    });
+
+  // Lets the queue observe a settled attempt.
+  const settle = () => vi.advanceTimersByTimeAsync(0);
+  const ofType = (type: BatchQueueEvent<string>["type"]) => events.filter((event) => event.type === type);
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    attempts = [];
+    events = [];
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("runs at most `concurrency` attempts at once", async () => {
+    const queue = createQueue(2);
+    ["A", "B", "C"].forEach((id) => queue.enqueue(id));
+    expect(attempts.map((attempt) => attempt.id)).toEqual(["A", "B"]);
+    expect(queue.activeCount).toBe(2);
+
+    attempts[0].resolve("done");
+    await settle();
+    expect(attempts.map((attempt) => attempt.id)).toEqual(["A", "B", "C"]);
+    expect(ofType("completed")).toEqual([{ type: "completed", id: "A", result: "done" }]);
+  });
+
+  it("backs off exponentially between transient failures, up to the cap", async () => {
+    const queue = createQueue();
+    queue.enqueue("A");
+
+    attempts[0].reject(new Error("503 UNAVAILABLE"));
+    await settle();
+    expect(ofType("retrying")).toMatchObject([{ attempt: 1, delayMs: 1000 }]);
+    await vi.advanceTimersByTimeAsync(999);
+    expect(attempts).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(attempts).toHaveLength(2);
+
+    attempts[1].reject(new Error("503 UNAVAILABLE"));
+    await settle();
+    expect(ofType("retrying")[1]).toMatchObject({ attempt: 2, delayMs: 1500 });
+    await vi.advanceTimersByTimeAsync(1500);
+
+    attempts[2].reject(new Error("503 UNAVAILABLE"));
+    await settle();
+    expect(ofType("failed")).toMatchObject([{ id: "A", kind: "TRANSIENT" }]);
+    expect(queue.has("A")).toBe(false);
+  });
+
+  it("does not retry expired credentials and halts the queue", async () => {
+    const queue = createQueue(1);
+    queue.enqueue("A");
+    queue.enqueue("B");
+
+    attempts[0].reject(new Error("AUTH_PROTOCOL_EXPIRED"));
+    await settle();
+    await vi.advanceTimersByTimeAsync(60000);
+    expect(ofType("retrying")).toEqual([]);
+    expect(ofType("failed")).toMatchObject([{ id: "A", kind: "AUTH" }]);
+    expect(attempts).toHaveLength(1);
+
+    queue.release();
+    expect(attempts.map((attempt) => attempt.id)).toEqual(["A", "B"]);
+  });
+
+  it("aborts the running attempt on cancel", async () => {
+    const queue = createQueue();
+    queue.enqueue("A");
+    queue.cancel("A");
+    expect(attempts[0].signal.aborted).toBe(true);
+
+    attempts[0].reject(new Error("GENERATION_CANCELLED"));
+    await settle();
+    expect(ofType("cancelled")).toEqual([{ type: "cancelled", id: "A" }]);
+    expect(ofType("failed")).toEqual([]);
+    expect(queue.activeCount).toBe(0);
+  });
+
+  it("aborts a running attempt on pause and starts it over on resume", async () => {
+    const queue = createQueue();
+    queue.enqueue("A");
+    queue.pause("A");
+    expect(attempts[0].signal.aborted).toBe(true);
+    expect(ofType("paused")).toEqual([{ type: "paused", id: "A" }]);
+
+    queue.resume("A");
+    attempts[0].reject(new Error("GENERATION_CANCELLED"));
+    await settle();
+    expect(ofType("failed")).toEqual([]);
+    expect(ofType("started")).toMatchObject([{ attempt: 1 }, { attempt: 1 }]);
+
+    attempts[1].resolve("done");
+    await settle();
+    expect(ofType("completed")).toEqual([{ type: "completed", id: "A", result: "done" }]);
+    expect(attempts[1].signal.aborted).toBe(false);
+  });
+
+  it("pauses an item waiting to retry without starting it", async () => {
+    const queue = createQueue();
+    queue.enqueue("A");
+    attempts[0].reject(new Error("429 RESOURCE_EXHAUSTED"));
+    await settle();
+
+    queue.pause("A");
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(attempts).toHaveLength(1);
+    expect(ofType("paused")).toEqual([{ type: "paused", id: "A" }]);
+  });
+});
+
+describe("classifyGenerationError", () => {
+  it.each([
+    ["AUTH_PROTOCOL_EXPIRED", "AUTH"],
+    ["403 PERMISSION_DENIED", "AUTH"],
+    ["429 RESOURCE_EXHAUSTED", "TRANSIENT"],
+    ["Failed to fetch", "TRANSIENT"],
+    ["SAFETY_BLOCKED", "CONTENT"]
+  ])("classifies %s as %s", (message, kind) => {
+    expect(classifyGenerationError(new Error(message))).toBe(kind);
+  });
+});
@@ -0,0 +1,238 @@
+export type GenerationErrorKind = "AUTH" | "TRANSIENT" | "CONTENT";
+
+const AUTH_PATTERNS = [
+  /AUTH_PROTOCOL_EXPIRED/,
+  /Requested entity was not found/,
+  /API key/i,
+  /PERMISSION_DENIED/,
+  /\b40[13]\b/
+];
+
+const TRANSIENT_PATTERNS = [
+  /\b(429|500|502|503|504)\b/,
+  /RESOURCE_EXHAUSTED/,
+  /UNAVAILABLE/,
+  /DEADLINE_EXCEEDED/,
+  /overloaded/i,
+  /failed to fetch/i,
+  /network/i,
+  /timed? ?out/i
+];
+
+export const classifyGenerationError = (error: unknown): GenerationErrorKind => {
+  const message = error instanceof Error ? error.message : String(error ?? "");
+  if (AUTH_PATTERNS.some((pattern) => pattern.test(message))) {
+    return "AUTH";
+  }
+  if (TRANSIENT_PATTERNS.some((pattern) => pattern.test(message))) {
+    return "TRANSIENT";
+  }
+  return "CONTENT";
+};
+
+export type BatchQueueEvent<T> =
+  | { type: "queued"; id: string }
+  | { type: "started"; id: string; attempt: number }
+  | { type: "progress"; id: string; progress: number }
+  | { type: "retrying"; id: string; attempt: number; delayMs: number; error: string }
+  | { type: "paused"; id: string }
+  | { type: "cancelled"; id: string }
+  | { type: "completed"; id: string; result: T }
+  | { type: "failed"; id: string; error: string; kind: GenerationErrorKind };
+
+export type BatchQueueOptions<T> = {
+  concurrency: number;
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  execute: (id: string, onProgress: (progress: number) => void, signal: AbortSignal) => Promise<T>;
+  onEvent: (event: BatchQueueEvent<T>) => void;
+};
+
+type QueueEntry = {
+  id: string;
+  state: "queued" | "running" | "waiting" | "paused";
+  attempt: number;
+  timer: ReturnType<typeof setTimeout> | null;
+  controller: AbortController | null;
+  cancelled: boolean;
+};
+
+export class BatchQueue<T> {
+  private options: BatchQueueOptions<T>;
+  private entries = new Map<string, QueueEntry>();
+  private order: string[] = [];
+  private running = 0;
+  private halted = false;
+
+  constructor(options: BatchQueueOptions<T>) {
+    this.options = options;
+  }
+
+  get activeCount() {
+    return this.running;
+  }
+
+  has(id: string) {
+    return this.entries.has(id);
+  }
+
+  setConcurrency(concurrency: number) {
+    this.options = { ...this.options, concurrency: Math.max(1, concurrency) };
+    this.pump();
+  }
+
+  enqueue(id: string) {
+    if (this.entries.has(id)) {
+      return;
+    }
+    this.entries.set(id, {
+      id,
+      state: "queued",
+      attempt: 0,
+      timer: null,
+      controller: null,
+      cancelled: false
+    });
+    this.order.push(id);
+    this.options.onEvent({ type: "queued", id });
+    this.pump();
+  }
+
+  // A running attempt is aborted and its outcome ignored; it does not count
+  // against the retry budget, so resuming starts it over.
+  pause(id: string) {
+    const entry = this.entries.get(id);
+    if (!entry || entry.state === "paused") {
+      return;
+    }
+    if (entry.state === "running") {
+      entry.controller?.abort();
+      entry.controller = null;
+      entry.attempt -= 1;
+    }
+    this.clearTimer(entry);
+    entry.state = "paused";
+    this.options.onEvent({ type: "paused", id });
+  }
+
+  resume(id: string) {
+    const entry = this.entries.get(id);
+    if (!entry) {
+      return;
+    }
+    if (entry.state !== "paused") {
+      return;
+    }
+    entry.state = "queued";
+    this.options.onEvent({ type: "queued", id });
+    this.pump();
+  }
+
+  cancel(id: string) {
+    const entry = this.entries.get(id);
+    if (!entry) {
+      return;
+    }
+    this.clearTimer(entry);
+    entry.cancelled = true;
+    entry.controller?.abort();
+    this.remove(id);
+    this.options.onEvent({ type: "cancelled", id });
+  }
+
+  cancelAll() {
+    Array.from(this.entries.keys()).forEach((id) => this.cancel(id));
+  }
+
+  // Stops new attempts from starting (e.g. while credentials are re-established).
+  halt() {
+    this.halted = true;
+  }
+
+  release() {
+    this.halted = false;
+    this.pump();
+  }
+
+  private pump() {
+    while (!this.halted && this.running < this.options.concurrency) {
+      const next = this.order.find((id) => this.entries.get(id)?.state === "queued");
+      if (!next) {
+        return;
+      }
+      this.start(this.entries.get(next)!);
+    }
+  }
+
+  private async start(entry: QueueEntry) {
+    const controller = new AbortController();
+    entry.state = "running";
+    entry.attempt += 1;
+    entry.controller = controller;
+    this.running += 1;
+    this.options.onEvent({ type: "started", id: entry.id, attempt: entry.attempt });
+    // False once the attempt was cancelled or paused (possibly resumed since).
+    const current = () => !entry.cancelled && entry.controller === controller;
+
+    try {
+      const result = await this.options.execute(entry.id, (progress) => {
+        if (current()) {
+          this.options.onEvent({ type: "progress", id: entry.id, progress });
+        }
+      }, controller.signal);
+      if (current()) {
+        this.remove(entry.id);
+        this.options.onEvent({ type: "completed", id: entry.id, result });
+      }
+    } catch (error) {
+      if (current()) {
+        this.handleFailure(entry, error);
+      }
+    } finally {
+      if (entry.controller === controller) {
+        entry.controller = null;
+      }
+      this.running -= 1;
+      this.pump();
+    }
+  }
+
+  private handleFailure(entry: QueueEntry, error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    const kind = classifyGenerationError(error);
+
+    if (kind === "TRANSIENT" && entry.attempt <= this.options.maxRetries) {
+      const delayMs = Math.min(
+        this.options.maxDelayMs,
+        this.options.baseDelayMs * 2 ** (entry.attempt - 1)
+      );
+      entry.state = "waiting";
+      entry.timer = setTimeout(() => {
+        entry.timer = null;
+        entry.state = "queued";
+        this.pump();
+      }, delayMs);
+      this.options.onEvent({ type: "retrying", id: entry.id, attempt: entry.attempt, delayMs, error: message });
+      return;
+    }
+
+    this.remove(entry.id);
+    if (kind === "AUTH") {
+      this.halt();
+    }
+    this.options.onEvent({ type: "failed", id: entry.id, error: message, kind });
+  }
+
+  private clearTimer(entry: QueueEntry) {
+    if (entry.timer) {
+      clearTimeout(entry.timer);
+      entry.timer = null;
+    }
+  }
+
+  private remove(id: string) {
+    this.entries.delete(id);
+    this.order = this.order.filter((candidate) => candidate !== id);
+  }
+}
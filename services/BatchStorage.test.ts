@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { BatchItem } from "../types";
+import { isProgressOnlyChange } from "./BatchStorage";
+
+const item: BatchItem = {
+  id: "ITEM01",
+  productName: "Desk Lamp",
+  status: "SYNTHESIZING",
+  progress: 10,
+  images: { front: "data:image/png;base64,AAAA", back: null },
+  createdAt: 0
+};
+
+describe("isProgressOnlyChange", () => {
+  it("skips progress ticks", () => {
+    expect(isProgressOnlyChange(item, { ...item, progress: 55 })).toBe(true);
+  });
+
+  it("writes status flips and new fields", () => {
+    expect(isProgressOnlyChange(item, { ...item, progress: 100, status: "COMPLETE" })).toBe(false);
+    expect(isProgressOnlyChange(item, { ...item, error: "QUOTA" })).toBe(false);
+    expect(isProgressOnlyChange({ ...item, error: "QUOTA" }, item)).toBe(false);
+  });
+
+  it("writes replaced nested values", () => {
+    expect(isProgressOnlyChange(item, { ...item, images: { ...item.images } })).toBe(false);
+  });
+});
@@ -0,0 +1,73 @@
+import { BatchItem } from "../types";
+import { normalizeOrbitalAssets } from "../core/orbitalRings";
+
+const DB_NAME = "dkg-synth";
+const DB_VERSION = 1;
+const STORE_NAME = "batch";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          db.createObjectStore(STORE_NAME, { keyPath: "id" });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runTransaction = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, mode);
+    const request = operation(tx.objectStore(STORE_NAME));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+const restoreItem = (stored: BatchItem): BatchItem => {
+  const item = { ...stored, orbitalAssets: normalizeOrbitalAssets(stored.orbitalAssets) };
+  if (item.status === "SYNTHESIZING" || item.status === "PENDING") {
+    return { ...item, status: "FAILED", progress: 0, error: "SYNTHESIS_INTERRUPTED", resumable: true };
+  }
+  return item;
+};
+
+export const loadBatchItems = async (): Promise<BatchItem[]> => {
+  const items = await runTransaction<BatchItem[]>("readonly", (store) => store.getAll());
+  return items.map(restoreItem).sort((a, b) => b.createdAt - a.createdAt);
+};
+
+// True when `next` differs from `previous` only in progress. Records carry the
+// source images and ring sheets, so progress ticks are not worth a rewrite;
+// restoreItem resets the progress of interrupted items anyway.
+export const isProgressOnlyChange = (previous: BatchItem, next: BatchItem) => {
+  const keys = new Set([...Object.keys(previous), ...Object.keys(next)] as (keyof BatchItem)[]);
+  keys.delete("progress");
+  return [...keys].every((key) => previous[key] === next[key]);
+};
+
+export const saveBatchItem = (item: BatchItem): Promise<IDBValidKey> =>
+  runTransaction("readwrite", (store) => store.put(item));
+
+export const deleteBatchItem = (id: string): Promise<undefined> =>
+  runTransaction("readwrite", (store) => store.delete(id));
+
+export const clearBatchItems = (): Promise<undefined> =>
+  runTransaction("readwrite", (store) => store.clear());
@@ -0,0 +1,42 @@
+import orbitRuntime from "virtual:dkg-orbit-runtime";
+import { BatchItem } from "../types";
+import { createManifest } from "./ManifestService";
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"]/g, (char) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;" })[char]!);
+
+// Keeps inline payloads from closing their <script> element early.
+const escapeScript = (value: string) => value.replace(/<\/(script)/gi, "<\\/$1").replace(/<!--/g, "<\\!--");
+
+// Single-file viewer: ring sheets travel inside the embedded manifest and the
+// <dkg-orbit> runtime is inlined, so the file opens by double-click with no server.
+export const createStandaloneHtml = (item: BatchItem): string => {
+  const manifest = { ...createManifest(item), asset_data: "" };
+  const title = escapeHtml(manifest.productName);
+  const manifestJson = JSON.stringify(manifest).replace(/</g, "\\u003c");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${title}</title>
+<style>
+  html, body { margin: 0; height: 100%; background: #020204; }
+  body { display: flex; flex-direction: column; align-items: center; justify-content: center; gap: 16px;
+    font: 700 10px/1.4 system-ui, sans-serif; letter-spacing: 0.3em; text-transform: uppercase; color: rgba(255,255,255,0.6); }
+  dkg-orbit { width: min(90vw, 80vh); border-radius: 24px; overflow: hidden; }
+</style>
+</head>
+<body>
+<dkg-orbit></dkg-orbit>
+<div>${title} · Drag to spin · Vertical drag for pitch</div>
+<script type="application/json" id="dkg-manifest">${manifestJson}</script>
+<script>${escapeScript(orbitRuntime)}</script>
+<script>
+  document.querySelector("dkg-orbit").manifest = JSON.parse(document.getElementById("dkg-manifest").textContent);
+</script>
+</body>
+</html>
+`;
+};
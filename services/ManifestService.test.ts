@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import { BatchItem, DKGManifest } from "../types";
+import { createGridLayout } from "../core/gridLayout";
+import { DEFAULT_ORBITAL_PHYSICS } from "../core/orbitalPhysics";
+import { createManifest, manifestToBatchItem, parseManifest, serializeManifest } from "./ManifestService";
+
+const PIXEL = "data:image/png;base64,iVBORw0KGgo=";
+
+const completeItem = (overrides: Partial<BatchItem> = {}): BatchItem => ({
+  id: "ITEM01",
+  productName: "Desk Lamp",
+  status: "COMPLETE",
+  progress: 100,
+  resultUrl: PIXEL,
+  orbitalAssets: {
+    rings: [
+      { pitch: 30, url: PIXEL },
+      { pitch: 0, url: PIXEL }
+    ],
+    layout: createGridLayout(6, 4, { startAngle: 15, direction: -1 })
+  },
+  images: { front: null, back: null },
+  sourceChecksum: "abc123",
+  createdAt: 0,
+  ...overrides
+});
+
+const manifestJson = (patch: (raw: any) => void) => {
+  const raw = JSON.parse(serializeManifest(createManifest(completeItem())));
+  patch(raw);
+  return JSON.stringify(raw);
+};
+
+describe("createManifest", () => {
+  it("describes the sheet and rings in ascending pitch order", () => {
+    const manifest = createManifest(completeItem());
+    expect(manifest).toMatchObject<Partial<DKGManifest>>({
+      type: "DKG_MANIFEST",
+      version: "1.4.0",
+      dkgType: "ORBITAL",
+      source_checksum: "abc123"
+    });
+    expect(manifest.kinetics).toMatchObject({ mode: "ORBITAL", layout: "6x4", frames: 24, startAngle: 15, direction: -1 });
+    expect(manifest.orbital_assets?.rings.map((ring) => ring.pitch)).toEqual([0, 30]);
+  });
+
+  it("refuses items that have not finished", () => {
+    expect(() => createManifest(completeItem({ status: "SYNTHESIZING" }))).toThrow("MANIFEST_SOURCE_INCOMPLETE");
+    expect(() => createManifest(completeItem({ orbitalAssets: undefined }))).toThrow("MANIFEST_SOURCE_INCOMPLETE");
+  });
+});
+
+describe("parseManifest", () => {
+  it("round-trips a serialized manifest", () => {
+    const manifest = createManifest(completeItem());
+    const parsed = parseManifest(serializeManifest(manifest));
+    expect(parsed.orbital_assets).toEqual(manifest.orbital_assets);
+    expect(parsed.kinetics.physics).toEqual(manifest.kinetics.physics);
+  });
+
+  it("rebuilds the layout from kinetics rather than trusting stored layout", () => {
+    const parsed = parseManifest(manifestJson((raw) => {
+      raw.orbital_assets.layout = { id: "bogus" };
+    }));
+    expect(parsed.orbital_assets?.layout).toEqual(createGridLayout(6, 4, { startAngle: 15, direction: -1 }));
+  });
+
+  it("upgrades 1.3.0 manifests with legacy two-ring assets", () => {
+    const parsed = parseManifest(manifestJson((raw) => {
+      raw.version = "1.3.0";
+      raw.kinetics.layout = "4x2";
+      raw.kinetics.frames = 8;
+      raw.orbital_assets = { pitch0Url: PIXEL, pitch30Url: PIXEL };
+    }));
+    expect(parsed.orbital_assets?.rings).toEqual([
+      { pitch: 0, url: PIXEL },
+      { pitch: 30, url: PIXEL }
+    ]);
+    expect(parsed.orbital_assets?.layout.id).toBe("4x2");
+    expect(parsed.version).toBe("1.4.0");
+  });
+
+  it("fills in and clamps kinetics physics", () => {
+    const parsed = parseManifest(manifestJson((raw) => {
+      raw.kinetics.physics = { friction: 3, elasticity: 0.4 };
+    }));
+    expect(parsed.kinetics.physics).toEqual({ ...DEFAULT_ORBITAL_PHYSICS, friction: 1, elasticity: 0.4 });
+  });
+
+  it.each([
+    ["not json", "{", "MANIFEST_INVALID: not valid JSON"],
+    ["a foreign document", JSON.stringify({ type: "OTHER" }), "MANIFEST_INVALID: missing DKG_MANIFEST header"],
+    ["another version", manifestJson((raw) => { raw.version = "2.0.0"; }), "MANIFEST_UNSUPPORTED_VERSION: 2.0.0"],
+    ["rings under the legacy version", manifestJson((raw) => { raw.version = "1.3.0"; }), "MANIFEST_INVALID: orbital ring assets missing"],
+    ["legacy assets under the current version", manifestJson((raw) => { raw.orbital_assets = { pitch0Url: PIXEL, pitch30Url: PIXEL }; }), "MANIFEST_INVALID: orbital ring assets missing"],
+    ["a bad layout", manifestJson((raw) => { raw.kinetics.layout = "4by2"; }), "MANIFEST_INVALID: unsupported kinetics layout"],
+    ["no rings", manifestJson((raw) => { raw.orbital_assets.rings = []; }), "MANIFEST_INVALID: orbital ring assets missing"],
+    ["remote ring urls", manifestJson((raw) => { raw.orbital_assets.rings[0].url = "https://example.com/a.png"; }), "MANIFEST_INVALID: orbital ring assets missing"],
+    ["remote flow urls", manifestJson((raw) => { raw.orbital_assets.rings[0].flowUrl = "https://example.com/f.png"; }), "MANIFEST_INVALID: orbital ring assets missing"]
+  ])("rejects %s", (_, source, message) => {
+    expect(() => parseManifest(source)).toThrow(message);
+  });
+});
+
+describe("manifestToBatchItem", () => {
+  it("restores a complete item", () => {
+    const item = manifestToBatchItem(parseManifest(serializeManifest(createManifest(completeItem()))), "NEW01");
+    expect(item).toMatchObject({ id: "NEW01", productName: "Desk Lamp", status: "COMPLETE", sourceChecksum: "abc123" });
+    expect(item.orbitalAssets?.layout.frames).toBe(24);
+  });
+
+  it("carries physics through to the item and back", () => {
+    const physics = { ...DEFAULT_ORBITAL_PHYSICS, friction: 0.8, restPitch: 15, pitchSpring: 0.1 };
+    const manifest = createManifest(completeItem({ physics }));
+    const item = manifestToBatchItem(parseManifest(serializeManifest(manifest)), "NEW02");
+    expect(item.physics).toEqual(physics);
+  });
+});
@@ -0,0 +1,114 @@
+import { BatchItem, DKGManifest } from "../types";
+import { createGridLayout, parseGridLayoutId } from "../core/gridLayout";
+import { normalizeOrbitalAssets, sortRings } from "../core/orbitalRings";
+import { resolveOrbitalPhysics } from "../core/orbitalPhysics";
+
+const MANIFEST_VERSION = "1.4.0";
+// Two fixed rings: orbital_assets holds pitch0Url/pitch30Url instead of rings[].
+const LEGACY_MANIFEST_VERSION = "1.3.0";
+const ORBITAL_SCALE = 0.75;
+
+export const createManifest = (item: BatchItem): DKGManifest => {
+  if (item.status !== "COMPLETE" || !item.orbitalAssets) {
+    throw new Error("MANIFEST_SOURCE_INCOMPLETE");
+  }
+
+  const { layout } = item.orbitalAssets;
+
+  return {
+    version: MANIFEST_VERSION,
+    type: "DKG_MANIFEST",
+    dkgType: "ORBITAL",
+    productName: item.productName,
+    timestamp: new Date().toISOString(),
+    kinetics: {
+      mode: "ORBITAL",
+      layout: layout.id,
+      frames: layout.frames,
+      startAngle: layout.startAngle,
+      direction: layout.direction,
+      scale: ORBITAL_SCALE,
+      alignment: "CENTROID",
+      physics: resolveOrbitalPhysics(item.physics)
+    },
+    source_checksum: item.sourceChecksum ?? "",
+    asset_data: item.resultUrl,
+    orbital_assets: {
+      rings: sortRings(item.orbitalAssets.rings).map((ring) => ({ ...ring })),
+      layout: { ...layout }
+    }
+  };
+};
+
+export const serializeManifest = (manifest: DKGManifest): string =>
+  JSON.stringify(manifest, null, 2);
+
+const isDataUrl = (value: unknown): value is string =>
+  typeof value === "string" && value.startsWith("data:image/");
+
+export const parseManifest = (source: string): DKGManifest => {
+  let raw: any;
+  try {
+    raw = JSON.parse(source);
+  } catch {
+    throw new Error("MANIFEST_INVALID: not valid JSON");
+  }
+
+  if (!raw || raw.type !== "DKG_MANIFEST") {
+    throw new Error("MANIFEST_INVALID: missing DKG_MANIFEST header");
+  }
+  if (raw.version !== MANIFEST_VERSION && raw.version !== LEGACY_MANIFEST_VERSION) {
+    throw new Error(`MANIFEST_UNSUPPORTED_VERSION: ${raw.version}`);
+  }
+  const grid = typeof raw.kinetics?.layout === "string" ? parseGridLayoutId(raw.kinetics.layout) : null;
+  if (raw.kinetics?.mode !== "ORBITAL" || !grid) {
+    throw new Error("MANIFEST_INVALID: unsupported kinetics layout");
+  }
+
+  const layout = createGridLayout(grid.columns, grid.rows, {
+    frames: Number(raw.kinetics.frames) || undefined,
+    startAngle: Number(raw.kinetics.startAngle) || 0,
+    direction: raw.kinetics.direction === -1 ? -1 : 1
+  });
+  // Each version carries only its own asset shape.
+  const shapeMatches = raw.version === LEGACY_MANIFEST_VERSION
+    ? typeof raw.orbital_assets?.pitch0Url === "string"
+    : Array.isArray(raw.orbital_assets?.rings);
+  const stored = shapeMatches ? normalizeOrbitalAssets(raw.orbital_assets) : undefined;
+  const assets = stored && { ...stored, layout };
+  const ringsValid = assets?.rings.length
+    && assets.rings.every((ring) =>
+      Number.isFinite(ring.pitch) && isDataUrl(ring.url) && (ring.flowUrl === undefined || isDataUrl(ring.flowUrl)));
+  if (!ringsValid) {
+    throw new Error("MANIFEST_INVALID: orbital ring assets missing");
+  }
+
+  return {
+    ...raw,
+    version: MANIFEST_VERSION,
+    kinetics: { ...raw.kinetics, physics: resolveOrbitalPhysics(raw.kinetics.physics ?? {}) },
+    orbital_assets: assets
+  } as DKGManifest;
+};
+
+export const manifestToBatchItem = (manifest: DKGManifest, id: string): BatchItem => {
+  if (!manifest.orbital_assets) {
+    throw new Error("MANIFEST_INVALID: orbital ring assets missing");
+  }
+
+  return {
+    id,
+    productName: manifest.productName || "IMPORTED_GOLEM",
+    status: "COMPLETE",
+    progress: 100,
+    resultUrl: manifest.asset_data,
+    orbitalAssets: {
+      rings: sortRings(manifest.orbital_assets.rings),
+      layout: manifest.orbital_assets.layout
+    },
+    images: { front: null, back: null },
+    sourceChecksum: manifest.source_checksum || undefined,
+    physics: resolveOrbitalPhysics(manifest.kinetics.physics),
+    createdAt: Date.now()
+  };
+};
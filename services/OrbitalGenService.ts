@@ -1,89 +1,128 @@
-import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
+import { GridLayout, OrbitalAssets, SpriteQualityReport } from "../types";
+import { DEFAULT_GRID_LAYOUT, frameAngle } from "../core/gridLayout";
+import { DEFAULT_RING_PITCHES, sortRings } from "../core/orbitalRings";
+import { alignOrbitalAssets, extractCells, realignFrames, spliceCells, summarizeQuality } from "./SpriteSheetProcessor";
+import { GeminiOrbitalProvider } from "./providers/GeminiOrbitalProvider";
+import { ProceduralOrbitalProvider } from "./providers/ProceduralOrbitalProvider";
+import { OrbitalGenOptions, OrbitalGenProvider, OrbitalProviderId, throwIfAborted } from "./providers/OrbitalProvider";
 
-export type OrbitalGridResult = {
-  pitch0Url: string;
-  pitch30Url: string;
+const GENERATION_PROGRESS_SHARE = 0.85;
+
+export type OrbitalGenResult = {
+  assets: OrbitalAssets;
+  quality: SpriteQualityReport;
 };
 
+export const createOrbitalProvider = (id: OrbitalProviderId, apiKey: string): OrbitalGenProvider =>
+  id === "procedural" ? new ProceduralOrbitalProvider() : new GeminiOrbitalProvider(apiKey);
+
 export const generateOrbitalAssets = async (
   productName: string,
   frontImageBase64: string,
   backImageBase64: string,
-  apiKey: string
-): Promise<OrbitalGridResult> => {
-  if (!apiKey) {
-    throw new Error("AUTH_PROTOCOL_EXPIRED");
+  provider: OrbitalGenProvider,
+  pitches: number[] = DEFAULT_RING_PITCHES,
+  layout: GridLayout = DEFAULT_GRID_LAYOUT,
+  options: OrbitalGenOptions = {}
+): Promise<OrbitalGenResult> => {
+  if (pitches.length === 0) {
+    throw new Error("PITCH_RINGS_REQUIRED");
   }
 
-  const ai = new GoogleGenAI({ apiKey });
-  const frontData = frontImageBase64.split(",")[1];
-  const backData = backImageBase64.split(",")[1];
-
-  const BASE_PROMPT = `
-    TASK: Generate a "Mechanical Sprite Sheet" for "${productName}".
-    SYSTEM ARCHITECTURE: Kinetic Sprite Architecture (Orbital Mode).
-
-    MECHANICAL GRID MANIFEST:
-    - Structure: 4x2 Grid (8 total cells).
-    - Resolution: 1024x512 (Overall), 256x256 (Per Cell).
-    - Background: Solid Pure White (#FFFFFF).
-    - Alignment: CENTROID ALIGNMENT (Object centered perfectly in each cell).
-    - Scale: 75% VOLUMETRIC SCALE (Object fills 75% of cell height/width).
-
-    ORBITAL ROTATION MAP (Y-Axis):
-    Row 1: [0° (FRONT)], [45° (FRONT-RIGHT)], [90° (RIGHT PROFILE)], [135° (BACK-RIGHT)]
-    Row 2: [180° (BACK)], [225° (BACK-LEFT)], [270° (LEFT PROFILE)], [315° (FRONT-LEFT)]
-
-    STRICT RENDERING RULES:
-    1. OBJECT IDENTITY: Product must be 100% identical in every frame.
-    2. NO BORDERS: No grid lines or text labels.
-    3. CAMERA LOCK: Fixed height, fixed focal length.
-  `;
+  const urls = await provider.generateRings({
+    productName,
+    frontImage: frontImageBase64,
+    backImage: backImageBase64,
+    pitches,
+    layout
+  }, {
+    onProgress: (progress) => options.onProgress?.(progress * GENERATION_PROGRESS_SHARE),
+    signal: options.signal
+  });
+  throwIfAborted(options.signal);
 
-  const generateRing = async (pitchAngle: number): Promise<string> => {
-    const angleSpecificPrompt = `
-      ${BASE_PROMPT}
-
-      CAMERA PITCH CONFIGURATION:
-      - Angle: ${pitchAngle}° (degrees down from horizontal).
-      ${pitchAngle === 30 ? '- Context: This is the "Top-Down" view ring.' : '- Context: This is the "Eye-Level" view ring.'}
-    `;
-
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: "gemini-3-pro-image-preview",
-      contents: {
-        parts: [
-          { inlineData: { data: frontData, mimeType: "image/png" } },
-          { inlineData: { data: backData, mimeType: "image/png" } },
-          { text: angleSpecificPrompt }
-        ]
-      },
-      config: {
-        imageConfig: { aspectRatio: "16:9", imageSize: "1K" }
-      }
-    });
+  const result = await alignOrbitalAssets({
+    rings: sortRings(pitches.map((pitch, i) => ({ pitch, url: urls[i] }))),
+    layout
+  });
+  throwIfAborted(options.signal);
+  options.onProgress?.(1);
+  return result;
+};
 
-    let imageUrl = "";
-    if (response.candidates?.[0]?.content?.parts) {
-      for (const part of response.candidates[0].content.parts) {
-        if (part.inlineData) {
-          imageUrl = `data:image/png;base64,${part.inlineData.data}`;
+// Picks the closest unflagged cell on each side of every flagged frame so the
+// backend can match the surrounding renders.
+const neighborFrames = (frameCount: number, flagged: number[]) => {
+  const neighbors = new Set<number>();
+  for (const frame of flagged) {
+    for (const step of [-1, 1]) {
+      for (let offset = 1; offset < frameCount; offset++) {
+        const candidate = (frame + step * offset + frameCount) % frameCount;
+        if (!flagged.includes(candidate)) {
+          neighbors.add(candidate);
           break;
         }
       }
     }
+  }
+  return Array.from(neighbors).sort((a, b) => a - b);
+};
 
-    if (!imageUrl) {
-      throw new Error(`Failed to generate ring at ${pitchAngle}°`);
-    }
+export const regenerateFrames = async (
+  productName: string,
+  frontImageBase64: string,
+  backImageBase64: string,
+  assets: OrbitalAssets,
+  quality: SpriteQualityReport | undefined,
+  pitch: number,
+  frames: number[],
+  provider: OrbitalGenProvider,
+  signal?: AbortSignal
+): Promise<OrbitalGenResult> => {
+  const ring = assets.rings.find((candidate) => candidate.pitch === pitch);
+  if (!ring) {
+    throw new Error(`RING_NOT_FOUND: ${pitch}°`);
+  }
+  if (frames.length === 0 || frames.length >= assets.layout.frames) {
+    throw new Error("FRAME_SELECTION_INVALID");
+  }
 
-    return imageUrl;
-  };
+  const { layout } = assets;
+  const referenceFrames = neighborFrames(layout.frames, frames);
+  const referenceUrls = await extractCells(ring.url, layout, referenceFrames);
+
+  const cells = await provider.generateFrames({
+    productName,
+    frontImage: frontImageBase64,
+    backImage: backImageBase64,
+    pitch,
+    layout,
+    frames,
+    references: referenceFrames.map((frame, i) => ({
+      frame,
+      angle: frameAngle(layout, frame),
+      url: referenceUrls[i]
+    }))
+  }, { signal });
+  throwIfAborted(signal);
 
-  const [pitch0Url, pitch30Url] = await Promise.all([
-    generateRing(0),
-    generateRing(30)
-  ]);
+  const splicedUrl = await spliceCells(
+    ring.url,
+    layout,
+    frames.map((frame, i) => ({ frame, url: cells[i] }))
+  );
+  const previous = quality?.rings.find((report) => report.pitch === pitch);
+  const aligned = await realignFrames({ pitch, url: splicedUrl, flowUrl: ring.flowUrl }, layout, frames, previous);
+  throwIfAborted(signal);
 
-  return { pitch0Url, pitch30Url };
+  const rings = assets.rings.map((candidate) => (candidate.pitch === pitch ? aligned.ring : candidate));
+  const reports = [
+    ...(quality?.rings.filter((report) => report.pitch !== pitch) ?? []),
+    aligned.report
+  ];
+
+  return {
+    assets: { ...assets, rings },
+    quality: summarizeQuality(reports)
+  };
 };
@@ -0,0 +1,235 @@
+import { GridLayout, OrbitalAssets, OrbitalRing, RingQualityReport, SpriteQualityReport } from "../types";
+import { CELL_SIZE, cellPosition, sheetSize } from "../core/gridLayout";
+import { createCanvas, loadImage } from "../core/imageUtils";
+import { computeAlphaMatte } from "../core/alphaMatte";
+import { computeFlowField, updateFlowField } from "../core/opticalFlow";
+import { CellMeasurement, PixelBuffer, alignedRect, evaluateCells, measureCell, scoreWarnings } from "../core/spriteAlignment";
+
+export type AlignedRing = {
+  ring: OrbitalRing;
+  report: RingQualityReport;
+};
+
+type AlignmentCanvases = {
+  image: HTMLImageElement;
+  canonical: HTMLCanvasElement;
+  output: HTMLCanvasElement;
+  ctx: CanvasRenderingContext2D;
+  measurements: CellMeasurement[];
+};
+
+// Loads a ring onto the canonical sheet and measures every cell. Whatever aspect
+// the backend returned, the grid is assumed to span the whole image, so it is
+// resampled onto the canonical sheet before slicing.
+const prepareAlignment = async (url: string, layout: GridLayout): Promise<AlignmentCanvases> => {
+  const image = await loadImage(url);
+  const { width, height } = sheetSize(layout);
+
+  const canonical = createCanvas(width, height);
+  const sourceCtx = canonical.getContext("2d");
+  const output = createCanvas(width, height);
+  const ctx = output.getContext("2d");
+  if (!sourceCtx || !ctx) {
+    throw new Error("ALIGNMENT_CANVAS_UNAVAILABLE");
+  }
+
+  sourceCtx.fillStyle = "#ffffff";
+  sourceCtx.fillRect(0, 0, width, height);
+  sourceCtx.drawImage(image, 0, 0, width, height);
+  const pixels = sourceCtx.getImageData(0, 0, width, height);
+
+  ctx.fillStyle = "#ffffff";
+  ctx.fillRect(0, 0, width, height);
+  ctx.imageSmoothingQuality = "high";
+
+  const measurements = Array.from({ length: layout.frames }, (_, frame) => {
+    const { column, row } = cellPosition(layout, frame);
+    return measureCell(pixels, { x: column * CELL_SIZE, y: row * CELL_SIZE, width: CELL_SIZE, height: CELL_SIZE });
+  });
+  return { image, canonical, output, ctx, measurements };
+};
+
+// Draws one cell of the canonical sheet into the output, re-centred and scaled;
+// cells without an object are copied as they are.
+const drawAlignedCell = (canvases: AlignmentCanvases, layout: GridLayout, frame: number) => {
+  const { column, row } = cellPosition(layout, frame);
+  const originX = column * CELL_SIZE;
+  const originY = row * CELL_SIZE;
+  const { bounds } = canvases.measurements[frame];
+  if (!bounds) {
+    canvases.ctx.drawImage(canvases.canonical, originX, originY, CELL_SIZE, CELL_SIZE, originX, originY, CELL_SIZE, CELL_SIZE);
+    return;
+  }
+
+  const target = alignedRect(bounds, CELL_SIZE);
+  canvases.ctx.drawImage(
+    canvases.canonical,
+    originX + bounds.x,
+    originY + bounds.y,
+    bounds.width,
+    bounds.height,
+    originX + target.x,
+    originY + target.y,
+    target.width,
+    target.height
+  );
+};
+
+const outputMatte = ({ output, ctx }: AlignmentCanvases, layout: GridLayout) =>
+  computeAlphaMatte(ctx.getImageData(0, 0, output.width, output.height), layout);
+
+const loadPixels = async (url: string): Promise<PixelBuffer> => {
+  const image = await loadImage(url);
+  const ctx = createCanvas(image.naturalWidth, image.naturalHeight).getContext("2d", { willReadFrequently: true });
+  if (!ctx) {
+    throw new Error("ALIGNMENT_CANVAS_UNAVAILABLE");
+  }
+  ctx.drawImage(image, 0, 0);
+  return ctx.getImageData(0, 0, image.naturalWidth, image.naturalHeight);
+};
+
+export const alignRing = async (ring: OrbitalRing, layout: GridLayout): Promise<AlignedRing> => {
+  const canvases = await prepareAlignment(ring.url, layout);
+  const { image, output } = canvases;
+  for (let frame = 0; frame < layout.frames; frame++) {
+    drawAlignedCell(canvases, layout, frame);
+  }
+
+  const { score, warnings } = evaluateCells(canvases.measurements, CELL_SIZE);
+  const flow = computeFlowField(outputMatte(canvases, layout), layout);
+  return {
+    ring: { pitch: ring.pitch, url: output.toDataURL("image/png"), flowUrl: encodeFlow(flow) },
+    report: {
+      pitch: ring.pitch,
+      score,
+      sourceWidth: image.naturalWidth,
+      sourceHeight: image.naturalHeight,
+      warnings
+    }
+  };
+};
+
+// Aligns only `frames` of an aligned ring whose cells were spliced in with
+// spliceCells. The other cells are copied verbatim so they do not drift with
+// every regeneration, and they keep their warnings from `previous`; the flow is
+// recomputed only around the new cells.
+export const realignFrames = async (
+  ring: OrbitalRing,
+  layout: GridLayout,
+  frames: number[],
+  previous?: RingQualityReport
+): Promise<AlignedRing> => {
+  const canvases = await prepareAlignment(ring.url, layout);
+  const { image, canonical, output, ctx } = canvases;
+  ctx.drawImage(canonical, 0, 0);
+  for (const frame of frames) {
+    const { column, row } = cellPosition(layout, frame);
+    ctx.fillRect(column * CELL_SIZE, row * CELL_SIZE, CELL_SIZE, CELL_SIZE);
+    drawAlignedCell(canvases, layout, frame);
+  }
+
+  // The untouched cells set the typical height the new ones are held to.
+  const fresh = evaluateCells(canvases.measurements, CELL_SIZE).warnings.filter((warning) => frames.includes(warning.frame));
+  const kept = previous?.warnings.filter((warning) => !frames.includes(warning.frame)) ?? [];
+  const warnings = [...kept, ...fresh].sort((a, b) => a.frame - b.frame);
+
+  const matte = outputMatte(canvases, layout);
+  const flow = ring.flowUrl
+    ? updateFlowField(await loadPixels(ring.flowUrl), matte, layout, frames)
+    : computeFlowField(matte, layout);
+  return {
+    ring: { pitch: ring.pitch, url: output.toDataURL("image/png"), flowUrl: encodeFlow(flow) },
+    report: {
+      pitch: ring.pitch,
+      score: scoreWarnings(warnings, layout.frames),
+      sourceWidth: previous?.sourceWidth ?? image.naturalWidth,
+      sourceHeight: previous?.sourceHeight ?? image.naturalHeight,
+      warnings
+    }
+  };
+};
+
+// Flow fields are stored as opaque PNGs so the vectors survive encoding exactly.
+const encodeFlow = (flow: PixelBuffer) => {
+  const canvas = createCanvas(flow.width, flow.height);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) {
+    throw new Error("ALIGNMENT_CANVAS_UNAVAILABLE");
+  }
+  const pixels = ctx.createImageData(flow.width, flow.height);
+  pixels.data.set(flow.data);
+  ctx.putImageData(pixels, 0, 0);
+  return canvas.toDataURL("image/png");
+};
+
+export const summarizeQuality = (reports: RingQualityReport[]): SpriteQualityReport => {
+  const rings = [...reports].sort((a, b) => a.pitch - b.pitch);
+  const score = rings.length
+    ? Math.round(rings.reduce((sum, report) => sum + report.score, 0) / rings.length)
+    : 0;
+  return { score, rings };
+};
+
+export const alignOrbitalAssets = async (
+  assets: OrbitalAssets
+): Promise<{ assets: OrbitalAssets; quality: SpriteQualityReport }> => {
+  const aligned = await Promise.all(assets.rings.map((ring) => alignRing(ring, assets.layout)));
+  return {
+    assets: { ...assets, rings: aligned.map((entry) => entry.ring) },
+    quality: summarizeQuality(aligned.map((entry) => entry.report))
+  };
+};
+
+export const extractCells = async (
+  ringUrl: string,
+  layout: GridLayout,
+  frames: number[]
+): Promise<string[]> => {
+  const image = await loadImage(ringUrl);
+  const scaleX = image.naturalWidth / sheetSize(layout).width;
+  const scaleY = image.naturalHeight / sheetSize(layout).height;
+
+  return frames.map((frame) => {
+    const { column, row } = cellPosition(layout, frame);
+    const cell = createCanvas(CELL_SIZE, CELL_SIZE);
+    cell.getContext("2d")!.drawImage(
+      image,
+      column * CELL_SIZE * scaleX,
+      row * CELL_SIZE * scaleY,
+      CELL_SIZE * scaleX,
+      CELL_SIZE * scaleY,
+      0,
+      0,
+      CELL_SIZE,
+      CELL_SIZE
+    );
+    return cell.toDataURL("image/png");
+  });
+};
+
+export const spliceCells = async (
+  ringUrl: string,
+  layout: GridLayout,
+  cells: { frame: number; url: string }[]
+): Promise<string> => {
+  const [sheet, ...replacements] = await Promise.all([
+    loadImage(ringUrl),
+    ...cells.map((cell) => loadImage(cell.url))
+  ]);
+  const { width, height } = sheetSize(layout);
+  const output = createCanvas(width, height);
+  const ctx = output.getContext("2d");
+  if (!ctx) {
+    throw new Error("ALIGNMENT_CANVAS_UNAVAILABLE");
+  }
+
+  ctx.drawImage(sheet, 0, 0, width, height);
+  cells.forEach((cell, i) => {
+    const { column, row } = cellPosition(layout, cell.frame);
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(column * CELL_SIZE, row * CELL_SIZE, CELL_SIZE, CELL_SIZE);
+    ctx.drawImage(replacements[i], column * CELL_SIZE, row * CELL_SIZE, CELL_SIZE, CELL_SIZE);
+  });
+
+  return output.toDataURL("image/png");
+};
@@ -0,0 +1,215 @@
+import { OrbitalAssets, OrbitalStage, TurntableArtifact, TurntableFormat } from "../types";
+import { createOrbitalRenderer } from "../core/OrbitalCanvasRenderer";
+import { loadTextureRings } from "../core/orbitalRenderer";
+import { createCanvas } from "../core/imageUtils";
+import { DEFAULT_TURNTABLE_OPTIONS, TurntableOptions, TurntablePose, turntablePoses } from "../core/turntable";
+import { GifEncoder } from "../core/encoders/GifEncoder";
+import { accumulateHistogram, createColorHistogram, medianCutPalette } from "../core/encoders/colorQuantizer";
+import { WebPFrame, muxAnimatedWebP } from "../core/encoders/webpMuxer";
+import { encodeWebPLossless } from "../core/encoders/webpLossless";
+
+export type TurntableExportOptions = {
+  onProgress?: (progress: number) => void;
+  signal?: AbortSignal;
+  // Backdrop, floor effects and lighting to render with; a white backdrop by default.
+  stage?: OrbitalStage;
+};
+
+const WEBM_TYPES = ["video/webm;codecs=vp9", "video/webm;codecs=vp8", "video/webm"];
+const HISTOGRAM_STEP = 3;
+
+const checkAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) {
+    throw new Error("EXPORT_CANCELLED");
+  }
+};
+
+const nextTask = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const webmType = () =>
+  typeof MediaRecorder === "undefined" ? undefined : WEBM_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+
+const formatSupport = new Map<TurntableFormat, boolean>();
+
+const detectFormatSupport = (format: TurntableFormat) => {
+  if (format === "webm") {
+    return !!webmType() && typeof HTMLCanvasElement.prototype.captureStream === "function";
+  }
+  return true;
+};
+
+export const isTurntableFormatSupported = (format: TurntableFormat) => {
+  if (!formatSupport.has(format)) {
+    formatSupport.set(format, detectFormatSupport(format));
+  }
+  return formatSupport.get(format)!;
+};
+
+type TurntableRenderer = {
+  poses: TurntablePose[];
+  render: (pose: TurntablePose) => HTMLCanvasElement;
+  dispose: () => void;
+};
+
+// Drives an offscreen orbital renderer (WebGL, or the Canvas2D fallback) through
+// the scripted poses. Each render is copied into a 2D canvas right away, since
+// the WebGL buffer is not preserved between frames.
+const createTurntableRenderer = async (
+  assets: OrbitalAssets,
+  options: TurntableOptions,
+  stage?: OrbitalStage
+): Promise<TurntableRenderer> => {
+  const rings = await loadTextureRings(assets.rings);
+  const glCanvas = createCanvas(options.size, options.size);
+  const visualizer = createOrbitalRenderer(glCanvas, { rings, layout: assets.layout });
+  if (!visualizer.isSupported()) {
+    visualizer.dispose(true);
+    throw new Error("RENDERER_UNAVAILABLE");
+  }
+  visualizer.setSize(options.size, options.size);
+  if (stage) {
+    try {
+      await visualizer.setStage(stage);
+    } catch (err) {
+      visualizer.dispose(true);
+      throw err;
+    }
+  }
+
+  const frame = createCanvas(options.size, options.size);
+  const ctx = frame.getContext("2d", { willReadFrequently: true });
+  if (!ctx) {
+    visualizer.dispose(true);
+    throw new Error("EXPORT_CANVAS_UNAVAILABLE");
+  }
+
+  return {
+    poses: turntablePoses(options, rings.map((ring) => ring.pitch)),
+    render: (pose) => {
+      visualizer.setPose(pose.yaw, pose.pitch);
+      visualizer.render();
+      if (visualizer.isContextLost()) {
+        throw new Error("WEBGL_CONTEXT_LOST");
+      }
+      ctx.fillStyle = "#ffffff";
+      ctx.fillRect(0, 0, frame.width, frame.height);
+      ctx.drawImage(glCanvas, 0, 0);
+      return frame;
+    },
+    // Browsers cap live WebGL contexts, so each export hands its own back.
+    dispose: () => visualizer.dispose(true)
+  };
+};
+
+const pixelsOf = (canvas: HTMLCanvasElement) =>
+  canvas.getContext("2d")!.getImageData(0, 0, canvas.width, canvas.height).data;
+
+const encodeGif = async (renderer: TurntableRenderer, options: TurntableOptions, exportOptions: TurntableExportOptions) => {
+  const { poses } = renderer;
+  const total = poses.length * 2;
+
+  // Pass 1 builds one palette for the whole loop so colours do not flicker.
+  const histogram = createColorHistogram();
+  for (let i = 0; i < poses.length; i++) {
+    checkAborted(exportOptions.signal);
+    accumulateHistogram(histogram, pixelsOf(renderer.render(poses[i])), HISTOGRAM_STEP);
+    exportOptions.onProgress?.((i + 1) / total);
+    await nextTask();
+  }
+
+  const encoder = new GifEncoder(options.size, options.size, medianCutPalette(histogram));
+  for (let i = 0; i < poses.length; i++) {
+    checkAborted(exportOptions.signal);
+    encoder.addFrame(pixelsOf(renderer.render(poses[i])), 1000 / options.fps);
+    exportOptions.onProgress?.((poses.length + i + 1) / total);
+    await nextTask();
+  }
+  return new Blob([encoder.finish()], { type: "image/gif" });
+};
+
+const encodeWebP = async (renderer: TurntableRenderer, options: TurntableOptions, exportOptions: TurntableExportOptions) => {
+  const frames: WebPFrame[] = [];
+  for (let i = 0; i < renderer.poses.length; i++) {
+    checkAborted(exportOptions.signal);
+    const data = encodeWebPLossless(pixelsOf(renderer.render(renderer.poses[i])), options.size, options.size);
+    frames.push({ data, durationMs: 1000 / options.fps });
+    exportOptions.onProgress?.((i + 1) / renderer.poses.length);
+    await nextTask();
+  }
+  return new Blob([muxAnimatedWebP(frames, options.size, options.size)], { type: "image/webp" });
+};
+
+// MediaRecorder timestamps frames by wall clock, so the sweep is played back in
+// real time while recording.
+const recordWebM = async (renderer: TurntableRenderer, options: TurntableOptions, exportOptions: TurntableExportOptions) => {
+  const mimeType = webmType();
+  if (!mimeType) {
+    throw new Error("WEBM_UNSUPPORTED");
+  }
+
+  const stage = createCanvas(options.size, options.size);
+  const ctx = stage.getContext("2d")!;
+  const stream = stage.captureStream(0);
+  const track = stream.getVideoTracks()[0] as MediaStreamTrack & { requestFrame?: () => void };
+  const recorder = new MediaRecorder(stream, { mimeType });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) {
+      chunks.push(event.data);
+    }
+  };
+  const stopped = new Promise<void>((resolve) => {
+    recorder.onstop = () => resolve();
+  });
+
+  const frameInterval = 1000 / options.fps;
+  recorder.start();
+  try {
+    for (let i = 0; i < renderer.poses.length; i++) {
+      checkAborted(exportOptions.signal);
+      ctx.drawImage(renderer.render(renderer.poses[i]), 0, 0);
+      track.requestFrame?.();
+      exportOptions.onProgress?.((i + 1) / renderer.poses.length);
+      await new Promise((resolve) => setTimeout(resolve, frameInterval));
+    }
+  } finally {
+    recorder.stop();
+    await stopped;
+    track.stop();
+  }
+  return new Blob(chunks, { type: "video/webm" });
+};
+
+const ENCODERS: Record<TurntableFormat, typeof encodeGif> = {
+  gif: encodeGif,
+  webp: encodeWebP,
+  webm: recordWebM
+};
+
+export const exportTurntable = async (
+  assets: OrbitalAssets,
+  format: TurntableFormat,
+  options: TurntableOptions = DEFAULT_TURNTABLE_OPTIONS,
+  exportOptions: TurntableExportOptions = {}
+): Promise<TurntableArtifact> => {
+  const renderer = await createTurntableRenderer(assets, options, exportOptions.stage);
+  let blob: Blob;
+  try {
+    checkAborted(exportOptions.signal);
+    blob = await ENCODERS[format](renderer, options, exportOptions);
+  } finally {
+    renderer.dispose();
+  }
+  exportOptions.onProgress?.(1);
+
+  return {
+    id: Math.random().toString(36).substring(2, 9).toUpperCase(),
+    format,
+    blob,
+    width: options.size,
+    height: options.size,
+    frames: renderer.poses.length,
+    durationMs: options.durationMs,
+    createdAt: Date.now()
+  };
+};
@@ -1,10 +1,12 @@
 
 import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
+import { GENERATION_CANCELLED } from "./providers/OrbitalProvider";
 
 export const generateTurntableGrid = async (
   productName: string,
   frontImageBase64: string,
-  backImageBase64: string | null
+  backImageBase64: string | null,
+  signal?: AbortSignal
 ): Promise<string> => {
   // Create a fresh instance right before the call to ensure the latest API key is used
   const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
@@ -53,7 +55,8 @@ export const generateTurntableGrid = async (
         imageConfig: {
           aspectRatio: "16:9",
           imageSize: "1K"
-        }
+        },
+        abortSignal: signal
       },
     });
 
@@ -70,6 +73,9 @@ export const generateTurntableGrid = async (
     if (!imageUrl) throw new Error("STITCH_VOID: Frame synthesis failed to materialize.");
     return imageUrl;
   } catch (error: any) {
+    if (signal?.aborted) {
+      throw new Error(GENERATION_CANCELLED);
+    }
     const errorMsg = error.message || "";
     // If the request fails with this specific message, it indicates an auth/session reset is needed
     if (errorMsg.includes("Requested entity was not found") || errorMsg.includes("403") || errorMsg.includes("key")) {
@@ -0,0 +1,214 @@
+import { GoogleGenAI, GenerateContentResponse, Part } from "@google/genai";
+import { GridLayout } from "../../types";
+import { CELL_SIZE, cellPosition, describeViewAngle, frameAngle, sheetSize } from "../../core/gridLayout";
+import { describeRingPitch } from "../../core/orbitalRings";
+import {
+  GENERATION_CANCELLED,
+  OrbitalFrameRequest,
+  OrbitalGenOptions,
+  OrbitalGenProvider,
+  OrbitalGenRequest,
+  throwIfAborted
+} from "./OrbitalProvider";
+
+const ASPECT_RATIOS: [string, number][] = [
+  ["1:1", 1],
+  ["4:3", 4 / 3],
+  ["3:2", 3 / 2],
+  ["16:9", 16 / 9],
+  ["21:9", 21 / 9]
+];
+
+const closestAspectRatio = (layout: GridLayout) => {
+  const target = layout.columns / layout.rows;
+  return ASPECT_RATIOS.reduce((best, candidate) =>
+    Math.abs(candidate[1] - target) < Math.abs(best[1] - target) ? candidate : best
+  )[0];
+};
+
+const buildRotationMap = (layout: GridLayout) => {
+  const rows: string[] = [];
+  for (let row = 0; row < layout.rows; row++) {
+    const cells: string[] = [];
+    for (let frame = 0; frame < layout.frames; frame++) {
+      if (cellPosition(layout, frame).row === row) {
+        const angle = frameAngle(layout, frame);
+        cells.push(`[${Number(angle.toFixed(1))}° (${describeViewAngle(angle)})]`);
+      }
+    }
+    if (cells.length > 0) {
+      rows.push(`Row ${row + 1}: ${cells.join(", ")}`);
+    }
+  }
+  return rows.join("\n    ");
+};
+
+const buildBasePrompt = (productName: string, layout: GridLayout) => {
+  const { width, height } = sheetSize(layout);
+  return `
+    TASK: Generate a "Mechanical Sprite Sheet" for "${productName}".
+    SYSTEM ARCHITECTURE: Kinetic Sprite Architecture (Orbital Mode).
+
+    MECHANICAL GRID MANIFEST:
+    - Structure: ${layout.columns}x${layout.rows} Grid (${layout.frames} total cells).
+    - Resolution: ${width}x${height} (Overall), ${CELL_SIZE}x${CELL_SIZE} (Per Cell).
+    - Background: Solid Pure White (#FFFFFF).
+    - Alignment: CENTROID ALIGNMENT (Object centered perfectly in each cell).
+    - Scale: 75% VOLUMETRIC SCALE (Object fills 75% of cell height/width).
+
+    ORBITAL ROTATION MAP (Y-Axis):
+    ${buildRotationMap(layout)}
+
+    STRICT RENDERING RULES:
+    1. OBJECT IDENTITY: Product must be 100% identical in every frame.
+    2. NO BORDERS: No grid lines or text labels.
+    3. CAMERA LOCK: Fixed height, fixed focal length.
+  `;
+};
+
+export class GeminiOrbitalProvider implements OrbitalGenProvider {
+  readonly id = "gemini" as const;
+  private ai: GoogleGenAI;
+
+  constructor(apiKey: string) {
+    if (!apiKey) {
+      throw new Error("AUTH_PROTOCOL_EXPIRED");
+    }
+    this.ai = new GoogleGenAI({ apiKey });
+  }
+
+  generateRings(request: OrbitalGenRequest, options: OrbitalGenOptions = {}): Promise<string[]> {
+    const frontData = request.frontImage.split(",")[1];
+    const backData = request.backImage.split(",")[1];
+    const basePrompt = buildBasePrompt(request.productName, request.layout);
+    const aspectRatio = closestAspectRatio(request.layout);
+    let completed = 0;
+
+    return Promise.all(
+      request.pitches.map(async (pitch) => {
+        const url = await this.generateRing(basePrompt, aspectRatio, frontData, backData, pitch, options.signal);
+        completed += 1;
+        options.onProgress?.(completed / request.pitches.length);
+        return url;
+      })
+    );
+  }
+
+  private async generateRing(
+    basePrompt: string,
+    aspectRatio: string,
+    frontData: string,
+    backData: string,
+    pitchAngle: number,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const angleSpecificPrompt = `
+      ${basePrompt}
+
+      CAMERA PITCH CONFIGURATION:
+      - Angle: ${pitchAngle}° (degrees of camera elevation; positive looks down onto the product, negative looks up from below).
+      - Context: This is the "${describeRingPitch(pitchAngle)}" view ring.
+    `;
+
+    return this.requestImage(
+      [
+        { inlineData: { data: frontData, mimeType: "image/png" } },
+        { inlineData: { data: backData, mimeType: "image/png" } },
+        { text: angleSpecificPrompt }
+      ],
+      aspectRatio,
+      `Failed to generate ring at ${pitchAngle}°`,
+      signal
+    );
+  }
+
+  async generateFrames(request: OrbitalFrameRequest, options: OrbitalGenOptions = {}): Promise<string[]> {
+    const frontData = request.frontImage.split(",")[1];
+    const backData = request.backImage.split(",")[1];
+    const referenceParts = request.references.map((reference) => ({
+      inlineData: { data: reference.url.split(",")[1], mimeType: "image/png" }
+    }));
+    const referenceMap = request.references
+      .map((reference, i) => `- Reference ${i + 3}: ${Number(reference.angle.toFixed(1))}° (${describeViewAngle(reference.angle)})`)
+      .join("\n      ");
+
+    return Promise.all(
+      request.frames.map((frame) => {
+        const angle = frameAngle(request.layout, frame);
+        const prompt = `
+      TASK: Re-render a single orbital frame of "${request.productName}".
+
+      FRAME SPECIFICATION:
+      - Yaw: ${Number(angle.toFixed(1))}° (${describeViewAngle(angle)}) around the vertical axis.
+      - Camera Pitch: ${request.pitch}° ("${describeRingPitch(request.pitch)}" view ring).
+      - Resolution: ${CELL_SIZE}x${CELL_SIZE}, one object only.
+      - Background: Solid Pure White (#FFFFFF).
+      - Alignment: CENTROID ALIGNMENT, 75% VOLUMETRIC SCALE.
+
+      REFERENCES:
+      - Reference 1: Product front. Reference 2: Product back.
+      ${referenceMap}
+      The neighboring frames are correct renders from the same ring; match their lighting, scale and materials exactly.
+
+      STRICT RENDERING RULES:
+      1. OBJECT IDENTITY: Product must be identical to the references.
+      2. NO BORDERS, NO TEXT, NO PROPS.
+    `;
+
+        return this.requestImage(
+          [
+            { inlineData: { data: frontData, mimeType: "image/png" } },
+            { inlineData: { data: backData, mimeType: "image/png" } },
+            ...referenceParts,
+            { text: prompt }
+          ],
+          "1:1",
+          `Failed to regenerate frame ${frame} at ${request.pitch}°`,
+          options.signal
+        );
+      })
+    );
+  }
+
+  private async requestImage(
+    parts: Part[],
+    aspectRatio: string,
+    failureMessage: string,
+    signal?: AbortSignal
+  ): Promise<string> {
+    throwIfAborted(signal);
+    let response: GenerateContentResponse;
+    try {
+      response = await this.ai.models.generateContent({
+        model: "gemini-3-pro-image-preview",
+        contents: { parts },
+        config: {
+          imageConfig: { aspectRatio, imageSize: "1K" },
+          abortSignal: signal
+        }
+      });
+    } catch (error) {
+      // The SDK surfaces aborts as a generic fetch AbortError; normalize it.
+      if (signal?.aborted) {
+        throw new Error(GENERATION_CANCELLED);
+      }
+      throw error;
+    }
+
+    let imageUrl = "";
+    if (response.candidates?.[0]?.content?.parts) {
+      for (const part of response.candidates[0].content.parts) {
+        if (part.inlineData) {
+          imageUrl = `data:image/png;base64,${part.inlineData.data}`;
+          break;
+        }
+      }
+    }
+
+    if (!imageUrl) {
+      throw new Error(failureMessage);
+    }
+
+    return imageUrl;
+  }
+}
@@ -0,0 +1,46 @@
+import { GridLayout } from "../../types";
+
+export type OrbitalProviderId = "gemini" | "procedural";
+
+export type OrbitalGenRequest = {
+  productName: string;
+  frontImage: string;
+  backImage: string;
+  pitches: number[];
+  layout: GridLayout;
+};
+
+export type OrbitalGenOptions = {
+  onProgress?: (progress: number) => void;
+  signal?: AbortSignal;
+};
+
+export const GENERATION_CANCELLED = "GENERATION_CANCELLED";
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) {
+    throw new Error(GENERATION_CANCELLED);
+  }
+};
+
+export type OrbitalFrameReference = {
+  frame: number;
+  angle: number;
+  url: string;
+};
+
+export type OrbitalFrameRequest = {
+  productName: string;
+  frontImage: string;
+  backImage: string;
+  pitch: number;
+  layout: GridLayout;
+  frames: number[];
+  references: OrbitalFrameReference[];
+};
+
+export interface OrbitalGenProvider {
+  readonly id: OrbitalProviderId;
+  generateRings(request: OrbitalGenRequest, options?: OrbitalGenOptions): Promise<string[]>;
+  generateFrames(request: OrbitalFrameRequest, options?: OrbitalGenOptions): Promise<string[]>;
+}
@@ -0,0 +1,115 @@
+import { GridLayout } from "../../types";
+import { CELL_SIZE, cellPosition, frameAngle, sheetSize } from "../../core/gridLayout";
+import { createCanvas, loadImage } from "../../core/imageUtils";
+import { OrbitalFrameRequest, OrbitalGenOptions, OrbitalGenProvider, OrbitalGenRequest, throwIfAborted } from "./OrbitalProvider";
+
+const OBJECT_SCALE = 0.75;
+
+// Offline stand-in for the Gemini backend: fakes each orbital angle by squashing,
+// mirroring and shading the uploaded references so the full pipeline runs without a key.
+export class ProceduralOrbitalProvider implements OrbitalGenProvider {
+  readonly id = "procedural" as const;
+
+  async generateRings(request: OrbitalGenRequest, options: OrbitalGenOptions = {}): Promise<string[]> {
+    const [front, back] = await Promise.all([
+      loadImage(request.frontImage),
+      loadImage(request.backImage)
+    ]);
+
+    const urls: string[] = [];
+    for (const pitch of request.pitches) {
+      // Yield between rings so a cancel issued mid-batch lands before the next composite.
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      throwIfAborted(options.signal);
+      urls.push(this.composeRing(front, back, pitch, request.layout));
+      options.onProgress?.(urls.length / request.pitches.length);
+    }
+    return urls;
+  }
+
+  async generateFrames(request: OrbitalFrameRequest, options: OrbitalGenOptions = {}): Promise<string[]> {
+    const [front, back] = await Promise.all([
+      loadImage(request.frontImage),
+      loadImage(request.backImage)
+    ]);
+    throwIfAborted(options.signal);
+
+    return request.frames.map((frame) => {
+      const yaw = (frameAngle(request.layout, frame) * Math.PI) / 180;
+      return this.renderCell(front, back, yaw, request.pitch).toDataURL("image/png");
+    });
+  }
+
+  private composeRing(
+    front: HTMLImageElement,
+    back: HTMLImageElement,
+    pitch: number,
+    layout: GridLayout
+  ): string {
+    const { width, height } = sheetSize(layout);
+    const sheet = createCanvas(width, height);
+    const ctx = sheet.getContext("2d");
+    if (!ctx) {
+      throw new Error("PROCEDURAL_CANVAS_UNAVAILABLE");
+    }
+
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(0, 0, sheet.width, sheet.height);
+
+    for (let frame = 0; frame < layout.frames; frame++) {
+      const yaw = (frameAngle(layout, frame) * Math.PI) / 180;
+      const { column, row } = cellPosition(layout, frame);
+      ctx.drawImage(this.renderCell(front, back, yaw, pitch), column * CELL_SIZE, row * CELL_SIZE);
+    }
+
+    return sheet.toDataURL("image/png");
+  }
+
+  private renderCell(
+    front: HTMLImageElement,
+    back: HTMLImageElement,
+    yaw: number,
+    pitch: number
+  ): HTMLCanvasElement {
+    const cell = createCanvas(CELL_SIZE, CELL_SIZE);
+    const ctx = cell.getContext("2d")!;
+
+    const facing = Math.cos(yaw);
+    const source = facing >= 0 ? front : back;
+    const pitchRad = (pitch * Math.PI) / 180;
+
+    const box = CELL_SIZE * OBJECT_SCALE;
+    const fit = Math.min(box / source.naturalWidth, box / source.naturalHeight);
+    const width = source.naturalWidth * fit * Math.max(0.12, Math.abs(facing));
+    const height = source.naturalHeight * fit * Math.max(0.3, Math.abs(Math.cos(pitchRad)));
+
+    ctx.save();
+    ctx.translate(CELL_SIZE / 2, CELL_SIZE / 2);
+    if (Math.sin(yaw) < 0) {
+      ctx.scale(-1, 1);
+    }
+    ctx.drawImage(source, -width / 2, -height / 2, width, height);
+    ctx.restore();
+
+    ctx.globalCompositeOperation = "destination-over";
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(0, 0, CELL_SIZE, CELL_SIZE);
+
+    const shade = 1 - 0.25 * Math.abs(Math.sin(yaw));
+    const lift = 0.15 * Math.sin(pitchRad);
+    const pixels = ctx.getImageData(0, 0, CELL_SIZE, CELL_SIZE);
+    const data = pixels.data;
+    for (let i = 0; i < data.length; i += 4) {
+      const lum = (data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114) / 255;
+      if (lum > 0.98) {
+        continue;
+      }
+      for (let c = 0; c < 3; c++) {
+        data[i + c] = data[i + c] * shade + (255 - data[i + c] * shade) * lift;
+      }
+    }
+    ctx.putImageData(pixels, 0, 0);
+
+    return cell;
+  }
+}
@@ -6,38 +6,133 @@ export interface ImageState {
 
 export type DKGType = 'ORBITAL' | 'KINETIC' | 'AUDIO_REACTIVE';
 
+export type GridLayoutId = `${number}x${number}`;
+
+export interface GridLayout {
+  id: GridLayoutId;
+  columns: number;
+  rows: number;
+  frames: number;
+  startAngle: number;
+  direction: 1 | -1;
+}
+
+// Shared motion model for the orbital players. `friction`, `elasticity` and
+// `pitchSpring` are per-frame factors in [0, 1]; 0 disables the spring.
+export interface OrbitalPhysics {
+  friction: number;
+  // Share of the remaining offset to the nearest frame closed per frame once the spin settles.
+  elasticity: number;
+  // Yaw speed (radians/second) below which no motion blur is applied.
+  blurThreshold: number;
+  // Degrees of yaw / pitch per dragged pixel.
+  yawSensitivity: number;
+  pitchSensitivity: number;
+  // Elevation (degrees) the pitch springs back to after release.
+  restPitch: number;
+  pitchSpring: number;
+}
+
+// What the orbital viewer draws around the product: the backdrop behind it,
+// optional contact shadow / floor reflection, and a colour grade.
+export type OrbitalBackdrop =
+  | { kind: 'solid'; color: string }
+  | { kind: 'gradient'; from: string; to: string }
+  | { kind: 'image'; url: string };
+
+export type OrbitalLightingPreset = 'neutral' | 'studio' | 'warm' | 'cool' | 'noir';
+
+export interface OrbitalStage {
+  backdrop: OrbitalBackdrop;
+  shadow: boolean;
+  reflection: boolean;
+  lighting: OrbitalLightingPreset;
+}
+
 export interface DKGManifest {
-  version: "1.3.0";
+  version: "1.4.0";
   type: "DKG_MANIFEST";
   dkgType: DKGType;
   productName: string;
   timestamp: string;
   kinetics: {
     mode: 'ORBITAL';
-    layout: "4x2";
+    layout: GridLayoutId;
     frames: number;
+    startAngle?: number;
+    direction?: 1 | -1;
     scale: number;
     alignment: "CENTROID";
-    physics: {
-      friction: number;
-      elasticity: number;
-      blurThreshold: number;
-    };
+    physics: Pick<OrbitalPhysics, "friction" | "elasticity" | "blurThreshold"> & Partial<OrbitalPhysics>;
   };
   source_checksum: string;
   asset_data?: string;
+  orbital_assets?: OrbitalAssets;
+}
+
+export interface OrbitalRing {
+  pitch: number;
+  url: string;
+  // Motion field between neighbouring cells (see core/opticalFlow); rings
+  // without one cross-fade.
+  flowUrl?: string;
+}
+
+export interface OrbitalAssets {
+  rings: OrbitalRing[];
+  layout: GridLayout;
+}
+
+export interface FrameWarning {
+  frame: number;
+  code: 'EMPTY_CELL' | 'CLIPPED' | 'OFF_CENTER' | 'SCALE_DRIFT';
+  message: string;
+  // Share of the frame's score lost; absent on reports saved before it was stored.
+  penalty?: number;
+}
+
+export interface RingQualityReport {
+  pitch: number;
+  score: number;
+  sourceWidth: number;
+  sourceHeight: number;
+  warnings: FrameWarning[];
+}
+
+export interface SpriteQualityReport {
+  score: number;
+  rings: RingQualityReport[];
+}
+
+export type TurntableFormat = 'gif' | 'webp' | 'webm';
+
+export interface TurntableArtifact {
+  id: string;
+  format: TurntableFormat;
+  blob: Blob;
+  width: number;
+  height: number;
+  frames: number;
+  durationMs: number;
+  createdAt: number;
 }
 
 export interface BatchItem {
   id: string;
   productName: string;
-  status: 'PENDING' | 'SYNTHESIZING' | 'COMPLETE' | 'FAILED';
+  status: 'PENDING' | 'SYNTHESIZING' | 'PAUSED' | 'COMPLETE' | 'FAILED' | 'CANCELLED';
   progress: number;
   resultUrl?: string;
-  orbitalAssets?: {
-    pitch0Url: string;
-    pitch30Url: string;
-  };
+  orbitalAssets?: OrbitalAssets;
+  quality?: SpriteQualityReport;
+  ringPitches?: number[];
+  gridLayout?: GridLayout;
   error?: string;
+  resumable?: boolean;
   images: ImageState;
+  sourceChecksum?: string;
+  artifacts?: TurntableArtifact[];
+  physics?: Partial<OrbitalPhysics>;
+  stage?: OrbitalStage;
+  createdAt: number;
 }
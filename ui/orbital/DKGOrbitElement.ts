@@ -0,0 +1,346 @@
+import { createOrbitalRenderer } from "../../core/OrbitalCanvasRenderer";
+import { OrbitalRenderer, loadTextureRings } from "../../core/orbitalRenderer";
+import { resolveFrame } from "../../core/gridLayout";
+import { clampPitch, pitchRange } from "../../core/orbitalRings";
+import { parseManifest } from "../../services/ManifestService";
+import { DKGManifest } from "../../types";
+import { resolveOrbitalPhysics } from "../../core/orbitalPhysics";
+import { OrbitalAnnouncer } from "./OrbitalAnnouncer";
+import { DeviceOrientationInput, isDeviceOrientationSupported } from "./DeviceOrientationInput";
+import { OrbitalInputBridge, OrbitalInputUpdate } from "./OrbitalInputBridge";
+
+export type DKGOrbitChangeDetail = {
+  yaw: number;
+  pitch: number;
+  frame: number;
+  velocity: number;
+  zoom: number;
+};
+
+const DEFAULT_AUTOPLAY_SPEED = 30;
+
+const TEMPLATE = `
+  <style>
+    :host { display: block; position: relative; width: 100%; aspect-ratio: 1; background: #fff; touch-action: none; }
+    canvas { display: block; width: 100%; height: 100%; cursor: grab; }
+    canvas:active { cursor: grabbing; }
+    .status { position: absolute; inset: 0; display: flex; align-items: center; justify-content: center;
+      font: 600 11px/1.4 system-ui, sans-serif; letter-spacing: 0.2em; text-transform: uppercase; color: #888;
+      text-align: center; padding: 1em; pointer-events: none; }
+    .status[hidden] { display: none; }
+    canvas:focus { outline: none; }
+    canvas:focus-visible { outline: 2px solid #6366f1; outline-offset: -2px; }
+    .live { position: absolute; width: 1px; height: 1px; overflow: hidden; clip: rect(0 0 0 0); white-space: nowrap; }
+  </style>
+  <canvas part="canvas"></canvas>
+  <div class="status" part="status"></div>
+  <div class="live"></div>
+`;
+
+const readNumber = (value: string | null, fallback: number) => {
+  const parsed = value === null ? NaN : Number(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+};
+
+// Framework-free viewer: <dkg-orbit src="product.dkg.json" yaw="0" pitch="0" autoplay friction="0.94" tilt>.
+// Dispatches `orbit-change` (detail: DKGOrbitChangeDetail), `orbit-ready` and `orbit-error`.
+export class DKGOrbitElement extends HTMLElement {
+  static get observedAttributes() {
+    return ["src", "yaw", "pitch", "autoplay", "friction", "tilt"];
+  }
+
+  private canvas: HTMLCanvasElement;
+  private status: HTMLDivElement;
+  private visualizer: OrbitalRenderer | null = null;
+  private bridge: OrbitalInputBridge | null = null;
+  private announcer: OrbitalAnnouncer | null = null;
+  private tilt: DeviceOrientationInput | null = null;
+  private pitchRange: [number, number] = [0, 30];
+  private liveRegion: HTMLDivElement;
+  private resizeObserver: ResizeObserver | null = null;
+  private frameId: number | null = null;
+  private manifestValue: DKGManifest | null = null;
+  private loadToken = 0;
+  private pose = { yaw: 0, pitch: 0 };
+
+  constructor() {
+    super();
+    const root = this.attachShadow({ mode: "open" });
+    root.innerHTML = TEMPLATE;
+    this.canvas = root.querySelector("canvas")!;
+    this.status = root.querySelector(".status")!;
+    this.liveRegion = root.querySelector(".live")!;
+    this.renderLoop = this.renderLoop.bind(this);
+    this.retryTilt = this.retryTilt.bind(this);
+  }
+
+  get manifest(): DKGManifest | null {
+    return this.manifestValue;
+  }
+
+  set manifest(manifest: DKGManifest | null) {
+    this.manifestValue = manifest;
+    if (this.isConnected) {
+      this.mount(++this.loadToken);
+    }
+  }
+
+  get yaw() {
+    return this.pose.yaw;
+  }
+
+  get pitch() {
+    return this.pose.pitch;
+  }
+
+  connectedCallback() {
+    this.resizeObserver = new ResizeObserver(() => this.resize());
+    this.resizeObserver.observe(this);
+    if (this.manifestValue) {
+      this.mount(++this.loadToken);
+    } else if (this.getAttribute("src")) {
+      this.load(this.getAttribute("src")!);
+    }
+  }
+
+  disconnectedCallback() {
+    this.loadToken++;
+    this.resizeObserver?.disconnect();
+    this.resizeObserver = null;
+    this.teardown();
+  }
+
+  attributeChangedCallback(name: string, oldValue: string | null, value: string | null) {
+    if (!this.isConnected || oldValue === value) {
+      return;
+    }
+    switch (name) {
+      case "src":
+        if (value) {
+          this.load(value);
+        }
+        break;
+      case "yaw":
+      case "pitch":
+        this.bridge?.setPose(
+          readNumber(this.getAttribute("yaw"), this.pose.yaw),
+          readNumber(this.getAttribute("pitch"), this.pose.pitch)
+        );
+        break;
+      case "autoplay":
+        this.bridge?.setAutoRotate(this.autoplaySpeed());
+        break;
+      case "friction":
+        this.bridge?.setPhysics({ friction: this.physics().friction });
+        break;
+      case "tilt":
+        if (value === null) {
+          this.disableTilt();
+        } else {
+          this.enableTilt();
+        }
+        break;
+    }
+  }
+
+  // Manifest physics, with the `friction` attribute taking precedence.
+  private physics() {
+    const physics = resolveOrbitalPhysics(this.manifestValue?.kinetics.physics);
+    return { ...physics, friction: readNumber(this.getAttribute("friction"), physics.friction) };
+  }
+
+  private autoplaySpeed() {
+    if (!this.hasAttribute("autoplay")) {
+      return 0;
+    }
+    return readNumber(this.getAttribute("autoplay") || null, DEFAULT_AUTOPLAY_SPEED);
+  }
+
+  private async load(src: string) {
+    const token = ++this.loadToken;
+    this.setStatus("Loading…");
+    try {
+      const response = await fetch(src);
+      if (!response.ok) {
+        throw new Error(`MANIFEST_FETCH_FAILED: ${response.status}`);
+      }
+      const manifest = parseManifest(await response.text());
+      if (token !== this.loadToken) {
+        return;
+      }
+      this.manifestValue = manifest;
+      await this.mount(token);
+    } catch (error) {
+      if (token === this.loadToken) {
+        this.fail(error);
+      }
+    }
+  }
+
+  private async mount(token: number) {
+    const manifest = this.manifestValue;
+    const assets = manifest?.orbital_assets;
+    if (!manifest || !assets) {
+      return;
+    }
+
+    this.teardown();
+    this.setStatus("Loading…");
+
+    try {
+      const rings = await loadTextureRings(assets.rings);
+      if (token !== this.loadToken) {
+        return;
+      }
+
+      const visualizer = createOrbitalRenderer(this.canvas, { rings, layout: assets.layout });
+      if (!visualizer.isSupported()) {
+        visualizer.dispose();
+        throw new Error("RENDERER_UNAVAILABLE");
+      }
+      this.visualizer = visualizer;
+      this.announcer = new OrbitalAnnouncer(this.canvas, this.liveRegion, manifest.productName);
+      const physics = this.physics();
+      visualizer.setBlurThreshold(physics.blurThreshold);
+
+      const pitches = rings.map((ring) => ring.pitch);
+      this.pitchRange = pitchRange(pitches);
+      const yaw = readNumber(this.getAttribute("yaw"), 0);
+      const pitch = clampPitch(pitches, readNumber(this.getAttribute("pitch"), 0));
+      this.applyPose(yaw, pitch, 0);
+
+      this.bridge = new OrbitalInputBridge(
+        this.canvas,
+        (payload) => (this.tilt ? this.tilt.setBase(payload) : this.applyUpdate(payload)),
+        {
+          pitchRange: this.pitchRange,
+          initialYaw: yaw,
+          initialPitch: pitch,
+          physics,
+          layout: assets.layout,
+          autoRotate: this.autoplaySpeed()
+        }
+      );
+
+      if (this.hasAttribute("tilt")) {
+        this.enableTilt();
+      }
+
+      this.resize();
+      this.setStatus(null);
+      this.frameId = requestAnimationFrame(this.renderLoop);
+      this.dispatchEvent(new CustomEvent("orbit-ready", { detail: { productName: manifest.productName } }));
+    } catch (error) {
+      if (token === this.loadToken) {
+        this.fail(error);
+      }
+    }
+  }
+
+  // Device tilt is layered over drag. iOS only grants sensor access from a user
+  // gesture, so a refused first attempt is retried on the next pointerdown.
+  private async enableTilt() {
+    if (this.tilt || !this.visualizer) {
+      return;
+    }
+    const input = new DeviceOrientationInput((payload) => this.applyUpdate(payload), {
+      mode: "blend",
+      pitchRange: this.pitchRange,
+      initialYaw: this.pose.yaw,
+      initialPitch: this.pose.pitch
+    });
+    if (!(await input.start())) {
+      if (this.visualizer && isDeviceOrientationSupported()) {
+        this.canvas.addEventListener("pointerdown", this.retryTilt, { once: true });
+      }
+      return;
+    }
+    if (this.tilt || !this.visualizer || !this.hasAttribute("tilt")) {
+      input.stop();
+      return;
+    }
+    this.tilt = input;
+  }
+
+  private retryTilt() {
+    if (this.hasAttribute("tilt")) {
+      this.enableTilt();
+    }
+  }
+
+  private disableTilt() {
+    this.canvas.removeEventListener("pointerdown", this.retryTilt);
+    this.tilt?.stop();
+    this.tilt = null;
+  }
+
+  private applyUpdate(payload: OrbitalInputUpdate) {
+    this.visualizer?.setView(payload.view);
+    this.applyPose((payload.yaw * 180) / Math.PI, payload.pitch, payload.velocity);
+  }
+
+  private applyPose(yaw: number, pitch: number, velocity: number) {
+    if (!this.visualizer || !this.manifestValue?.orbital_assets) {
+      return;
+    }
+    const normalizedYaw = ((yaw % 360) + 360) % 360;
+    this.pose = { yaw: normalizedYaw, pitch };
+    this.visualizer.setPose(normalizedYaw, pitch, velocity);
+    this.announcer?.update(normalizedYaw, pitch);
+
+    const detail: DKGOrbitChangeDetail = {
+      yaw: normalizedYaw,
+      pitch,
+      frame: resolveFrame(this.manifestValue.orbital_assets.layout, normalizedYaw).index,
+      velocity: (velocity * 180) / Math.PI,
+      zoom: this.visualizer.getView().zoom
+    };
+    this.dispatchEvent(new CustomEvent("orbit-change", { detail }));
+  }
+
+  private renderLoop() {
+    this.visualizer?.render();
+    this.frameId = requestAnimationFrame(this.renderLoop);
+  }
+
+  private resize() {
+    if (!this.visualizer) {
+      return;
+    }
+    const rect = this.getBoundingClientRect();
+    const pixelRatio = window.devicePixelRatio || 1;
+    this.visualizer.setSize(Math.max(1, rect.width * pixelRatio), Math.max(1, rect.height * pixelRatio));
+  }
+
+  private teardown() {
+    if (this.frameId) {
+      cancelAnimationFrame(this.frameId);
+      this.frameId = null;
+    }
+    this.bridge?.detach();
+    this.bridge = null;
+    this.disableTilt();
+    this.announcer?.dispose();
+    this.announcer = null;
+    this.visualizer?.dispose();
+    this.visualizer = null;
+  }
+
+  private setStatus(message: string | null) {
+    this.status.hidden = message === null;
+    this.status.textContent = message ?? "";
+  }
+
+  private fail(error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    this.teardown();
+    this.setStatus(message);
+    this.dispatchEvent(new CustomEvent("orbit-error", { detail: { message } }));
+  }
+}
+
+export const defineDKGOrbit = (tagName = "dkg-orbit") => {
+  if (!customElements.get(tagName)) {
+    customElements.define(tagName, DKGOrbitElement);
+  }
+};
@@ -0,0 +1,159 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { DeviceOrientationInput } from "./DeviceOrientationInput";
+import { OrbitalInputUpdate } from "./OrbitalInputBridge";
+import { fromYawPitch } from "../../core/quaternion";
+
+const orient = (target: EventTarget, beta: number | null, gamma: number | null) => {
+  target.dispatchEvent(Object.assign(new Event("deviceorientation"), { alpha: 0, beta, gamma }));
+};
+
+const degrees = (update: OrbitalInputUpdate) => ({ yaw: (update.yaw * 180) / Math.PI, pitch: update.pitch });
+
+const baseUpdate = (yaw: number, pitch: number, zoom = 1): OrbitalInputUpdate => ({
+  rotation: fromYawPitch((yaw * Math.PI) / 180, (pitch * Math.PI) / 180),
+  delta: { x: 0, y: 0, z: 0, w: 1 },
+  deltaTime: 0.016,
+  velocity: 0,
+  pitch,
+  yaw: (yaw * Math.PI) / 180,
+  view: { zoom, panX: 0.5, panY: 0 }
+});
+
+describe("DeviceOrientationInput", () => {
+  let target: EventTarget;
+  let updates: OrbitalInputUpdate[];
+  const last = () => degrees(updates[updates.length - 1]);
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["performance"] });
+    vi.stubGlobal("DeviceOrientationEvent", class extends Event {});
+    target = new EventTarget();
+    updates = [];
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  const create = (options: ConstructorParameters<typeof DeviceOrientationInput>[1] = {}) =>
+    new DeviceOrientationInput((update) => updates.push(update), {
+      target,
+      smoothing: 0,
+      pitchRange: [0, 60],
+      ...options
+    });
+
+  it("treats the first reading as the neutral pose", async () => {
+    const input = create({ initialYaw: 30, initialPitch: 10 });
+    expect(await input.start()).toBe(true);
+
+    orient(target, 70, 12);
+    expect(last()).toEqual({ yaw: expect.closeTo(30), pitch: expect.closeTo(10) });
+  });
+
+  it("maps side tilt to yaw and forward tilt to pitch", async () => {
+    const input = create({ yawGain: 2, pitchGain: 1 });
+    await input.start();
+    orient(target, 70, 0);
+
+    orient(target, 60, 15);
+    expect(last()).toEqual({ yaw: expect.closeTo(30), pitch: expect.closeTo(10) });
+  });
+
+  it("clamps extreme tilt and the pitch range", async () => {
+    const input = create({ yawGain: 1 });
+    await input.start();
+    orient(target, 70, 0);
+
+    orient(target, -20, 80);
+    expect(last()).toEqual({ yaw: expect.closeTo(45), pitch: 45 });
+    orient(target, 120, 0);
+    expect(last().pitch).toBe(0);
+  });
+
+  it("smooths noisy readings", async () => {
+    const input = create({ yawGain: 1, smoothing: 0.75 });
+    await input.start();
+    orient(target, 70, 0);
+
+    orient(target, 70, 20);
+    expect(last().yaw).toBeCloseTo(5);
+    orient(target, 70, 20);
+    expect(last().yaw).toBeCloseTo(8.75);
+  });
+
+  it("ignores readings without sensor data", async () => {
+    const input = create();
+    await input.start();
+    orient(target, null, null);
+    expect(updates).toHaveLength(0);
+  });
+
+  it("recalibrates without jumping", async () => {
+    const input = create({ yawGain: 1 });
+    await input.start();
+    orient(target, 70, 0);
+    orient(target, 70, 20);
+    expect(last().yaw).toBeCloseTo(20);
+
+    input.calibrate();
+    orient(target, 70, 20);
+    expect(last().yaw).toBeCloseTo(20);
+    orient(target, 70, 30);
+    expect(last().yaw).toBeCloseTo(30);
+  });
+
+  it("adds tilt on top of the drag pose in blend mode", async () => {
+    const input = create({ yawGain: 1, mode: "blend" });
+    await input.start();
+    orient(target, 70, 0);
+    orient(target, 70, 10);
+
+    input.setBase(baseUpdate(90, 20, 2));
+    expect(last()).toEqual({ yaw: expect.closeTo(100), pitch: expect.closeTo(20) });
+    expect(updates[updates.length - 1].view).toEqual({ zoom: 2, panX: 0.5, panY: 0 });
+  });
+
+  it("ignores the drag pose in tilt mode", async () => {
+    const input = create({ yawGain: 1, mode: "tilt" });
+    await input.start();
+    input.setBase(baseUpdate(90, 20));
+    expect(updates).toHaveLength(0);
+  });
+
+  it("reports the rotation since the previous update", async () => {
+    const input = create();
+    await input.start();
+    orient(target, 70, 0);
+    orient(target, 70, 10);
+    const update = updates[updates.length - 1];
+    const expected = fromYawPitch(update.yaw, (update.pitch * Math.PI) / 180);
+    expect(update.rotation.w).toBeCloseTo(expected.w);
+    expect(update.delta.w).toBeLessThan(1);
+  });
+
+  it("stops listening", async () => {
+    const input = create();
+    await input.start();
+    input.stop();
+    orient(target, 70, 10);
+    expect(updates).toHaveLength(0);
+  });
+
+  it("respects a refused permission prompt", async () => {
+    vi.stubGlobal(
+      "DeviceOrientationEvent",
+      Object.assign(class extends Event {}, { requestPermission: vi.fn().mockResolvedValue("denied") })
+    );
+    const input = create();
+    expect(await input.start()).toBe(false);
+    orient(target, 70, 10);
+    expect(updates).toHaveLength(0);
+  });
+
+  it("is unavailable without the API", async () => {
+    vi.stubGlobal("DeviceOrientationEvent", undefined);
+    expect(await create().start()).toBe(false);
+  });
+});
@@ -0,0 +1,193 @@
+import { deltaRotation, fromYawPitch, Quaternion } from "../../core/quaternion";
+import { DEFAULT_VIEW } from "../../core/orbitalView";
+import { OrbitalInputUpdate } from "./OrbitalInputBridge";
+
+// "tilt" drives the pose from the device alone; "blend" adds the tilt on top of
+// a base pose fed in through setBase (usually an OrbitalInputBridge), so drag
+// keeps working while the phone is tilted.
+export type DeviceOrientationMode = "tilt" | "blend";
+
+export type DeviceOrientationOptions = {
+  mode?: DeviceOrientationMode;
+  pitchRange?: [number, number];
+  initialYaw?: number;
+  initialPitch?: number;
+  // Degrees of yaw / pitch per degree of device tilt.
+  yawGain?: number;
+  pitchGain?: number;
+  // Share of the previous reading kept per event, 0-1; higher is smoother.
+  smoothing?: number;
+  target?: EventTarget;
+};
+
+type PermissionedOrientationEvent = typeof DeviceOrientationEvent & {
+  requestPermission?: () => Promise<PermissionState>;
+};
+
+type Tilt = { x: number; y: number };
+
+// Device tilt beyond this (degrees from the calibrated rest) is ignored.
+const MAX_TILT = 45;
+
+const wrapDegrees = (angle: number) => ((((angle + 180) % 360) + 360) % 360) - 180;
+
+const clampTilt = (value: number) => Math.min(MAX_TILT, Math.max(-MAX_TILT, value));
+
+// Left/right (x) and towards/away (y) tilt in screen space, so landscape
+// behaves like portrait.
+const screenTilt = (beta: number, gamma: number, screenAngle: number): Tilt => {
+  switch (((screenAngle % 360) + 360) % 360) {
+    case 90:
+      return { x: beta, y: -gamma };
+    case 180:
+      return { x: -gamma, y: -beta };
+    case 270:
+      return { x: -beta, y: gamma };
+    default:
+      return { x: gamma, y: beta };
+  }
+};
+
+export const isDeviceOrientationSupported = () =>
+  typeof window !== "undefined" && typeof window.DeviceOrientationEvent !== "undefined";
+
+export class DeviceOrientationInput {
+  private onUpdate: (data: OrbitalInputUpdate) => void;
+  private target: EventTarget;
+  private mode: DeviceOrientationMode;
+  private minPitch: number;
+  private maxPitch: number;
+  private yawGain: number;
+  private pitchGain: number;
+  private smoothing: number;
+  private rest: Tilt | null = null;
+  private offset: Tilt = { x: 0, y: 0 };
+  // Tilt view offset (degrees of yaw / pitch) carried over from before the last calibration.
+  private anchor = { yaw: 0, pitch: 0 };
+  private base = { yaw: 0, pitch: 0, velocity: 0, view: { ...DEFAULT_VIEW } };
+  private lastYaw = 0;
+  private lastTime = performance.now();
+  private lastRotation: Quaternion;
+  private listening = false;
+
+  constructor(onUpdate: (data: OrbitalInputUpdate) => void, options: DeviceOrientationOptions = {}) {
+    this.onUpdate = onUpdate;
+    this.target = options.target ?? window;
+    this.mode = options.mode ?? "blend";
+    [this.minPitch, this.maxPitch] = options.pitchRange ?? [0, 30];
+    this.yawGain = options.yawGain ?? 2;
+    this.pitchGain = options.pitchGain ?? 1;
+    this.smoothing = Math.min(0.99, Math.max(0, options.smoothing ?? 0.8));
+    this.base.yaw = options.initialYaw ?? 0;
+    this.base.pitch = options.initialPitch ?? 0;
+    this.lastYaw = this.base.yaw;
+    this.lastRotation = fromYawPitch((this.base.yaw * Math.PI) / 180, (this.clampPitch(this.base.pitch) * Math.PI) / 180);
+
+    this.handleOrientation = this.handleOrientation.bind(this);
+  }
+
+  // Asks for sensor access where the browser gates it (iOS Safari, which only
+  // allows this from a user gesture) and starts listening. Resolves false when
+  // access is denied or unavailable.
+  async start(): Promise<boolean> {
+    if (!isDeviceOrientationSupported()) {
+      return false;
+    }
+    const requestPermission = (window.DeviceOrientationEvent as PermissionedOrientationEvent).requestPermission;
+    if (requestPermission) {
+      try {
+        if ((await requestPermission()) !== "granted") {
+          return false;
+        }
+      } catch {
+        return false;
+      }
+    }
+    if (!this.listening) {
+      this.listening = true;
+      this.calibrate();
+      this.target.addEventListener("deviceorientation", this.handleOrientation as EventListener);
+    }
+    return true;
+  }
+
+  stop() {
+    this.listening = false;
+    this.target.removeEventListener("deviceorientation", this.handleOrientation as EventListener);
+  }
+
+  // The next reading becomes the neutral pose. The view keeps its current tilt
+  // offset, so recalibrating does not make it jump.
+  calibrate() {
+    this.rest = null;
+  }
+
+  // Base pose from another input source; yaw in radians and pitch in degrees,
+  // as emitted by OrbitalInputBridge. Ignored in "tilt" mode.
+  setBase(update: OrbitalInputUpdate) {
+    if (this.mode !== "blend") {
+      return;
+    }
+    this.base = {
+      yaw: (update.yaw * 180) / Math.PI,
+      pitch: update.pitch,
+      velocity: (update.velocity * 180) / Math.PI,
+      view: update.view
+    };
+    this.emitUpdate(update.deltaTime, 0);
+  }
+
+  private clampPitch(pitch: number) {
+    return Math.min(this.maxPitch, Math.max(this.minPitch, pitch));
+  }
+
+  private handleOrientation(event: DeviceOrientationEvent) {
+    if (event.beta === null || event.gamma === null) {
+      return;
+    }
+    const tilt = screenTilt(event.beta, event.gamma, screen.orientation?.angle ?? 0);
+    if (!this.rest) {
+      const span = this.maxPitch - this.minPitch;
+      this.anchor = {
+        yaw: this.anchor.yaw + this.offset.x * this.yawGain,
+        pitch: Math.min(span, Math.max(-span, this.anchor.pitch - this.offset.y * this.pitchGain))
+      };
+      this.offset = { x: 0, y: 0 };
+      this.rest = tilt;
+    }
+
+    const keep = this.smoothing;
+    this.offset = {
+      x: this.offset.x * keep + clampTilt(wrapDegrees(tilt.x - this.rest.x)) * (1 - keep),
+      y: this.offset.y * keep + clampTilt(wrapDegrees(tilt.y - this.rest.y)) * (1 - keep)
+    };
+
+    const now = performance.now();
+    const deltaTime = Math.max(0.001, (now - this.lastTime) / 1000);
+    this.lastTime = now;
+    this.emitUpdate(deltaTime, (this.viewYaw() - this.lastYaw) / deltaTime);
+  }
+
+  private viewYaw() {
+    return this.base.yaw + this.anchor.yaw + this.offset.x * this.yawGain;
+  }
+
+  private emitUpdate(deltaTime: number, tiltVelocity: number) {
+    const yaw = this.viewYaw();
+    // Tilting the top of the device away looks down on the product.
+    const pitch = this.clampPitch(this.base.pitch + this.anchor.pitch - this.offset.y * this.pitchGain);
+    const rotation = fromYawPitch((yaw * Math.PI) / 180, (pitch * Math.PI) / 180);
+    const delta = deltaRotation(this.lastRotation, rotation);
+    this.lastRotation = rotation;
+    this.lastYaw = yaw;
+    this.onUpdate({
+      rotation,
+      delta,
+      deltaTime,
+      velocity: ((this.base.velocity + tiltVelocity) * Math.PI) / 180,
+      pitch,
+      yaw: (yaw * Math.PI) / 180,
+      view: { ...this.base.view }
+    });
+  }
+}
@@ -0,0 +1,62 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { OrbitalAnnouncer, describeOrbitalPose } from "./OrbitalAnnouncer";
+
+describe("describeOrbitalPose", () => {
+  it("names the view and the angle", () => {
+    expect(describeOrbitalPose(90, 0)).toBe("Right profile, 90°");
+    expect(describeOrbitalPose(-45, 0)).toBe("Front-left, 315°");
+    expect(describeOrbitalPose(359.8, 0)).toBe("Front, 0°");
+  });
+
+  it("adds the elevation when tilted", () => {
+    expect(describeOrbitalPose(180, 29.6)).toBe("Back, 180°, 30° elevation");
+  });
+});
+
+describe("OrbitalAnnouncer", () => {
+  let target: HTMLElement;
+  let region: HTMLElement;
+  let announcer: OrbitalAnnouncer;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    target = document.createElement("canvas");
+    region = document.createElement("div");
+    announcer = new OrbitalAnnouncer(target, region, "Desk Lamp");
+  });
+
+  afterEach(() => {
+    announcer.dispose();
+    vi.useRealTimers();
+  });
+
+  it("exposes the viewer as a labelled slider", () => {
+    expect(target.getAttribute("role")).toBe("slider");
+    expect(target.getAttribute("aria-label")).toBe("Desk Lamp, 360° view");
+    expect(region.getAttribute("aria-live")).toBe("polite");
+  });
+
+  it("keeps the slider value current on every update", () => {
+    announcer.update(92, 0);
+    expect(target.getAttribute("aria-valuenow")).toBe("92");
+    expect(target.getAttribute("aria-valuetext")).toBe("Right profile, 92°");
+  });
+
+  it("announces once the pose stops changing", () => {
+    for (let yaw = 0; yaw <= 90; yaw += 10) {
+      announcer.update(yaw, 0);
+      vi.advanceTimersByTime(16);
+    }
+    expect(region.textContent).toBe("");
+
+    vi.advanceTimersByTime(400);
+    expect(region.textContent).toBe("Right profile, 90°");
+  });
+
+  it("drops pending announcements on dispose", () => {
+    announcer.update(180, 0);
+    announcer.dispose();
+    vi.advanceTimersByTime(1000);
+    expect(region.textContent).toBe("");
+  });
+});
@@ -0,0 +1,62 @@
+import { describeViewAngle } from "../../core/gridLayout";
+
+const ANNOUNCE_DELAY_MS = 400;
+
+const sentenceCase = (label: string) => label.charAt(0) + label.slice(1).toLowerCase();
+
+// "Right profile, 90°", plus the elevation when viewed from above or below.
+export const describeOrbitalPose = (yaw: number, pitch: number) => {
+  const angle = Math.round(((yaw % 360) + 360) % 360) % 360;
+  const view = `${sentenceCase(describeViewAngle(angle))}, ${angle}°`;
+  const elevation = Math.round(pitch);
+  return elevation === 0 ? view : `${view}, ${elevation}° elevation`;
+};
+
+// Exposes the viewer as a slider and reads the pose out through a polite live
+// region once it stops changing, so a spin is announced once rather than per frame.
+export class OrbitalAnnouncer {
+  private target: HTMLElement;
+  private region: HTMLElement;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private pending = "";
+
+  constructor(target: HTMLElement, region: HTMLElement, label: string) {
+    this.target = target;
+    this.region = region;
+
+    target.setAttribute("role", "slider");
+    target.setAttribute("aria-label", `${label}, 360° view`);
+    target.setAttribute("aria-valuemin", "0");
+    target.setAttribute("aria-valuemax", "359");
+    region.setAttribute("aria-live", "polite");
+    region.setAttribute("aria-atomic", "true");
+  }
+
+  // Yaw and pitch in degrees.
+  update(yaw: number, pitch: number) {
+    const text = describeOrbitalPose(yaw, pitch);
+    this.target.setAttribute("aria-valuenow", String(Math.round(((yaw % 360) + 360) % 360) % 360));
+    this.target.setAttribute("aria-valuetext", text);
+    if (text === this.pending) {
+      return;
+    }
+
+    this.pending = text;
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      if (this.region.textContent !== this.pending) {
+        this.region.textContent = this.pending;
+      }
+    }, ANNOUNCE_DELAY_MS);
+  }
+
+  dispose() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
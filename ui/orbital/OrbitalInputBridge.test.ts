@@ -0,0 +1,401 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createGridLayout } from "../../core/gridLayout";
+import { DEFAULT_ORBITAL_PHYSICS } from "../../core/orbitalPhysics";
+import { dot, multiply } from "../../core/quaternion";
+import { OrbitalInputBridge, OrbitalInputUpdate } from "./OrbitalInputBridge";
+
+const FRAME_MS = 16;
+// Friction is a per-60 Hz-frame factor, compounded over each FRAME_MS tick.
+const frameDecay = (friction: number) => friction ** (FRAME_MS / (1000 / 60));
+
+const pointer = (target: EventTarget, type: string, clientX: number, clientY = 0, init: MouseEventInit & { pointerId?: number } = {}) => {
+  const { pointerId = 1, ...mouseInit } = init;
+  const event = new MouseEvent(type, { clientX, clientY, bubbles: true, ...mouseInit });
+  Object.defineProperty(event, "pointerId", { value: pointerId });
+  target.dispatchEvent(event);
+};
+
+describe("OrbitalInputBridge", () => {
+  let element: HTMLDivElement;
+  let updates: OrbitalInputUpdate[];
+  let bridge: OrbitalInputBridge;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["requestAnimationFrame", "cancelAnimationFrame", "performance", "setTimeout", "Date"] });
+    element = document.createElement("div");
+    element.setPointerCapture = vi.fn();
+    element.releasePointerCapture = vi.fn();
+    document.body.appendChild(element);
+    updates = [];
+  });
+
+  afterEach(() => {
+    bridge?.detach();
+    element.remove();
+    vi.useRealTimers();
+  });
+
+  const fling = (distance: number) => {
+    pointer(element, "pointerdown", 0);
+    vi.advanceTimersByTime(FRAME_MS);
+    pointer(window, "pointermove", distance);
+    pointer(window, "pointerup", distance);
+  };
+
+  it("turns horizontal drags into yaw and vertical drags into pitch", () => {
+    bridge = new OrbitalInputBridge(element, (update) => updates.push(update), { pitchRange: [0, 30] });
+
+    pointer(element, "pointerdown", 0, 0);
+    vi.advanceTimersByTime(FRAME_MS);
+    pointer(window, "pointermove", 50, -40);
+
+    const last = updates[updates.length - 1];
+    expect(last.yaw).toBeCloseTo((50 * DEFAULT_ORBITAL_PHYSICS.yawSensitivity * Math.PI) / 180);
+    expect(last.pitch).toBeCloseTo(40 * DEFAULT_ORBITAL_PHYSICS.pitchSensitivity);
+  });
+
+  it("clamps pitch to the configured ring range", () => {
+    bridge = new OrbitalInputBridge(element, (update) => updates.push(update), { pitchRange: [0, 30] });
+
+    pointer(element, "pointerdown", 0, 0);
+    vi.advanceTimersByTime(FRAME_MS);
+    pointer(window, "pointermove", 0, -1000);
+    expect(updates[updates.length - 1].pitch).toBe(30);
+
+    pointer(window, "pointermove", 0, 1000);
+    expect(updates[updates.length - 1].pitch).toBe(0);
+  });
+
+  it("coasts after release with geometric friction decay", () => {
+    bridge = new OrbitalInputBridge(element, (update) => updates.push(update));
+    fling(100);
+    const releaseVelocity = updates[updates.length - 1].velocity;
+    expect(releaseVelocity).toBeGreaterThan(0);
+
+    updates = [];
+    vi.advanceTimersByTime(FRAME_MS * 10);
+
+    expect(updates.length).toBeGreaterThanOrEqual(9);
+    for (let i = 1; i < updates.length; i++) {
+      expect(updates[i].velocity / updates[i - 1].velocity).toBeCloseTo(frameDecay(DEFAULT_ORBITAL_PHYSICS.friction), 6);
+      expect(updates[i].yaw).toBeGreaterThan(updates[i - 1].yaw);
+    }
+  });
+
+  it("eventually stops emitting once momentum is spent", () => {
+    bridge = new OrbitalInputBridge(element, (update) => updates.push(update));
+    fling(20);
+
+    vi.advanceTimersByTime(FRAME_MS * 600);
+    const settledCount = updates.length;
+    vi.advanceTimersByTime(FRAME_MS * 20);
+    expect(updates.length).toBe(settledCount);
+  });
+
+  it("reports a delta that composes onto the previous rotation", () => {
+    bridge = new OrbitalInputBridge(element, (update) => updates.push(update));
+    fling(60);
+    vi.advanceTimersByTime(FRAME_MS * 3);
+
+    const [previous, next] = updates.slice(-2);
+    expect(Math.abs(dot(multiply(next.delta, previous.rotation), next.rotation))).toBeCloseTo(1, 9);
+  });
+
+  it("uses the configured friction and sensitivity", () => {
+    bridge = new OrbitalInputBridge(element, (update) => updates.push(update), {
+      physics: { friction: 0.5, yawSensitivity: 1 }
+    });
+    pointer(element, "pointerdown", 0);
+    vi.advanceTimersByTime(FRAME_MS);
+    pointer(window, "pointermove", 90);
+    expect(updates[updates.length - 1].yaw).toBeCloseTo(Math.PI / 2);
+    pointer(window, "pointerup", 90);
+
+    updates = [];
+    vi.advanceTimersByTime(FRAME_MS * 3);
+    expect(updates[1].velocity / updates[0].velocity).toBeCloseTo(frameDecay(0.5), 6);
+  });
+
+  it("snaps onto the nearest frame once the spin settles", () => {
+    const layout = createGridLayout(4, 2);
+    bridge = new OrbitalInputBridge(element, (update) => updates.push(update), { layout, physics: { elasticity: 0.3 } });
+    fling(60);
+
+    vi.advanceTimersByTime(FRAME_MS * 600);
+    const last = updates[updates.length - 1];
+    const yaw = (last.yaw * 180) / Math.PI;
+    expect(yaw).toBeCloseTo(Math.round(yaw / 45) * 45, 6);
+    expect(last.velocity).toBe(0);
+  });
+
+  it("springs pitch back to the rest elevation after release", () => {
+    bridge = new OrbitalInputBridge(element, (update) => updates.push(update), {
+      pitchRange: [0, 30],
+      physics: { restPitch: 10, pitchSpring: 0.2 }
+    });
+    pointer(element, "pointerdown", 0, 0);
+    vi.advanceTimersByTime(FRAME_MS);
+    pointer(window, "pointermove", 0, -200);
+    expect(updates[updates.length - 1].pitch).toBe(30);
+
+    vi.advanceTimersByTime(FRAME_MS * 10);
+    expect(updates[updates.length - 1].pitch).toBe(30);
+
+    pointer(window, "pointerup", 0, -200);
+    vi.advanceTimersByTime(FRAME_MS * 200);
+    expect(updates[updates.length - 1].pitch).toBe(10);
+  });
+
+  describe("keyboard", () => {
+    const key = (name: string) => {
+      const event = new KeyboardEvent("keydown", { key: name, bubbles: true, cancelable: true });
+      element.dispatchEvent(event);
+      return event;
+    };
+    const yawDegrees = () => (updates[updates.length - 1].yaw * 180) / Math.PI;
+
+    it("makes the element focusable", () => {
+      bridge = new OrbitalInputBridge(element, (update) => updates.push(update));
+      expect(element.tabIndex).toBe(0);
+    });
+
+    it("steps one frame per arrow press from the nearest frame", () => {
+      bridge = new OrbitalInputBridge(element, (update) => updates.push(update), {
+        layout: createGridLayout(6, 4),
+        initialYaw: 20
+      });
+      expect(key("ArrowRight").defaultPrevented).toBe(true);
+      expect(yawDegrees()).toBeCloseTo(30);
+      key("ArrowRight");
+      expect(yawDegrees()).toBeCloseTo(45);
+      key("ArrowLeft");
+      key("ArrowLeft");
+      key("ArrowLeft");
+      expect(yawDegrees()).toBeCloseTo(0);
+    });
+
+    it("tilts with PageUp/PageDown within the pitch range and resets on Home", () => {
+      bridge = new OrbitalInputBridge(element, (update) => updates.push(update), { pitchRange: [0, 30] });
+      key("PageUp");
+      expect(updates[updates.length - 1].pitch).toBe(10);
+      key("PageUp");
+      key("PageUp");
+      key("PageUp");
+      expect(updates[updates.length - 1].pitch).toBe(30);
+      key("ArrowRight");
+      key("Home");
+      expect(updates[updates.length - 1]).toMatchObject({ pitch: 0, yaw: 0 });
+    });
+
+    it("zooms with +/- within the zoom range", () => {
+      bridge = new OrbitalInputBridge(element, (update) => updates.push(update), { zoomRange: [1, 2] });
+      key("+");
+      expect(updates[updates.length - 1].view.zoom).toBeCloseTo(1.25);
+      key("+");
+      key("+");
+      key("+");
+      expect(updates[updates.length - 1].view.zoom).toBe(2);
+      key("-");
+      expect(updates[updates.length - 1].view.zoom).toBeCloseTo(1.6);
+    });
+
+    it("resets zoom and pan along with the pose on Home", () => {
+      element.getBoundingClientRect = () => ({ left: 0, top: 0, width: 200, height: 200 }) as DOMRect;
+      bridge = new OrbitalInputBridge(element, (update) => updates.push(update));
+      bridge.setZoom(2, 150, 50);
+      expect(updates[updates.length - 1].view.panX).not.toBe(0);
+      key("Home");
+      expect(updates[updates.length - 1].view).toEqual({ zoom: 1, panX: 0, panY: 0 });
+    });
+
+    it("leaves other keys alone", () => {
+      bridge = new OrbitalInputBridge(element, (update) => updates.push(update));
+      expect(key("Tab").defaultPrevented).toBe(false);
+      expect(updates).toHaveLength(0);
+    });
+  });
+
+  describe("pinch and pan", () => {
+    beforeEach(() => {
+      element.getBoundingClientRect = () => ({ left: 0, top: 0, width: 200, height: 200 }) as DOMRect;
+    });
+
+    it("pinch-zooms about the fingers' midpoint without spinning", () => {
+      bridge = new OrbitalInputBridge(element, (update) => updates.push(update));
+      pointer(element, "pointerdown", 90, 100, { pointerId: 1 });
+      pointer(element, "pointerdown", 110, 100, { pointerId: 2 });
+      pointer(window, "pointermove", 70, 100, { pointerId: 1 });
+      pointer(window, "pointermove", 130, 100, { pointerId: 2 });
+
+      const last = updates[updates.length - 1];
+      expect(last.view).toEqual({ zoom: 3, panX: 0, panY: 0 });
+      expect(last.yaw).toBe(0);
+    });
+
+    it("pans with two fingers once zoomed", () => {
+      bridge = new OrbitalInputBridge(element, (update) => updates.push(update));
+      bridge.setZoom(2);
+      pointer(element, "pointerdown", 90, 100, { pointerId: 1 });
+      pointer(element, "pointerdown", 110, 100, { pointerId: 2 });
+      pointer(window, "pointermove", 130, 100, { pointerId: 2 });
+      pointer(window, "pointermove", 110, 100, { pointerId: 1 });
+
+      expect(updates[updates.length - 1].view).toEqual({ zoom: 2, panX: expect.closeTo(0.2), panY: expect.closeTo(0) });
+    });
+
+    it("resumes spinning when one finger lifts", () => {
+      bridge = new OrbitalInputBridge(element, (update) => updates.push(update));
+      pointer(element, "pointerdown", 90, 100, { pointerId: 1 });
+      pointer(element, "pointerdown", 110, 100, { pointerId: 2 });
+      pointer(window, "pointerup", 110, 100, { pointerId: 2 });
+      vi.advanceTimersByTime(FRAME_MS);
+      pointer(window, "pointermove", 140, 100, { pointerId: 1 });
+
+      expect(updates[updates.length - 1].yaw).toBeCloseTo((50 * DEFAULT_ORBITAL_PHYSICS.yawSensitivity * Math.PI) / 180);
+    });
+
+    it("pans on shift-drag and keeps the product in frame", () => {
+      bridge = new OrbitalInputBridge(element, (update) => updates.push(update));
+      bridge.setZoom(1.5);
+      pointer(element, "pointerdown", 100, 100, { shiftKey: true });
+      pointer(window, "pointermove", 120, 90);
+      expect(updates[updates.length - 1].view).toEqual({ zoom: 1.5, panX: expect.closeTo(0.2), panY: expect.closeTo(0.1) });
+      expect(updates[updates.length - 1].yaw).toBe(0);
+
+      pointer(window, "pointermove", 400, 90);
+      expect(updates[updates.length - 1].view.panX).toBe(0.5);
+    });
+
+    it("zooms the wheel about the cursor", () => {
+      bridge = new OrbitalInputBridge(element, (update) => updates.push(update));
+      element.dispatchEvent(new WheelEvent("wheel", { deltaY: -500, clientX: 200, clientY: 100, cancelable: true }));
+      const { view } = updates[updates.length - 1];
+      expect(view.zoom).toBeGreaterThan(2);
+      expect(1 * view.zoom + view.panX).toBeCloseTo(1);
+    });
+  });
+
+  describe("wheel", () => {
+    const wheel = (init: WheelEventInit) => {
+      const event = new WheelEvent("wheel", { bubbles: true, cancelable: true, ...init });
+      element.dispatchEvent(event);
+      return event;
+    };
+
+    it("zooms on vertical scroll and pinch", () => {
+      bridge = new OrbitalInputBridge(element, (update) => updates.push(update));
+      expect(wheel({ deltaY: -100 }).defaultPrevented).toBe(true);
+      const zoomed = updates[updates.length - 1].view.zoom;
+      expect(zoomed).toBeCloseTo(Math.exp(0.2));
+      wheel({ deltaY: 30, deltaX: 40, ctrlKey: true });
+      expect(updates[updates.length - 1].view.zoom).toBeLessThan(zoomed);
+      expect(updates[updates.length - 1].yaw).toBe(0);
+    });
+
+    it("leaves the page to scroll when the zoom is at its limit", () => {
+      bridge = new OrbitalInputBridge(element, (update) => updates.push(update));
+      expect(wheel({ deltaY: 100 }).defaultPrevented).toBe(false);
+      expect(updates).toHaveLength(0);
+
+      for (let i = 0; i < 50 && wheel({ deltaY: -500 }).defaultPrevented; i++);
+      const count = updates.length;
+      expect(wheel({ deltaY: -100 }).defaultPrevented).toBe(false);
+      expect(updates).toHaveLength(count);
+      expect(wheel({ deltaY: 100 }).defaultPrevented).toBe(true);
+    });
+
+    it("keeps pinch from zooming the page even at the limit", () => {
+      bridge = new OrbitalInputBridge(element, (update) => updates.push(update));
+      expect(wheel({ deltaY: 100, ctrlKey: true }).defaultPrevented).toBe(true);
+    });
+
+    it("spins on horizontal or shift scroll", () => {
+      bridge = new OrbitalInputBridge(element, (update) => updates.push(update));
+      wheel({ deltaX: 100 });
+      expect(updates[updates.length - 1].yaw).toBeCloseTo((100 * DEFAULT_ORBITAL_PHYSICS.yawSensitivity * Math.PI) / 180);
+      wheel({ deltaY: 100, shiftKey: true });
+      expect(updates[updates.length - 1].yaw).toBeCloseTo((200 * DEFAULT_ORBITAL_PHYSICS.yawSensitivity * Math.PI) / 180);
+      expect(updates[updates.length - 1].view.zoom).toBe(1);
+    });
+
+    it("holds the frame snap off while scrolling continues", () => {
+      bridge = new OrbitalInputBridge(element, (update) => updates.push(update), { layout: createGridLayout(4, 2) });
+      wheel({ deltaX: 50 });
+      const count = updates.length;
+      vi.advanceTimersByTime(FRAME_MS * 5);
+      expect(updates).toHaveLength(count);
+
+      vi.advanceTimersByTime(FRAME_MS * 300);
+      const yaw = (updates[updates.length - 1].yaw * 180) / Math.PI;
+      expect(yaw).toBeCloseTo(Math.round(yaw / 45) * 45, 6);
+    });
+  });
+
+  describe("gamepad", () => {
+    let axes: number[];
+
+    beforeEach(() => {
+      axes = [0, 0, 0, 0];
+      Object.defineProperty(navigator, "getGamepads", {
+        configurable: true,
+        value: () => [null, { connected: true, axes }]
+      });
+    });
+
+    afterEach(() => {
+      delete (navigator as { getGamepads?: unknown }).getGamepads;
+    });
+
+    it("spins and tilts with the left stick and zooms with the right", () => {
+      bridge = new OrbitalInputBridge(element, (update) => updates.push(update), { pitchRange: [0, 30] });
+      vi.advanceTimersByTime(FRAME_MS * 2);
+      expect(updates).toHaveLength(0);
+
+      axes[0] = 1;
+      axes[1] = -0.5;
+      axes[3] = -1;
+      vi.advanceTimersByTime(FRAME_MS * 10);
+      const last = updates[updates.length - 1];
+      expect(last.yaw).toBeGreaterThan(0);
+      expect(last.velocity).toBeCloseTo(Math.PI);
+      expect(last.pitch).toBeGreaterThan(0);
+      expect(last.view.zoom).toBeGreaterThan(1);
+    });
+
+    it("ignores drift inside the deadzone", () => {
+      bridge = new OrbitalInputBridge(element, (update) => updates.push(update));
+      axes[0] = 0.1;
+      axes[1] = -0.1;
+      vi.advanceTimersByTime(FRAME_MS * 10);
+      expect(updates).toHaveLength(0);
+    });
+
+    it("coasts after the stick is released", () => {
+      bridge = new OrbitalInputBridge(element, (update) => updates.push(update));
+      axes[0] = 1;
+      vi.advanceTimersByTime(FRAME_MS * 5);
+      axes[0] = 0;
+      updates = [];
+      vi.advanceTimersByTime(FRAME_MS * 3);
+      expect(updates[1].velocity / updates[0].velocity).toBeCloseTo(frameDecay(DEFAULT_ORBITAL_PHYSICS.friction), 6);
+    });
+  });
+
+  it("claims touch gestures on the element while attached", () => {
+    element.style.touchAction = "pan-y";
+    bridge = new OrbitalInputBridge(element, (update) => updates.push(update));
+    expect(element.style.touchAction).toBe("none");
+    bridge.detach();
+    expect(element.style.touchAction).toBe("pan-y");
+  });
+
+  it("stops listening after detach", () => {
+    bridge = new OrbitalInputBridge(element, (update) => updates.push(update));
+    bridge.detach();
+
+    pointer(element, "pointerdown", 0);
+    pointer(window, "pointermove", 100);
+    vi.advanceTimersByTime(FRAME_MS * 5);
+    expect(updates).toHaveLength(0);
+  });
+});
@@ -1,70 +1,223 @@
-import { fromYawPitch, Quaternion } from "../../core/quaternion";
+import { deltaRotation, fromYawPitch, Quaternion } from "../../core/quaternion";
+import { resolveOrbitalPhysics, stepOrbitalMotion } from "../../core/orbitalPhysics";
+import { DEFAULT_GRID_LAYOUT, nearestFrameYaw } from "../../core/gridLayout";
+import { DEFAULT_VIEW, DEFAULT_ZOOM_RANGE, OrbitalView, panView, toClipSpace, zoomViewAt } from "../../core/orbitalView";
+import { GridLayout, OrbitalPhysics } from "../../types";
 
+// `rotation` is the absolute pose; `delta` is the rotation since the previous
+// update (multiply(delta, previous) === rotation). Consumers use one or the other.
+// `view` is the zoom and pan, already clamped to keep the product in frame.
 export type OrbitalInputUpdate = {
   rotation: Quaternion;
+  delta: Quaternion;
   deltaTime: number;
   velocity: number;
   pitch: number;
   yaw: number;
+  view: OrbitalView;
 };
 
+export type OrbitalInputOptions = {
+  pitchRange?: [number, number];
+  initialYaw?: number;
+  initialPitch?: number;
+  physics?: Partial<OrbitalPhysics>;
+  // Enables snap-to-frame when the spin settles and sets the arrow-key step.
+  layout?: GridLayout;
+  autoRotate?: number;
+  zoomRange?: [number, number];
+};
+
+const PITCH_KEY_STEP = 10;
+const KEY_ZOOM_STEP = 1.25;
+const WHEEL_ZOOM_RATE = 0.002;
+// Physics is held off this long after the last wheel event so the frame snap
+// does not fight a continuous trackpad swipe.
+const WHEEL_SETTLE_MS = 150;
+const WHEEL_LINE_PX = 16;
+const WHEEL_PAGE_PX = 400;
+const GAMEPAD_DEADZONE = 0.15;
+const GAMEPAD_YAW_SPEED = 180;
+const GAMEPAD_PITCH_SPEED = 60;
+const GAMEPAD_ZOOM_RATE = 1.5;
+// Longest time one animation frame advances the physics, so a backgrounded
+// tab does not jump when it resumes.
+const MAX_FRAME_MS = 100;
+
+const deadzone = (value: number | undefined) => (value === undefined || Math.abs(value) < GAMEPAD_DEADZONE ? 0 : value);
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Pose is tracked in degrees; updates report yaw and velocity in radians.
 export class OrbitalInputBridge {
   private element: HTMLElement;
   private onUpdate: (data: OrbitalInputUpdate) => void;
+  private pointers = new Map<number, { x: number; y: number }>();
   private lastPointerX = 0;
   private lastPointerY = 0;
+  private panning = false;
+  private pinchDistance = 0;
   private lastTime = performance.now();
   private dragging = false;
+  private settled = true;
   private yaw = 0;
   private pitch = 0;
   private velocity = 0;
   private frameId: number | null = null;
+  private lastRotation: Quaternion;
+  private minPitch: number;
+  private maxPitch: number;
+  private physics: OrbitalPhysics;
+  private layout: GridLayout | undefined;
+  private autoRotate: number;
+  private view: OrbitalView = { ...DEFAULT_VIEW };
+  private zoomRange: [number, number];
+  private initialPose: [number, number];
+  private wheelUntil = 0;
+  private gamepadActive = false;
+  private previousTouchAction = "";
 
-  private readonly yawSensitivity = 0.006;
-  private readonly pitchSensitivity = 0.15;
-  private readonly friction = 0.94;
-
-  constructor(element: HTMLElement, onUpdate: (data: OrbitalInputUpdate) => void) {
+  constructor(
+    element: HTMLElement,
+    onUpdate: (data: OrbitalInputUpdate) => void,
+    options: OrbitalInputOptions = {}
+  ) {
     this.element = element;
     this.onUpdate = onUpdate;
+    [this.minPitch, this.maxPitch] = options.pitchRange ?? [0, 30];
+    this.pitch = this.clampPitch(options.initialPitch ?? 0);
+    this.yaw = options.initialYaw ?? 0;
+    this.physics = resolveOrbitalPhysics(options.physics);
+    this.layout = options.layout;
+    this.autoRotate = options.autoRotate ?? 0;
+    this.zoomRange = options.zoomRange ?? DEFAULT_ZOOM_RANGE;
+    this.initialPose = [this.yaw, this.pitch];
+    this.lastRotation = fromYawPitch(toRadians(this.yaw), toRadians(this.pitch));
 
     this.handlePointerDown = this.handlePointerDown.bind(this);
     this.handlePointerMove = this.handlePointerMove.bind(this);
     this.handlePointerUp = this.handlePointerUp.bind(this);
+    this.handleKeyDown = this.handleKeyDown.bind(this);
+    this.handleWheel = this.handleWheel.bind(this);
     this.animate = this.animate.bind(this);
 
     this.attach();
   }
 
   private attach() {
+    // Without this the browser claims two-finger gestures for page zoom and
+    // scroll, and cancels the pointers mid-pinch.
+    this.previousTouchAction = this.element.style.touchAction;
+    this.element.style.touchAction = "none";
     this.element.addEventListener("pointerdown", this.handlePointerDown);
+    this.element.addEventListener("keydown", this.handleKeyDown);
+    this.element.addEventListener("wheel", this.handleWheel, { passive: false });
+    if (!this.element.hasAttribute("tabindex")) {
+      this.element.tabIndex = 0;
+    }
     window.addEventListener("pointermove", this.handlePointerMove);
     window.addEventListener("pointerup", this.handlePointerUp);
     window.addEventListener("pointercancel", this.handlePointerUp);
     this.frameId = requestAnimationFrame(this.animate);
   }
 
+  // Degrees per second of idle spin; 0 disables it. Dragging suspends the spin.
+  setAutoRotate(degreesPerSecond: number) {
+    this.autoRotate = degreesPerSecond;
+    this.settled = false;
+  }
+
+  // Jumps to an absolute pose (degrees), dropping any momentum.
+  setPose(yaw: number, pitch: number) {
+    this.yaw = yaw;
+    this.pitch = this.clampPitch(pitch);
+    this.velocity = 0;
+    this.settled = true;
+    this.emitUpdate(0);
+  }
+
+  // Zooms about the given client point, or the centre.
+  // Returns whether the view changed (false at the zoom limits).
+  setZoom(zoom: number, clientX?: number, clientY?: number) {
+    const anchor = clientX === undefined || clientY === undefined ? { x: 0, y: 0 } : this.clip(clientX, clientY);
+    return this.setView(zoomViewAt(this.view, zoom, anchor.x, anchor.y, this.zoomRange));
+  }
+
+  private setView(view: OrbitalView) {
+    if (view.zoom === this.view.zoom && view.panX === this.view.panX && view.panY === this.view.panY) {
+      return false;
+    }
+    this.view = view;
+    this.emitUpdate(0);
+    return true;
+  }
+
+  private clip(clientX: number, clientY: number) {
+    return toClipSpace(this.element.getBoundingClientRect(), clientX, clientY);
+  }
+
+  setPhysics(overrides: Partial<OrbitalPhysics>) {
+    this.physics = resolveOrbitalPhysics({ ...this.physics, ...overrides });
+    this.settled = false;
+  }
+
+  getPhysics(): OrbitalPhysics {
+    return { ...this.physics };
+  }
+
   detach() {
     this.element.removeEventListener("pointerdown", this.handlePointerDown);
+    this.element.removeEventListener("keydown", this.handleKeyDown);
+    this.element.removeEventListener("wheel", this.handleWheel);
     window.removeEventListener("pointermove", this.handlePointerMove);
     window.removeEventListener("pointerup", this.handlePointerUp);
     window.removeEventListener("pointercancel", this.handlePointerUp);
+    this.element.style.touchAction = this.previousTouchAction;
     if (this.frameId) {
       cancelAnimationFrame(this.frameId);
     }
   }
 
+  private clampPitch(pitch: number) {
+    return Math.min(this.maxPitch, Math.max(this.minPitch, pitch));
+  }
+
+  // One pointer spins (or pans with shift / middle button); two pinch-zoom and
+  // pan about their midpoint.
   private handlePointerDown(event: PointerEvent) {
-    this.dragging = true;
-    this.lastPointerX = event.clientX;
-    this.lastPointerY = event.clientY;
+    this.pointers.set(event.pointerId, { x: event.clientX, y: event.clientY });
+    this.element.setPointerCapture(event.pointerId);
     this.velocity = 0;
     this.lastTime = performance.now();
-    this.element.setPointerCapture(event.pointerId);
+    if (this.pointers.size === 1) {
+      this.dragging = true;
+      this.panning = event.shiftKey || event.button === 1;
+      this.lastPointerX = event.clientX;
+      this.lastPointerY = event.clientY;
+    } else {
+      this.startPinch();
+    }
+  }
+
+  private startPinch() {
+    const [a, b] = [...this.pointers.values()];
+    this.pinchDistance = Math.hypot(a.x - b.x, a.y - b.y);
+    this.lastPointerX = (a.x + b.x) / 2;
+    this.lastPointerY = (a.y + b.y) / 2;
   }
 
   private handlePointerMove(event: PointerEvent) {
-    if (!this.dragging) {
+    if (!this.dragging || !this.pointers.has(event.pointerId)) {
+      return;
+    }
+    this.pointers.set(event.pointerId, { x: event.clientX, y: event.clientY });
+
+    if (this.pointers.size >= 2) {
+      this.pinch();
+      return;
+    }
+    if (this.panning) {
+      this.pan(event.clientX, event.clientY);
       return;
     }
 
@@ -73,10 +226,10 @@ export class OrbitalInputBridge {
     const deltaY = event.clientY - this.lastPointerY;
     const deltaTime = Math.max(16, now - this.lastTime);
 
-    this.yaw += deltaX * this.yawSensitivity;
-    this.pitch = Math.min(30, Math.max(0, this.pitch - deltaY * this.pitchSensitivity));
+    this.yaw += deltaX * this.physics.yawSensitivity;
+    this.pitch = this.clampPitch(this.pitch - deltaY * this.physics.pitchSensitivity);
 
-    this.velocity = (deltaX * this.yawSensitivity) / (deltaTime / 1000);
+    this.velocity = (deltaX * this.physics.yawSensitivity) / (deltaTime / 1000);
 
     this.lastPointerX = event.clientX;
     this.lastPointerY = event.clientY;
@@ -85,23 +238,160 @@ export class OrbitalInputBridge {
     this.emitUpdate(deltaTime / 1000);
   }
 
+  private pinch() {
+    const [a, b] = [...this.pointers.values()];
+    const distance = Math.hypot(a.x - b.x, a.y - b.y);
+    const midX = (a.x + b.x) / 2;
+    const midY = (a.y + b.y) / 2;
+    const from = this.clip(this.lastPointerX, this.lastPointerY);
+    const to = this.clip(midX, midY);
+    const zoom = this.pinchDistance > 0 ? (this.view.zoom * distance) / this.pinchDistance : this.view.zoom;
+
+    const zoomed = zoomViewAt(this.view, zoom, from.x, from.y, this.zoomRange);
+    this.setView(panView(zoomed, to.x - from.x, to.y - from.y, this.zoomRange));
+    this.pinchDistance = distance;
+    this.lastPointerX = midX;
+    this.lastPointerY = midY;
+  }
+
+  private pan(clientX: number, clientY: number) {
+    const from = this.clip(this.lastPointerX, this.lastPointerY);
+    const to = this.clip(clientX, clientY);
+    this.setView(panView(this.view, to.x - from.x, to.y - from.y, this.zoomRange));
+    this.lastPointerX = clientX;
+    this.lastPointerY = clientY;
+  }
+
   private handlePointerUp(event: PointerEvent) {
-    if (!this.dragging) {
+    if (!this.pointers.delete(event.pointerId)) {
       return;
     }
-
-    this.dragging = false;
     this.element.releasePointerCapture(event.pointerId);
+
+    if (this.pointers.size === 1) {
+      // Back from a pinch to a single finger: carry on spinning from where it is.
+      const [remaining] = [...this.pointers.values()];
+      this.lastPointerX = remaining.x;
+      this.lastPointerY = remaining.y;
+      this.panning = false;
+    } else if (this.pointers.size > 1) {
+      this.startPinch();
+    } else {
+      this.dragging = false;
+      this.panning = false;
+      this.settled = false;
+    }
     this.lastTime = performance.now();
   }
 
+  // Arrow keys step one frame, PageUp/PageDown tilt, +/- zoom, Home resets pose
+  // and view.
+  private handleKeyDown(event: KeyboardEvent) {
+    switch (event.key) {
+      case "ArrowRight":
+        this.stepFrame(1);
+        break;
+      case "ArrowLeft":
+        this.stepFrame(-1);
+        break;
+      case "PageUp":
+        this.setPose(this.yaw, this.pitch + PITCH_KEY_STEP);
+        break;
+      case "PageDown":
+        this.setPose(this.yaw, this.pitch - PITCH_KEY_STEP);
+        break;
+      case "Home":
+        this.view = { ...DEFAULT_VIEW };
+        this.setPose(...this.initialPose);
+        break;
+      case "+":
+      case "=":
+        this.setZoom(this.view.zoom * KEY_ZOOM_STEP);
+        break;
+      case "-":
+        this.setZoom(this.view.zoom / KEY_ZOOM_STEP);
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+  }
+
+  private stepFrame(direction: 1 | -1) {
+    const layout = this.layout ?? DEFAULT_GRID_LAYOUT;
+    this.setPose(nearestFrameYaw(layout, this.yaw) + (direction * 360) / layout.frames, this.pitch);
+  }
+
+  // Vertical wheel (and trackpad pinch, which arrives as ctrl+wheel) zooms;
+  // horizontal or shift+wheel spins. A wheel that changes nothing is left to
+  // scroll the page; pinch is always kept from zooming the page instead.
+  private handleWheel(event: WheelEvent) {
+    const scale = event.deltaMode === 1 ? WHEEL_LINE_PX : event.deltaMode === 2 ? WHEEL_PAGE_PX : 1;
+    const deltaX = event.deltaX * scale;
+    const deltaY = event.deltaY * scale;
+
+    if (!event.ctrlKey && (event.shiftKey || Math.abs(deltaX) > Math.abs(deltaY))) {
+      const spin = (deltaX || deltaY) * this.physics.yawSensitivity;
+      if (!spin) {
+        return;
+      }
+      event.preventDefault();
+      this.yaw += spin;
+      this.velocity = 0;
+      this.settled = false;
+      this.wheelUntil = performance.now() + WHEEL_SETTLE_MS;
+      this.emitUpdate(0);
+      return;
+    }
+    const zoomed = this.setZoom(this.view.zoom * Math.exp(-deltaY * WHEEL_ZOOM_RATE), event.clientX, event.clientY);
+    if (zoomed || event.ctrlKey) {
+      event.preventDefault();
+    }
+  }
+
+  // Left stick spins and tilts, right stick zooms. Releasing the stick lets the
+  // spin coast like a released drag.
+  private pollGamepad(deltaTime: number) {
+    const pad = typeof navigator.getGamepads === "function"
+      ? navigator.getGamepads().find((candidate) => candidate?.connected)
+      : undefined;
+    const yawAxis = deadzone(pad?.axes[0]);
+    const pitchAxis = deadzone(pad?.axes[1]);
+    const zoomAxis = deadzone(pad?.axes[3]);
+    if (!yawAxis && !pitchAxis && !zoomAxis) {
+      if (this.gamepadActive) {
+        this.gamepadActive = false;
+        this.settled = false;
+      }
+      return false;
+    }
+
+    this.gamepadActive = true;
+    this.velocity = yawAxis * GAMEPAD_YAW_SPEED;
+    this.yaw += this.velocity * deltaTime;
+    this.pitch = this.clampPitch(this.pitch - pitchAxis * GAMEPAD_PITCH_SPEED * deltaTime);
+    this.view = zoomViewAt(this.view, this.view.zoom * Math.exp(-zoomAxis * GAMEPAD_ZOOM_RATE * deltaTime), 0, 0, this.zoomRange);
+    this.emitUpdate(deltaTime);
+    return true;
+  }
+
   private animate() {
     const now = performance.now();
-    const deltaTime = Math.max(16, now - this.lastTime);
+    const deltaTime = Math.min(MAX_FRAME_MS, now - this.lastTime);
+    const idle = !this.dragging && now >= this.wheelUntil;
 
-    if (!this.dragging && Math.abs(this.velocity) > 0.0001) {
-      this.yaw += this.velocity * (deltaTime / 1000);
-      this.velocity *= this.friction;
+    // Stick input replaces the physics step for the frame.
+    if (idle && !this.pollGamepad(deltaTime / 1000) && (!this.settled || this.autoRotate !== 0)) {
+      const step = stepOrbitalMotion(
+        { yaw: this.yaw, pitch: this.pitch, velocity: this.velocity },
+        this.physics,
+        deltaTime / 1000,
+        { layout: this.layout, pitchRange: [this.minPitch, this.maxPitch], autoRotate: this.autoRotate }
+      );
+      this.yaw = step.yaw;
+      this.pitch = step.pitch;
+      this.velocity = step.velocity;
+      this.settled = step.settled;
       this.emitUpdate(deltaTime / 1000);
     }
 
@@ -110,13 +400,17 @@ export class OrbitalInputBridge {
   }
 
   private emitUpdate(deltaTime: number) {
-    const rotation = fromYawPitch(this.yaw, (this.pitch * Math.PI) / 180);
+    const rotation = fromYawPitch(toRadians(this.yaw), toRadians(this.pitch));
+    const delta = deltaRotation(this.lastRotation, rotation);
+    this.lastRotation = rotation;
     this.onUpdate({
       rotation,
+      delta,
       deltaTime,
-      velocity: this.velocity,
+      velocity: toRadians(this.velocity),
       pitch: this.pitch,
-      yaw: this.yaw
+      yaw: toRadians(this.yaw),
+      view: { ...this.view }
     });
   }
 }
@@ -1,52 +1,93 @@
 import React, { useEffect, useMemo, useRef, useState } from "react";
-import { ProductOrbitVisualizer } from "../../core/ProductOrbitVisualizer";
-import { OrbitalInputBridge } from "./OrbitalInputBridge";
-
-const loadImage = (src: string): Promise<HTMLImageElement> =>
-  new Promise((resolve, reject) => {
-    const img = new Image();
-    img.onload = () => resolve(img);
-    img.onerror = reject;
-    img.src = src;
-  });
+import { createOrbitalRenderer } from "../../core/OrbitalCanvasRenderer";
+import { OrbitalBackend, OrbitalInterpolation, OrbitalRenderer, loadTextureRings } from "../../core/orbitalRenderer";
+import { pitchRange } from "../../core/orbitalRings";
+import { resolveOrbitalPhysics } from "../../core/orbitalPhysics";
+import { DEFAULT_VIEW } from "../../core/orbitalView";
+import { GridLayout, OrbitalPhysics, OrbitalRing, OrbitalStage } from "../../types";
+import { OrbitalAnnouncer } from "./OrbitalAnnouncer";
+import { DeviceOrientationInput, isDeviceOrientationSupported } from "./DeviceOrientationInput";
+import { OrbitalInputBridge, OrbitalInputUpdate } from "./OrbitalInputBridge";
 
 export type OrbitalModeProps = {
-  ring0Url: string;
-  ring1Url: string;
+  rings: OrbitalRing[];
+  layout: GridLayout;
   productName: string;
+  physics?: Partial<OrbitalPhysics>;
+  stage?: OrbitalStage;
 };
 
-const OrbitalMode: React.FC<OrbitalModeProps> = ({ ring0Url, ring1Url, productName }) => {
+const OrbitalMode: React.FC<OrbitalModeProps> = ({ rings, layout, productName, physics, stage }) => {
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
-  const visualizerRef = useRef<ProductOrbitVisualizer | null>(null);
+  const visualizerRef = useRef<OrbitalRenderer | null>(null);
   const bridgeRef = useRef<OrbitalInputBridge | null>(null);
+  const liveRegionRef = useRef<HTMLDivElement | null>(null);
+  const announcerRef = useRef<OrbitalAnnouncer | null>(null);
+  const tiltRef = useRef<DeviceOrientationInput | null>(null);
+  const applyRef = useRef<((payload: OrbitalInputUpdate) => void) | null>(null);
   const frameRef = useRef<number | null>(null);
+  const stageRef = useRef(stage);
   const [isReady, setIsReady] = useState(false);
-  const [webglError, setWebglError] = useState<string | null>(null);
+  const [rendererError, setRendererError] = useState<string | null>(null);
+  const [backend, setBackend] = useState<OrbitalBackend | null>(null);
+  const [zoom, setZoom] = useState(1);
+  const [showMatte, setShowMatte] = useState(false);
+  const [interpolation, setInterpolation] = useState<OrbitalInterpolation>("flow");
+  const [stageError, setStageError] = useState<string | null>(null);
+  const [tiltState, setTiltState] = useState<"off" | "on" | "denied">("off");
+  const tiltAvailable = useMemo(
+    () => isDeviceOrientationSupported() && !!window.matchMedia?.("(pointer: coarse)").matches,
+    []
+  );
+
+  // The renderer may not exist yet; setup applies the latest stage once it does.
+  const applyStage = (visualizer: OrbitalRenderer) => {
+    setStageError(null);
+    visualizer.setStage(stageRef.current ?? {}).catch((err: Error) => setStageError(err.message));
+  };
 
-  const assets = useMemo(() => ({ ring0Url, ring1Url }), [ring0Url, ring1Url]);
+  useEffect(() => {
+    stageRef.current = stage;
+    if (visualizerRef.current) {
+      applyStage(visualizerRef.current);
+    }
+  }, [stage]);
 
   useEffect(() => {
     let isMounted = true;
+    let removeResize: (() => void) | null = null;
 
     const setup = async () => {
-      const [ring0, ring1] = await Promise.all([
-        loadImage(assets.ring0Url),
-        loadImage(assets.ring1Url)
-      ]);
+      const textureRings = await loadTextureRings(rings);
 
       if (!isMounted || !canvasRef.current) {
         return;
       }
 
-      const visualizer = new ProductOrbitVisualizer(canvasRef.current, { ring0, ring1 });
-      visualizerRef.current = visualizer;
-
-      if (!visualizer.isSupported()) {
-        setWebglError("WebGL unavailable: orbital renderer requires hardware acceleration.");
-        return;
+      // Switching products swaps the textures on the existing renderer instead
+      // of allocating a new context. Falls back to Canvas2D when WebGL is blocked.
+      let visualizer = visualizerRef.current;
+      if (visualizer) {
+        visualizer.setTextures({ rings: textureRings, layout });
+        // The new input bridge starts from the front view.
+        visualizer.setPose(0, 0);
+        visualizer.setView(DEFAULT_VIEW);
+        setZoom(DEFAULT_VIEW.zoom);
+      } else {
+        visualizer = createOrbitalRenderer(canvasRef.current, { rings: textureRings, layout });
+        if (!visualizer.isSupported()) {
+          visualizer.dispose();
+          setRendererError("Orbital renderer unavailable: this browser exposes neither WebGL nor Canvas2D.");
+          return;
+        }
+        visualizerRef.current = visualizer;
+        setBackend(visualizer.backend);
+        applyStage(visualizer);
       }
 
+      const resolvedPhysics = resolveOrbitalPhysics(physics);
+      visualizer.setBlurThreshold(resolvedPhysics.blurThreshold);
+
       const resize = () => {
         if (!canvasRef.current) {
           return;
@@ -58,10 +99,26 @@ const OrbitalMode: React.FC<OrbitalModeProps> = ({ ring0Url, ring1Url, productNa
 
       resize();
       window.addEventListener("resize", resize);
+      removeResize = () => window.removeEventListener("resize", resize);
+
+      const announcer = liveRegionRef.current
+        ? new OrbitalAnnouncer(canvasRef.current, liveRegionRef.current, productName)
+        : null;
+      announcerRef.current = announcer;
+
+      applyRef.current = (payload) => {
+        visualizer.setRotation(payload.rotation, payload.velocity);
+        visualizer.setView(payload.view);
+        setZoom(payload.view.zoom);
+        announcer?.update((payload.yaw * 180) / Math.PI, payload.pitch);
+      };
 
-      bridgeRef.current = new OrbitalInputBridge(canvasRef.current, (payload) => {
-        visualizer.updateFromRotor(payload.rotation, payload.deltaTime);
-      });
+      // With tilt on, drag becomes the base pose the device tilt is added to.
+      bridgeRef.current = new OrbitalInputBridge(
+        canvasRef.current,
+        (payload) => (tiltRef.current ? tiltRef.current.setBase(payload) : applyRef.current?.(payload)),
+        { pitchRange: pitchRange(rings.map((ring) => ring.pitch)), physics: resolvedPhysics, layout }
+      );
 
       const loop = () => {
         visualizer.render();
@@ -69,24 +126,73 @@ const OrbitalMode: React.FC<OrbitalModeProps> = ({ ring0Url, ring1Url, productNa
       };
       frameRef.current = requestAnimationFrame(loop);
       setIsReady(true);
-
-      return () => {
-        window.removeEventListener("resize", resize);
-      };
     };
 
     setup();
 
     return () => {
       isMounted = false;
+      removeResize?.();
       if (frameRef.current) {
         cancelAnimationFrame(frameRef.current);
       }
       bridgeRef.current?.detach();
       bridgeRef.current = null;
-      visualizerRef.current = null;
+      tiltRef.current?.stop();
+      tiltRef.current = null;
+      applyRef.current = null;
+      setTiltState("off");
+      announcerRef.current?.dispose();
+      announcerRef.current = null;
     };
-  }, [assets]);
+  }, [rings, layout, physics, productName]);
+
+  useEffect(
+    () => () => {
+      visualizerRef.current?.dispose();
+      visualizerRef.current = null;
+    },
+    []
+  );
+
+  const toggleMatte = () => {
+    visualizerRef.current?.setShowMatte(!showMatte);
+    setShowMatte(!showMatte);
+  };
+
+  const toggleInterpolation = () => {
+    const next = interpolation === "flow" ? "crossfade" : "flow";
+    visualizerRef.current?.setInterpolation(next);
+    setInterpolation(next);
+  };
+
+  const toggleTilt = async () => {
+    if (tiltRef.current) {
+      tiltRef.current.stop();
+      tiltRef.current = null;
+      // The bridge only knows the base pose; carry the tilt offset over to it so
+      // the view stays put instead of snapping back on the next drag.
+      const pose = visualizerRef.current?.getPose();
+      if (pose) {
+        bridgeRef.current?.setPose(pose.yaw, pose.pitch);
+      }
+      setTiltState("off");
+      return;
+    }
+    const pose = visualizerRef.current?.getPose();
+    const input = new DeviceOrientationInput((payload) => applyRef.current?.(payload), {
+      mode: "blend",
+      pitchRange: pitchRange(rings.map((ring) => ring.pitch)),
+      initialYaw: pose?.yaw,
+      initialPitch: pose?.pitch
+    });
+    if (await input.start()) {
+      tiltRef.current = input;
+      setTiltState("on");
+    } else {
+      setTiltState("denied");
+    }
+  };
 
   return (
     <div className="relative w-full h-full flex items-center justify-center">
@@ -97,24 +203,74 @@ const OrbitalMode: React.FC<OrbitalModeProps> = ({ ring0Url, ring1Url, productNa
         <div className="px-4 py-2 rounded-lg bg-black/60 border border-white/10 text-[10px] font-bold uppercase tracking-widest text-indigo-200">
           {productName}
         </div>
+        {backend === "canvas2d" && (
+          <div className="px-4 py-2 rounded-lg bg-amber-500/20 border border-amber-400/30 text-[9px] font-bold uppercase tracking-[0.3em] text-amber-200">
+            Canvas_2D_Fallback
+          </div>
+        )}
+        {stageError && (
+          <div className="px-4 py-2 rounded-lg bg-red-500/20 border border-red-400/30 text-[9px] font-bold uppercase tracking-[0.3em] text-red-200">
+            {stageError}
+          </div>
+        )}
+        {isReady && !rendererError && (
+          <button
+            onClick={toggleMatte}
+            aria-pressed={showMatte}
+            className={`px-4 py-2 rounded-lg border text-[9px] font-bold uppercase tracking-[0.3em] transition-all ${showMatte ? "bg-indigo-600 border-indigo-400 text-white" : "bg-black/80 border-white/10 text-white/60"}`}
+          >
+            Matte_QA
+          </button>
+        )}
+        {isReady && !rendererError && backend === "webgl" && rings.some((ring) => ring.flowUrl) && (
+          <button
+            onClick={toggleInterpolation}
+            aria-pressed={interpolation === "flow"}
+            className={`px-4 py-2 rounded-lg border text-[9px] font-bold uppercase tracking-[0.3em] transition-all ${interpolation === "flow" ? "bg-indigo-600 border-indigo-400 text-white" : "bg-black/80 border-white/10 text-white/60"}`}
+          >
+            {interpolation === "flow" ? "Flow_Interp" : "Cross_Fade"}
+          </button>
+        )}
+        {tiltAvailable && isReady && !rendererError && (
+          <button
+            onClick={toggleTilt}
+            className={`px-4 py-2 rounded-lg border text-[9px] font-bold uppercase tracking-[0.3em] transition-all ${tiltState === "on" ? "bg-indigo-600 border-indigo-400 text-white" : "bg-black/80 border-white/10 text-white/60"}`}
+          >
+            {tiltState === "on" ? "Tilt_On" : tiltState === "denied" ? "Tilt_Blocked" : "Tilt_Off"}
+          </button>
+        )}
       </div>
       <div className="absolute bottom-6 right-6 z-10 px-4 py-2 rounded-lg bg-black/70 border border-white/10 text-[9px] font-bold uppercase tracking-[0.3em] text-white/70">
-        Drag to spin · Vertical drag for pitch
+        Drag or ←/→ to spin · Vertical drag or PgUp/PgDn for pitch · Pinch or wheel to zoom · Shift-drag to pan
       </div>
+      {isReady && !rendererError && (
+        <div className="absolute top-1/2 -translate-y-1/2 right-6 z-10 flex flex-col bg-black/80 p-1.5 rounded-2xl border border-white/10 backdrop-blur-md shadow-2xl">
+          {[1, 1.5, 2].map((level) => (
+            <button
+              key={level}
+              onClick={() => bridgeRef.current?.setZoom(level)}
+              className={`w-10 h-10 rounded-xl flex items-center justify-center transition-all ${Math.abs(zoom - level) < 0.01 ? "bg-indigo-600 text-white shadow-xl" : "text-white/40 hover:text-white"}`}
+            >
+              <span className="text-[10px] font-black">{level}x</span>
+            </button>
+          ))}
+        </div>
+      )}
       {!isReady && (
         <div className="absolute inset-0 flex items-center justify-center text-[10px] font-black uppercase tracking-[0.4em] text-white/40">
           Loading Orbital Rings...
         </div>
       )}
-      {webglError && (
+      {rendererError && (
         <div className="absolute inset-0 flex items-center justify-center bg-black/70 text-white px-6 text-center text-xs font-bold uppercase tracking-[0.3em] rounded-[2.5rem]">
-          {webglError}
+          {rendererError}
         </div>
       )}
       <canvas
         ref={canvasRef}
-        className="w-full h-full max-w-4xl max-h-[80vh] bg-white rounded-[2.5rem] shadow-2xl border border-white/10"
+        className="w-full h-full max-w-4xl max-h-[80vh] rounded-[2.5rem] shadow-2xl border border-white/10 focus:outline-none focus-visible:ring-2 focus-visible:ring-indigo-500"
       />
+      <div ref={liveRegionRef} className="sr-only" />
     </div>
   );
 };
@@ -0,0 +1,6 @@
+import { defineDKGOrbit } from "./DKGOrbitElement";
+
+export { DKGOrbitElement, defineDKGOrbit } from "./DKGOrbitElement";
+export type { DKGOrbitChangeDetail } from "./DKGOrbitElement";
+
+defineDKGOrbit();
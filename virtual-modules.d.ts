@@ -0,0 +1,4 @@
+declare module "virtual:dkg-orbit-runtime" {
+  const runtime: string;
+  export default runtime;
+}
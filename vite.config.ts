@@ -1,7 +1,43 @@
 import path from "path";
-import { defineConfig, loadEnv } from "vite";
+import { build, defineConfig, loadEnv, Plugin, Rollup } from "vite";
 import react from "@vitejs/plugin-react";
 
+const ORBIT_RUNTIME_ID = "virtual:dkg-orbit-runtime";
+const RESOLVED_ORBIT_RUNTIME_ID = `\0${ORBIT_RUNTIME_ID}`;
+
+// Bundles the <dkg-orbit> element (the same renderer, shaders and input bridge
+// the app uses) into a minified IIFE and exposes it as a string, so exports can
+// inline it into standalone HTML files.
+const orbitRuntimePlugin = (): Plugin => ({
+  name: "dkg-orbit-runtime",
+  resolveId(id) {
+    return id === ORBIT_RUNTIME_ID ? RESOLVED_ORBIT_RUNTIME_ID : null;
+  },
+  async load(id) {
+    if (id !== RESOLVED_ORBIT_RUNTIME_ID) {
+      return null;
+    }
+    const result = (await build({
+      configFile: false,
+      logLevel: "silent",
+      build: {
+        write: false,
+        minify: true,
+        lib: {
+          entry: path.resolve(__dirname, "ui/orbital/embed.ts"),
+          name: "DKGOrbit",
+          formats: ["iife"]
+        }
+      }
+    })) as Rollup.RollupOutput | Rollup.RollupOutput[];
+    const output = Array.isArray(result) ? result[0] : result;
+    output.output
+      .filter((chunk) => chunk.type === "chunk")
+      .forEach((chunk) => Object.keys(chunk.modules).forEach((file) => this.addWatchFile(file)));
+    return `export default ${JSON.stringify(output.output[0].type === "chunk" ? output.output[0].code : "")};`;
+  }
+});
+
 export default defineConfig(({ mode }) => {
   const env = loadEnv(mode, ".", "");
 
@@ -13,7 +49,7 @@ export default defineConfig(({ mode }) => {
       port: 3000,
       host: "0.0.0.0",
     },
-    plugins: [react()],
+    plugins: [react(), orbitRuntimePlugin()],
     define: {
       "process.env.API_KEY": JSON.stringify(resolvedGeminiKey),
       "process.env.GEMINI_API_KEY": JSON.stringify(resolvedGeminiKey),
@@ -0,0 +1,17 @@
+import path from "path";
+import { defineConfig } from "vite";
+
+// Standalone bundle of the <dkg-orbit> custom element for embedding on pages
+// that do not run the synthesizer app. No React, no Gemini client.
+export default defineConfig({
+  build: {
+    outDir: "dist/embed",
+    emptyOutDir: true,
+    lib: {
+      entry: path.resolve(__dirname, "ui/orbital/embed.ts"),
+      name: "DKGOrbit",
+      formats: ["es", "iife"],
+      fileName: (format) => (format === "es" ? "dkg-orbit.js" : "dkg-orbit.iife.js")
+    }
+  }
+});